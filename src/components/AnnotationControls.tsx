@@ -0,0 +1,206 @@
+import React from 'react';
+import { Shapes, ArrowUpRight, Square, Circle, Hash, MessageSquare, Trash2 } from 'lucide-react';
+import { Annotation, AnnotationAnimation, AnnotationKind } from '../types';
+
+interface AnnotationControlsProps {
+  annotations: Annotation[];
+  selectedAnnotation: Annotation | null;
+  onSelectAnnotation: (id: string | null) => void;
+  onUpdateAnnotation: (id: string, updates: Partial<Annotation>) => void;
+  onDeleteAnnotation: (id: string) => void;
+  drawKind: AnnotationKind | null; // the shape the next drag on the preview places
+  onDrawKindChange: (kind: AnnotationKind | null) => void;
+  duration: number;
+}
+
+const ANNOTATION_KINDS: { kind: AnnotationKind; label: string; icon: typeof Square; hint: string }[] = [
+  { kind: 'arrow', label: 'Arrow', icon: ArrowUpRight, hint: 'Drag from the tail to the point' },
+  { kind: 'rectangle', label: 'Box', icon: Square, hint: 'Drag a box around it' },
+  { kind: 'circle', label: 'Circle', icon: Circle, hint: 'Drag a box to circle it' },
+  { kind: 'step', label: 'Step', icon: Hash, hint: 'Click, or drag out to size the badge' },
+  { kind: 'callout', label: 'Callout', icon: MessageSquare, hint: 'Drag from the point to where the bubble goes' },
+];
+
+export const AnnotationControls: React.FC<AnnotationControlsProps> = ({
+  annotations,
+  selectedAnnotation,
+  onSelectAnnotation,
+  onUpdateAnnotation,
+  onDeleteAnnotation,
+  drawKind,
+  onDrawKindChange,
+  duration
+}) => {
+  const selected = selectedAnnotation;
+  const update = (updates: Partial<Annotation>) => selected && onUpdateAnnotation(selected.id, updates);
+  const hasText = selected?.kind === 'step' || selected?.kind === 'callout';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+        <Shapes className="w-5 h-5" />
+        <span>Annotations</span>
+      </h3>
+
+      <div className="grid grid-cols-5 gap-1">
+        {ANNOTATION_KINDS.map(({ kind, label, icon: Icon, hint }) => (
+          <button
+            key={kind}
+            onClick={() => onDrawKindChange(drawKind === kind ? null : kind)}
+            className={`flex flex-col items-center py-1.5 rounded text-[10px] transition-colors ${drawKind === kind ? 'bg-green-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+            title={hint}
+          >
+            <Icon className="w-4 h-4 mb-0.5" />
+            <span>{label}</span>
+          </button>
+        ))}
+      </div>
+      {drawKind && (
+        <p className="text-xs text-gray-400">
+          {ANNOTATION_KINDS.find(k => k.kind === drawKind)!.hint} on the preview. It starts at the playhead.
+        </p>
+      )}
+
+      <div className="space-y-1">
+        {annotations.map((annotation) => {
+          const meta = ANNOTATION_KINDS.find(k => k.kind === annotation.kind)!;
+          return (
+            <div
+              key={annotation.id}
+              className={`flex items-center justify-between px-2 py-1 rounded text-xs cursor-pointer ${annotation.id === selected?.id ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              onClick={() => onSelectAnnotation(annotation.id === selected?.id ? null : annotation.id)}
+            >
+              <span className="flex items-center space-x-1 truncate">
+                <meta.icon className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate">{annotation.text && annotation.kind === 'callout' ? annotation.text : meta.label}</span>
+              </span>
+              <span className="flex items-center space-x-2 flex-shrink-0">
+                <span>{annotation.startTime.toFixed(1)}s</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDeleteAnnotation(annotation.id);
+                  }}
+                  className="text-red-300 hover:text-red-200"
+                  title="Delete annotation"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div className="bg-gray-700 rounded-lg p-3 space-y-3 text-xs">
+          {hasText && (
+            <div>
+              <label className="block text-gray-400 mb-1">{selected.kind === 'step' ? 'Label' : 'Text'}</label>
+              <textarea
+                value={selected.text ?? ''}
+                onChange={(e) => update({ text: e.target.value })}
+                rows={selected.kind === 'step' ? 1 : 2}
+                className="w-full bg-gray-600 border border-gray-500 text-white rounded px-2 py-1 focus:ring-1 focus:ring-purple-500 resize-none"
+                onKeyDown={(e) => {
+                  // Prevent keyboard shortcuts from interfering with text input
+                  if (e.key === ' ' || e.key === 'Enter' || e.key === 'Backspace' || e.key === 'Delete') {
+                    e.stopPropagation();
+                  }
+                }}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-gray-400 mb-1">Stroke</label>
+              <input
+                type="color"
+                value={selected.strokeColor}
+                onChange={(e) => update({ strokeColor: e.target.value })}
+                className="w-full h-8 bg-gray-600 border border-gray-500 rounded cursor-pointer"
+              />
+            </div>
+            <div>
+              <label className="flex items-center text-gray-400 mb-1">
+                <input
+                  type="checkbox"
+                  checked={!!selected.fillColor}
+                  onChange={(e) => update({ fillColor: e.target.checked ? '#ffffff' : undefined })}
+                  className="mr-1"
+                />
+                Fill
+              </label>
+              <input
+                type="color"
+                value={selected.fillColor ?? '#ffffff'}
+                disabled={!selected.fillColor}
+                onChange={(e) => update({ fillColor: e.target.value })}
+                className="w-full h-8 bg-gray-600 border border-gray-500 rounded cursor-pointer disabled:opacity-40"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-gray-400 mb-1">Line width: {selected.strokeWidth}px</label>
+              <input
+                type="range" min="1" max="16" step="1"
+                value={selected.strokeWidth}
+                onChange={(e) => update({ strokeWidth: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-400 mb-1">Entrance</label>
+              <select
+                value={selected.animation}
+                onChange={(e) => update({ animation: e.target.value as AnnotationAnimation })}
+                className="w-full bg-gray-600 border border-gray-500 text-white rounded px-2 py-1"
+              >
+                <option value="none">None</option>
+                <option value="fade">Fade</option>
+                <option value="pop">Pop</option>
+                <option value="draw">Draw on</option>
+              </select>
+            </div>
+          </div>
+
+          {selected.kind === 'callout' && (
+            <div>
+              <label className="block text-gray-400 mb-1">Font size: {selected.fontSize ?? 24}px</label>
+              <input
+                type="range" min="12" max="72" step="1"
+                value={selected.fontSize ?? 24}
+                onChange={(e) => update({ fontSize: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-gray-400 mb-1">Start Time</label>
+              <input
+                type="number" step="0.1" min="0" max={selected.endTime}
+                value={selected.startTime.toFixed(1)}
+                onChange={(e) => update({ startTime: Math.max(0, Math.min(Number(e.target.value), selected.endTime - 0.1)) })}
+                className="w-full bg-gray-600 border border-gray-500 text-white rounded px-2 py-1"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-400 mb-1">End Time</label>
+              <input
+                type="number" step="0.1" min={selected.startTime} max={duration}
+                value={selected.endTime.toFixed(1)}
+                onChange={(e) => update({ endTime: Math.min(duration, Math.max(Number(e.target.value), selected.startTime + 0.1)) })}
+                className="w-full bg-gray-600 border border-gray-500 text-white rounded px-2 py-1"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { X, Wand2 } from 'lucide-react';
+import { AutoZoomSettings, ClicksData, ZoomEffect, ZoomOverlapStrategy, DEFAULT_AUTO_ZOOM_SETTINGS } from '../types';
+import { clicksToZooms, generateAutoZooms } from '../utils/autoZoom';
+import { resolveZoomOverlaps } from '../utils/zoomOverlaps';
+
+interface AutoZoomPreviewProps {
+  clicksData: ClicksData;
+  duration: number;
+  zoomEffects: ZoomEffect[];
+  overlapStrategy: ZoomOverlapStrategy | 'keep';
+  onApply: (zooms: ZoomEffect[], replaced: ZoomEffect[]) => void;
+  onCancel: () => void;
+}
+
+const SLIDERS: { key: keyof AutoZoomSettings; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'clusterGap', label: 'Group clicks within', min: 0, max: 5, step: 0.1, unit: 's' },
+  { key: 'clusterRadius', label: 'Group radius', min: 0, max: 100, step: 1, unit: '%' },
+  { key: 'minHold', label: 'Minimum hold', min: 0.5, max: 5, step: 0.1, unit: 's' },
+  { key: 'minGap', label: 'Minimum gap', min: 0, max: 5, step: 0.1, unit: 's' },
+  { key: 'leadIn', label: 'Lead in', min: 0, max: 2, step: 0.1, unit: 's' },
+  { key: 'holdAfter', label: 'Hold after last click', min: 0, max: 5, step: 0.1, unit: 's' },
+  { key: 'minScale', label: 'Min scale', min: 1, max: 4, step: 0.1, unit: 'x' },
+  { key: 'maxScale', label: 'Max scale', min: 1, max: 4, step: 0.1, unit: 'x' },
+];
+
+const Lane: React.FC<{ label: string; zooms: ZoomEffect[]; duration: number; highlight: Set<string>; highlightClass: string }> = ({
+  label, zooms, duration, highlight, highlightClass
+}) => (
+  <div>
+    <div className="text-xs text-gray-400 mb-1">{label} ({zooms.length})</div>
+    <div className="relative h-6 bg-gray-700 rounded">
+      {zooms.map(zoom => (
+        <div
+          key={zoom.id}
+          className={`absolute top-1 h-4 rounded-sm ${highlight.has(zoom.id) ? highlightClass : 'bg-gray-500'}`}
+          style={{
+            left: `${(zoom.startTime / duration) * 100}%`,
+            width: `${Math.max(0.3, ((zoom.endTime - zoom.startTime) / duration) * 100)}%`
+          }}
+          title={`${zoom.startTime.toFixed(1)}s – ${zoom.endTime.toFixed(1)}s, ${zoom.scale}x${zoom.sourceClicks ? `, ${zoom.sourceClicks.length} click(s)` : ''}`}
+        />
+      ))}
+    </div>
+  </div>
+);
+
+export const AutoZoomPreview: React.FC<AutoZoomPreviewProps> = ({
+  clicksData,
+  duration,
+  zoomEffects,
+  overlapStrategy,
+  onApply,
+  onCancel
+}) => {
+  const [settings, setSettings] = useState<AutoZoomSettings>(DEFAULT_AUTO_ZOOM_SETTINGS);
+  const [clusterClicks, setClusterClicks] = useState(true);
+  const [replaceExisting, setReplaceExisting] = useState(true);
+
+  const generated = useMemo(() => {
+    const zooms = clusterClicks ? generateAutoZooms(clicksData, settings) : clicksToZooms(clicksData);
+    return overlapStrategy === 'keep' ? zooms : resolveZoomOverlaps(zooms, overlapStrategy);
+  }, [clicksData, settings, clusterClicks, overlapStrategy]);
+
+  // Earlier auto zooms are swapped out; manual zooms are never touched
+  const replaced = replaceExisting ? zoomEffects.filter(zoom => zoom.type === 'autozoom') : [];
+  const replacedIds = new Set(replaced.map(zoom => zoom.id));
+  const after = [...zoomEffects.filter(zoom => !replacedIds.has(zoom.id)), ...generated]
+    .sort((a, b) => a.startTime - b.startTime);
+  const addedIds = new Set(generated.map(zoom => zoom.id));
+  const laneDuration = Math.max(duration, ...after.map(zoom => zoom.endTime), ...zoomEffects.map(zoom => zoom.endTime), 1);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-900 rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-white flex items-center">
+              <Wand2 className="w-6 h-6 mr-2 text-purple-400" />
+              Auto Zoom from Clicks
+            </h2>
+            <button onClick={onCancel} className="text-gray-400 hover:text-white transition-colors">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="mb-6 p-4 bg-gray-800 rounded-lg space-y-3">
+            <div className="text-sm text-gray-300">
+              {clicksData.clicks.length} clicks → <span className="text-green-400 font-semibold">{generated.length} zooms</span>
+              {replaced.length > 0 && <span className="text-red-300"> (replacing {replaced.length} auto zooms)</span>}
+            </div>
+            <Lane label="Current" zooms={zoomEffects} duration={laneDuration} highlight={replacedIds} highlightClass="bg-red-500" />
+            <Lane label="After" zooms={after} duration={laneDuration} highlight={addedIds} highlightClass="bg-green-500" />
+          </div>
+
+          <div className="mb-6 bg-gray-800 rounded-lg p-4 space-y-4">
+            <label className="flex items-center text-sm text-gray-300">
+              <input type="checkbox" checked={clusterClicks} onChange={(e) => setClusterClicks(e.target.checked)} className="mr-2" />
+              Group nearby clicks into single zooms
+            </label>
+            <label className="flex items-center text-sm text-gray-300">
+              <input type="checkbox" checked={replaceExisting} onChange={(e) => setReplaceExisting(e.target.checked)} className="mr-2" />
+              Replace existing auto zooms
+            </label>
+            {clusterClicks && (
+              <div className="grid grid-cols-2 gap-4">
+                {SLIDERS.map(slider => (
+                  <div key={slider.key}>
+                    <label className="block text-xs text-gray-400 mb-1">
+                      {slider.label}: {settings[slider.key].toFixed(slider.step < 1 ? 1 : 0)}{slider.unit}
+                    </label>
+                    <input
+                      type="range" min={slider.min} max={slider.max} step={slider.step}
+                      value={settings[slider.key]}
+                      onChange={(e) => setSettings(prev => ({ ...prev, [slider.key]: parseFloat(e.target.value) }))}
+                      className="w-full accent-purple-500"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button onClick={onCancel} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(generated, replaced)}
+              disabled={generated.length === 0 && replaced.length === 0}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useRef } from 'react';
+import { Film, Plus, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ClipTransition, ProjectClip } from '../types';
+import { getClipPlacements } from '../utils/clips';
+
+interface ClipStripProps {
+  clips: ProjectClip[]; // in order, with the open clip's live document
+  activeClipId: string;
+  onSelectClip: (id: string) => void;
+  onAddClips: (files: File[]) => void;
+  onMoveClip: (id: string, offset: -1 | 1) => void;
+  onRemoveClip: (id: string) => void;
+  onUpdateTransition: (id: string, transition: ClipTransition) => void;
+}
+
+// Clicking a transition steps through these: a hard cut, then ever longer crossfades
+const CROSSFADE_STEPS = [0.5, 1, 2];
+
+function nextTransition(transition: ClipTransition): ClipTransition {
+  if (transition.type === 'cut') return { type: 'crossfade', duration: CROSSFADE_STEPS[0] };
+  const step = CROSSFADE_STEPS.indexOf(transition.duration);
+  if (step === -1 || step === CROSSFADE_STEPS.length - 1) return { ...transition, type: 'cut' };
+  return { type: 'crossfade', duration: CROSSFADE_STEPS[step + 1] };
+}
+
+export const ClipStrip: React.FC<ClipStripProps> = ({
+  clips,
+  activeClipId,
+  onSelectClip,
+  onAddClips,
+  onMoveClip,
+  onRemoveClip,
+  onUpdateTransition
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const placements = getClipPlacements(clips);
+  const last = placements[placements.length - 1];
+  const total = last ? last.start + last.outputDuration : 0;
+  const toPercent = (time: number) => (total > 0 ? (time / total) * 100 : 0);
+
+  return (
+    <div className="mb-3 flex items-center space-x-3">
+      <div className="flex items-center space-x-1 text-sm text-gray-400">
+        <Film className="w-4 h-4" />
+        <span>Clips</span>
+      </div>
+
+      <div className="relative flex-1 h-8 bg-gray-700 rounded">
+        {clips.map((clip, i) => {
+          const placement = placements[i];
+          const isActive = clip.id === activeClipId;
+          return (
+            <div
+              key={clip.id}
+              className={`absolute top-0 h-8 rounded border group flex items-center px-2 text-xs truncate cursor-pointer ${
+                isActive ? 'bg-purple-600 border-purple-300 text-white' : 'bg-gray-600 border-gray-500 text-gray-200 hover:bg-gray-500'
+              }`}
+              style={{
+                left: `${toPercent(placement.start)}%`,
+                width: `${toPercent(placement.outputDuration)}%`
+              }}
+              title={isActive ? clip.file.name : `${clip.file.name}. Click to edit this clip.`}
+              onClick={() => onSelectClip(clip.id)}
+            >
+              <span className="truncate flex-1">{i + 1}. {clip.file.name}</span>
+              <div className="flex items-center space-x-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                {i > 0 && (
+                  <button
+                    className="w-4 h-4 flex items-center justify-center bg-gray-800/60 hover:bg-gray-800 rounded"
+                    onClick={(e) => { e.stopPropagation(); onMoveClip(clip.id, -1); }}
+                    title="Move earlier"
+                  >
+                    <ChevronLeft className="w-3 h-3" />
+                  </button>
+                )}
+                {i < clips.length - 1 && (
+                  <button
+                    className="w-4 h-4 flex items-center justify-center bg-gray-800/60 hover:bg-gray-800 rounded"
+                    onClick={(e) => { e.stopPropagation(); onMoveClip(clip.id, 1); }}
+                    title="Move later"
+                  >
+                    <ChevronRight className="w-3 h-3" />
+                  </button>
+                )}
+                {clips.length > 1 && (
+                  <button
+                    className="w-4 h-4 flex items-center justify-center bg-red-600 hover:bg-red-700 text-white rounded"
+                    onClick={(e) => { e.stopPropagation(); onRemoveClip(clip.id); }}
+                    title="Remove clip"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {/* Transitions between neighbouring clips */}
+        {clips.slice(0, -1).map((clip, i) => {
+          const seam = placements[i + 1].start + placements[i + 1].fadeIn / 2;
+          const transition = clip.transitionToNext;
+          return (
+            <button
+              key={`transition-${clip.id}`}
+              className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 px-1.5 h-5 rounded-full text-[10px] border z-10 ${
+                transition.type === 'crossfade' ? 'bg-green-600 border-green-300 text-white' : 'bg-gray-800 border-gray-400 text-gray-200'
+              }`}
+              style={{ left: `${toPercent(seam)}%` }}
+              title="Click to change the transition"
+              onClick={() => onUpdateTransition(clip.id, nextTransition(transition))}
+            >
+              {transition.type === 'crossfade' ? `Fade ${transition.duration}s` : 'Cut'}
+            </button>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="flex items-center space-x-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs rounded"
+        title="Append recordings to the project"
+      >
+        <Plus className="w-3 h-3" />
+        <span>Add clip</span>
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="video/*"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          if (files.length) onAddClips(files);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { MousePointer2 } from 'lucide-react';
+import { CursorSettings } from '../types';
+
+interface CursorControlsProps {
+  cursorSettings: CursorSettings;
+  onUpdateCursorSettings: (updates: Partial<CursorSettings>) => void;
+  hasCursorTrack: boolean;
+}
+
+export const CursorControls: React.FC<CursorControlsProps> = ({
+  cursorSettings,
+  onUpdateCursorSettings,
+  hasCursorTrack
+}) => {
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+          <MousePointer2 className="w-5 h-5" />
+          <span>Cursor</span>
+        </h3>
+        <label className="flex items-center text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={cursorSettings.enabled}
+            disabled={!hasCursorTrack}
+            onChange={(e) => onUpdateCursorSettings({ enabled: e.target.checked })}
+            className="mr-2"
+          />
+          Show
+        </label>
+      </div>
+
+      {!hasCursorTrack && (
+        <p className="text-xs text-gray-500">Import a clicks file to draw a cursor and click ripples.</p>
+      )}
+
+      {hasCursorTrack && cursorSettings.enabled && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Size: {cursorSettings.size}px</label>
+              <input
+                type="range" min="12" max="120" step="2"
+                value={cursorSettings.size}
+                onChange={(e) => onUpdateCursorSettings({ size: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Color</label>
+              <input
+                type="color"
+                value={cursorSettings.color}
+                onChange={(e) => onUpdateCursorSettings({ color: e.target.value })}
+                className="w-full h-8 bg-gray-600 border border-gray-500 rounded cursor-pointer"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Smoothing: {cursorSettings.smoothing.toFixed(2)}s</label>
+            <input
+              type="range" min="0" max="0.5" step="0.02"
+              value={cursorSettings.smoothing}
+              onChange={(e) => onUpdateCursorSettings({ smoothing: Number(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </div>
+
+          <label className="flex items-center text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={cursorSettings.ripples}
+              onChange={(e) => onUpdateCursorSettings({ ripples: e.target.checked })}
+              className="mr-2"
+            />
+            Click ripples
+          </label>
+
+          {cursorSettings.ripples && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm text-gray-300 mb-1">Ripple: {cursorSettings.rippleDuration.toFixed(1)}s</label>
+                <input
+                  type="range" min="0.2" max="2" step="0.1"
+                  value={cursorSettings.rippleDuration}
+                  onChange={(e) => onUpdateCursorSettings({ rippleDuration: Number(e.target.value) })}
+                  className="w-full accent-purple-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-300 mb-1">Ripple Color</label>
+                <input
+                  type="color"
+                  value={cursorSettings.rippleColor}
+                  onChange={(e) => onUpdateCursorSettings({ rippleColor: e.target.value })}
+                  className="w-full h-8 bg-gray-600 border border-gray-500 rounded cursor-pointer"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
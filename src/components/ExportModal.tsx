@@ -2,19 +2,103 @@ import React, { useState, useEffect, useRef } from 'react';
 import { X, Download, Settings, AlertCircle, CheckCircle, Clock } from 'lucide-react';
 import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile } from '@ffmpeg/util';
-import { ZoomEffect, TextOverlay } from '../types';
-import { getExportInterpolatedZoom } from '../types';
+import { ExportSettings, ExportQuality, ExportSpeedPreset, ReframeAspect, ReframeFollow, StageSettings } from '../types';
+import { drawFrameToCanvas, FrameScene } from '../utils/frameRenderer';
+import { getOutputSegments, outputToSource } from '../utils/timeMap';
+import { ClipPlacement, createClipSampler, getClipPlacements, LayoutClip } from '../utils/clips';
+import { FrameSampler } from '../utils/activityAnalysis';
+import { loadOverlayImage, preloadOverlayImages } from '../utils/imageOverlay';
+import { drawStage, getStageAspect, getStageContentRect } from '../utils/stage';
+import { getReframeAspect, getReframeCrop, getReframeFocus } from '../utils/reframe';
 import { VideoPlayerRef } from './VideoPlayer';
 import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
 
 const DEBUG_EXPORT = true;
 const dbg = (...args: unknown[]) => { if (DEBUG_EXPORT) console.log('[export]', ...args); };
 
+// atempo takes 0.5–2 per instance on older ffmpeg builds, so bigger changes are chained
+const atempoChain = (speed: number): string[] => {
+  const steps: string[] = [];
+  let rest = speed;
+  while (rest > 2) { steps.push('atempo=2'); rest /= 2; }
+  while (rest < 0.5) { steps.push('atempo=0.5'); rest /= 0.5; }
+  if (Math.abs(rest - 1) > 1e-3) steps.push(`atempo=${rest.toFixed(4)}`);
+  return steps;
+};
+
+/** A clip as export sees it: its file, placement inputs and the scene to draw it with. */
+export interface ExportClip extends LayoutClip {
+  id: string;
+  file: File;
+  webcamFile?: File;
+  scene: FrameScene;
+}
+
+const audioExtension = (file: File) =>
+  file.type.includes('webm') ? 'webm' :
+  file.type.includes('mp4')  ? 'mp4'  :
+  file.type.includes('ogg')  ? 'ogg'  : 'mp4';
+
+/** Whether an input already written to ffmpeg's FS has an audio stream. */
+const probeHasAudio = async (ffmpeg: FFmpeg, name: string): Promise<boolean> => {
+  const report = `${name}.streams.txt`;
+  await ffmpeg.ffprobe(['-v', 'error', '-select_streams', 'a', '-show_entries', 'stream=index', '-of', 'csv=p=0', name, '-o', report]);
+  try {
+    const data = await ffmpeg.readFile(report, 'utf8');
+    return typeof data === 'string' && data.trim().length > 0;
+  } catch {
+    return false;
+  } finally {
+    await ffmpeg.deleteFile(report).catch(() => {});
+  }
+};
+
+/**
+ * Map + codec args for the soundtrack, with one audio input per clip from `firstInput` on.
+ * A single untouched clip is copied; otherwise each clip is rebuilt segment by segment
+ * (cuts dropped, speed ramps stretched) and the clips are joined or crossfaded.
+ * Clips without audio (`hasAudio[c]` false) play silence for their output length;
+ * with no audio in any clip there's no soundtrack at all.
+ */
+const audioArgs = (clips: ExportClip[], placements: ClipPlacement[], hasAudio: boolean[], firstInput: number): string[] => {
+  if (!hasAudio.some(Boolean)) return [];
+  const [only] = clips;
+  if (clips.length === 1 && !only.document.cuts.length && !only.document.speedRamps.length) {
+    return ['-map', `${firstInput}:a:0`, '-c:a', 'copy'];
+  }
+  const graph: string[] = [];
+  clips.forEach((clip, c) => {
+    if (!hasAudio[c]) {
+      graph.push(`anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=${placements[c].outputDuration.toFixed(3)}[c${c}]`);
+      return;
+    }
+    const segments = getOutputSegments(clip.duration, clip.document.cuts, clip.document.speedRamps);
+    graph.push(`[${firstInput + c}:a:0]asplit=${segments.length}${segments.map((_, i) => `[c${c}s${i}]`).join('')}`);
+    segments.forEach((segment, i) => graph.push(`[c${c}s${i}]` + [
+      `atrim=start=${segment.start.toFixed(3)}:end=${segment.end.toFixed(3)}`,
+      'asetpts=PTS-STARTPTS',
+      ...atempoChain(segment.speed),
+      ...(segment.muted ? ['volume=0'] : []),
+    ].join(',') + `[c${c}a${i}]`));
+    graph.push(`${segments.map((_, i) => `[c${c}a${i}]`).join('')}concat=n=${segments.length}:v=0:a=1[c${c}]`);
+  });
+  let joined = '[c0]';
+  for (let c = 1; c < clips.length; c++) {
+    const fade = placements[c].fadeIn;
+    graph.push(fade > 0
+      ? `${joined}[c${c}]acrossfade=d=${fade.toFixed(3)}[j${c}]`
+      : `${joined}[c${c}]concat=n=2:v=0:a=1[j${c}]`);
+    joined = `[j${c}]`;
+  }
+  return ['-filter_complex', graph.join(';'), '-map', joined, '-c:a', 'aac'];
+};
+
 interface ExportModalProps {
-  videoFile: File;
-  zoomEffects: ZoomEffect[];
-  textOverlays: TextOverlay[];
-  duration: number;
+  clips: ExportClip[]; // in order; exported back to back as one video
+  activeClipId: string; // the clip loaded in the player
+  exportSettings: ExportSettings;
+  onExportSettingsChange: React.Dispatch<React.SetStateAction<ExportSettings>>; // settings live on the project
+  stageSettings: StageSettings;
   onClose: () => void;
   videoPlayerRef: React.RefObject<VideoPlayerRef>;
 }
@@ -27,22 +111,21 @@ interface ExportProgress {
 }
 
 export const ExportModal: React.FC<ExportModalProps> = ({
-  videoFile, zoomEffects, textOverlays, duration, onClose, videoPlayerRef
+  clips, activeClipId, exportSettings, onExportSettingsChange, stageSettings, onClose, videoPlayerRef
 }) => {
   const [ffmpeg, setFfmpeg] = useState<FFmpeg | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
   const [exportProgress, setExportProgress] = useState<ExportProgress>({
     stage: 'initializing', progress: 0, message: 'Initializing export...'
   });
-  const [exportSettings, setExportSettings] = useState({
-    quality: '1080p' as '720p' | '1080p' | '1440p' | '2160p',
-    fps: 30,
-    includeAudio: true,
-    speedPreset: 'veryfast' as 'ultrafast' | 'superfast' | 'veryfast' | 'faster' | 'fast' // fallback only
-  });
   const [showSettings, setShowSettings] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const isCancelled = useRef(false);
+  const placements = getClipPlacements(clips);
+  const outputDuration = placements.length ? placements[placements.length - 1].start + placements[placements.length - 1].outputDuration : 0;
+  const count = (pick: (clip: ExportClip) => unknown[]) => clips.reduce((total, clip) => total + pick(clip).length, 0);
+  const cutCount = count(clip => clip.document.cuts);
+  const rampCount = count(clip => clip.document.speedRamps);
 
   useEffect(() => {
     if (!DEBUG_EXPORT) return;
@@ -98,7 +181,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
 
   // helpers
   const pad6 = (n: number) => n.toString().padStart(6, '0');
-  const pickScaleBitrate = (q: '720p'|'1080p'|'1440p'|'2160p') => {
+  const pickScaleBitrate = (q: ExportQuality) => {
     switch (q) {
       case '720p':  return { scale: 720,  bitrate: 4_000_000 };
       case '1080p': return { scale: 1080, bitrate: 8_000_000 };
@@ -126,221 +209,346 @@ export const ExportModal: React.FC<ExportModalProps> = ({
     return null;
   };
 
+  /**
+   * Draws the project at an output time: the clip under it, or both clips inside a crossfade,
+   * each through its own scene. The open clip seeks in the player; the others get offscreen samplers.
+   * A clip's webcam video gets a sampler of its own, seeked to the same time plus the sync offset.
+   * On a stage the clips are drawn into the inset first, then placed on the wallpaper.
+   * A reframed output renders the whole frame offscreen and crops a window that follows the focus.
+   */
+  const createProjectRenderer = () => {
+    const samplers = new Map<number, Promise<FrameSampler & { dispose?: () => void }>>();
+    const webcamSamplers = new Map<number, Promise<FrameSampler & { dispose: () => void }>>();
+    const scratch = new Map<number, HTMLCanvasElement>();
+    // The first clip sets the shape of the inset; both export paths read it before drawing
+    let contentAspect = 16 / 9;
+    let stageContent: HTMLCanvasElement | null = null;
+    let fullFrame: HTMLCanvasElement | null = null;
+
+    const getSampler = (index: number) => {
+      let sampler = samplers.get(index);
+      if (!sampler) {
+        const clip = clips[index];
+        sampler = clip.id === activeClipId ? Promise.resolve(videoPlayerRef.current!) : createClipSampler(clip.file);
+        samplers.set(index, sampler);
+      }
+      return sampler;
+    };
+
+    const getSource = async (index: number, sourceTime: number) => {
+      const sampler = await getSampler(index);
+      await sampler.seekAndWait(sourceTime);
+      const video = sampler.getVideoElement();
+      if (!video || !video.videoWidth) throw new Error('Video is not ready for export.');
+      if (index === 0) contentAspect = video.videoWidth / video.videoHeight;
+      return { image: video, width: video.videoWidth, height: video.videoHeight };
+    };
+
+    const getWebcam = async (index: number, sourceTime: number) => {
+      const clip = clips[index];
+      if (!clip.webcamFile || !clip.scene.webcamSettings.enabled) return null;
+      let sampler = webcamSamplers.get(index);
+      if (!sampler) {
+        sampler = createClipSampler(clip.webcamFile);
+        webcamSamplers.set(index, sampler);
+      }
+      const cam = await sampler;
+      const video = cam.getVideoElement();
+      const target = sourceTime + clip.scene.webcamSettings.offset;
+      if (!video || !video.videoWidth || target < 0 || target > video.duration) return null;
+      await cam.seekAndWait(target);
+      return { image: video, width: video.videoWidth, height: video.videoHeight };
+    };
+
+    const drawClips = async (ctx: CanvasRenderingContext2D, t: number) => {
+      const W = ctx.canvas.width, H = ctx.canvas.height;
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, W, H);
+      for (let i = 0; i < clips.length; i++) {
+        const placement = placements[i];
+        const local = t - placement.start;
+        if (local < 0 || local >= placement.outputDuration) continue;
+        const clip = clips[i];
+        const sourceTime = outputToSource(local, clip.document.cuts, clip.document.speedRamps);
+        const source = await getSource(i, sourceTime);
+        const webcam = await getWebcam(i, sourceTime);
+        const alpha = placement.fadeIn > 0 && local < placement.fadeIn ? local / placement.fadeIn : 1;
+
+        // Same shape as the output and opaque: draw straight in, as a single-clip export does
+        if (alpha === 1 && Math.abs(source.width / source.height - W / H) < 0.01) {
+          drawFrameToCanvas(ctx, source, sourceTime, clip.scene, { webcam });
+          continue;
+        }
+        // Otherwise render at the clip's own shape and fit it into the frame
+        const fit = Math.min(W / source.width, H / source.height);
+        let canvas = scratch.get(i);
+        if (!canvas) {
+          canvas = document.createElement('canvas');
+          canvas.width = Math.round(source.width * fit);
+          canvas.height = Math.round(source.height * fit);
+          scratch.set(i, canvas);
+        }
+        drawFrameToCanvas(canvas.getContext('2d')!, source, sourceTime, clip.scene, { webcam });
+        ctx.save();
+        ctx.globalAlpha = alpha;
+        ctx.drawImage(canvas, (W - canvas.width) / 2, (H - canvas.height) / 2);
+        ctx.restore();
+      }
+    };
+
+    const drawStaged = async (ctx: CanvasRenderingContext2D, t: number) => {
+      if (!stageSettings.enabled) return drawClips(ctx, t);
+      const rect = getStageContentRect(stageSettings, ctx.canvas.width, ctx.canvas.height, contentAspect);
+      if (!stageContent) {
+        stageContent = document.createElement('canvas');
+        stageContent.width = rect.width;
+        stageContent.height = rect.height;
+      }
+      await drawClips(stageContent.getContext('2d', { alpha: false })!, t);
+      drawStage(ctx, stageSettings, stageContent, rect);
+    };
+
+    const drawFrame = async (ctx: CanvasRenderingContext2D, t: number) => {
+      const aspect = getReframeAspect(exportSettings.aspectRatio);
+      if (!aspect) return drawStaged(ctx, t);
+      const W = ctx.canvas.width, H = ctx.canvas.height;
+      // Render the full frame big enough that the crop lands at the output size
+      const fullAspect = getStageAspect(stageSettings, contentAspect);
+      if (!fullFrame) {
+        fullFrame = document.createElement('canvas');
+        fullFrame.width = aspect <= fullAspect ? Math.round(H * fullAspect) : W;
+        fullFrame.height = aspect <= fullAspect ? H : Math.round(W / fullAspect);
+      }
+      await drawStaged(fullFrame.getContext('2d', { alpha: false })!, t);
+
+      // Follow the clip under the playhead; inside a crossfade that's the incoming one
+      let focus = { u: 0.5, v: 0.5 };
+      placements.forEach((placement, i) => {
+        const local = t - placement.start;
+        if (local < 0 || local >= placement.outputDuration) return;
+        const clip = clips[i];
+        focus = getReframeFocus(clip.scene, outputToSource(local, clip.document.cuts, clip.document.speedRamps), exportSettings.reframeFollow);
+      });
+      const content = getStageContentRect(stageSettings, fullFrame.width, fullFrame.height, contentAspect);
+      const crop = getReframeCrop(focus, content, fullFrame.width, fullFrame.height, aspect);
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(fullFrame, crop.x, crop.y, crop.width, crop.height, 0, 0, W, H);
+    };
+
+    const dispose = async () => {
+      for (const sampler of samplers.values()) (await sampler.catch(() => null))?.dispose?.();
+      for (const sampler of webcamSamplers.values()) (await sampler.catch(() => null))?.dispose();
+    };
+
+    return { getSource, drawFrame, dispose };
+  };
+
   /** FAST PATH: WebCodecs → MP4 (H.264) */
   const exportWithWebCodecs = async () => {
     const fps = exportSettings.fps || 30;
-    const totalFrames = Math.max(1, Math.floor(duration * fps));
-    const sortedZooms = [...zoomEffects].sort((a, b) => a.startTime - b.startTime);
-
-    // discover size
-    await videoPlayerRef.current!.seekAndWait(0);
-    const testCanvas = await videoPlayerRef.current!.captureFrameCanvas([], []);
-    let W = testCanvas.width, H = testCanvas.height;
-
-    const { scale, bitrate } = pickScaleBitrate(exportSettings.quality);
-    if (H !== scale) {
-      const ratio = W / H;
-      W = Math.round(scale * ratio) & ~1;
-      H = scale & ~1;
-    } else { W &= ~1; H &= ~1; }
-
-    const cfg = await tryWebCodecsH264(W, H, fps);
-    if (!cfg) return null;
-
-    dbg('WebCodecs H.264 config:', cfg);
-
-    // muxer
-    const target = new ArrayBufferTarget();
-    const muxer = new Muxer({
-      target,
-      fastStart: 'in-memory', // correct API
-      video: { codec: 'avc', width: W, height: H, frameRate: fps }
-    });
-
-    // encoder
-    const enc = new window.VideoEncoder({
-      output: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => muxer.addVideoChunk(chunk, meta),
-      error: (e: Error) => { throw e; }
-    });
-
-    // realtime favors speed
-    (enc as VideoEncoder).configure({
-      ...cfg,
-      width: W, height: H, framerate: fps,
-      hardwareAcceleration: 'prefer-hardware',
-      bitrate,
-      bitrateMode: 'constant',
-      latencyMode: 'realtime'
-    });
-
-    setExportProgress({ stage: 'capturing', progress: 0, message: 'Encoding (WebCodecs)…' });
-    videoPlayerRef.current?.updateExportProgress(0, 'Encoding (WebCodecs)…');
-    console.time('export.webcodecs.capture+encode');
-
-    // optional scaler
-    const scaleCanvas = (W !== testCanvas.width || H !== testCanvas.height) ? (() => {
-      const c = document.createElement('canvas'); c.width = W; c.height = H; return c;
-    })() : null;
-    const scaleCtx = scaleCanvas ? scaleCanvas.getContext('2d', { alpha: false })! : null;
-
-    for (let i = 0; i < totalFrames; i++) {
-      if (isCancelled.current) { dbg('webcodec capture loop cancelled'); return null; }
-      const t = i / fps;
-      const z = getExportInterpolatedZoom(t, sortedZooms);
-      const zooms = z ? [z] : []; // z is now null when no zoom, so this works perfectly
-      const texts = textOverlays.filter(ov => t >= ov.startTime && t <= ov.endTime);
-
-      await videoPlayerRef.current!.seekAndWait(t);
-      const c = await videoPlayerRef.current!.captureFrameCanvas(zooms, texts);
-
-      const src = scaleCanvas ? (() => {
-        scaleCtx!.clearRect(0, 0, W, H);
-        scaleCtx!.drawImage(c, 0, 0, W, H);
-        return scaleCanvas!;
-      })() : c;
-
-      const vf = new window.VideoFrame(src, { timestamp: Math.round(t * 1_000_000) });
-      // keyframe every ~2 seconds keeps speed high
-      enc.encode(vf, { keyFrame: (i % (2 * fps)) === 0 });
-      vf.close();
-
-      if (i % 10 === 0) {
-        const pct = Math.round((i / totalFrames) * 90);
-        setExportProgress({ stage: 'capturing', progress: pct, message: `Encoding ${i}/${totalFrames} frames…` });
-        videoPlayerRef.current?.updateExportProgress(pct, `Encoding ${i}/${totalFrames}…`);
-        await new Promise(r => setTimeout(r, 0));
+    const totalFrames = Math.max(1, Math.floor(outputDuration * fps));
+
+    // discover size; the first clip (or the stage) sets the output shape
+    const renderer = createProjectRenderer();
+    try {
+      const source = await renderer.getSource(0, 0);
+      const { scale, bitrate } = pickScaleBitrate(exportSettings.quality);
+      const reframe = getReframeAspect(exportSettings.aspectRatio);
+      const aspect = reframe ?? getStageAspect(stageSettings, source.width / source.height);
+      // Reframed outputs keep the quality on their short side, so 9:16 at 1080p is 1080x1920
+      const H = (reframe && reframe < 1 ? Math.round(scale / reframe) : scale) & ~1;
+      const W = Math.round(H * aspect) & ~1;
+
+      const cfg = await tryWebCodecsH264(W, H, fps);
+      if (!cfg) return null;
+
+      dbg('WebCodecs H.264 config:', cfg);
+
+      // muxer
+      const target = new ArrayBufferTarget();
+      const muxer = new Muxer({
+        target,
+        fastStart: 'in-memory', // correct API
+        video: { codec: 'avc', width: W, height: H, frameRate: fps }
+      });
+
+      // encoder
+      const enc = new window.VideoEncoder({
+        output: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => muxer.addVideoChunk(chunk, meta),
+        error: (e: Error) => { throw e; }
+      });
+
+      // realtime favors speed
+      (enc as VideoEncoder).configure({
+        ...cfg,
+        width: W, height: H, framerate: fps,
+        hardwareAcceleration: 'prefer-hardware',
+        bitrate,
+        bitrateMode: 'constant',
+        latencyMode: 'realtime'
+      });
+
+      setExportProgress({ stage: 'capturing', progress: 0, message: 'Encoding (WebCodecs)…' });
+      videoPlayerRef.current?.updateExportProgress(0, 'Encoding (WebCodecs)…');
+      console.time('export.webcodecs.capture+encode');
+
+      // frames are drawn straight at the output size by the same renderer as the preview
+      const canvas = document.createElement('canvas');
+      canvas.width = W; canvas.height = H;
+      const ctx = canvas.getContext('2d', { alpha: false })!;
+
+      for (let i = 0; i < totalFrames; i++) {
+        if (isCancelled.current) { dbg('webcodec capture loop cancelled'); return null; }
+        const t = i / fps;
+
+        await renderer.drawFrame(ctx, t);
+
+        const vf = new window.VideoFrame(canvas, { timestamp: Math.round(t * 1_000_000) });
+        // keyframe every ~2 seconds keeps speed high
+        enc.encode(vf, { keyFrame: (i % (2 * fps)) === 0 });
+        vf.close();
+
+        if (i % 10 === 0) {
+          const pct = Math.round((i / totalFrames) * 90);
+          setExportProgress({ stage: 'capturing', progress: pct, message: `Encoding ${i}/${totalFrames} frames…` });
+          videoPlayerRef.current?.updateExportProgress(pct, `Encoding ${i}/${totalFrames}…`);
+          await new Promise(r => setTimeout(r, 0));
+        }
       }
-    }
 
-    await enc.flush();
-    await muxer.finalize();
-    console.timeEnd('export.webcodecs.capture+encode');
+      await enc.flush();
+      await muxer.finalize();
+      console.timeEnd('export.webcodecs.capture+encode');
 
-    const videoOnly = new Blob([target.buffer], { type: 'video/mp4' });
+      const videoOnly = new Blob([target.buffer], { type: 'video/mp4' });
 
-    if (!exportSettings.includeAudio || !ffmpeg || !isLoaded) {
-      videoPlayerRef.current?.updateExportProgress(98, 'Finalizing…');
-      return videoOnly;
-    }
+      if (!exportSettings.includeAudio || !ffmpeg || !isLoaded) {
+        videoPlayerRef.current?.updateExportProgress(98, 'Finalizing…');
+        return videoOnly;
+      }
 
-    if (isCancelled.current) { dbg('webcodec mux cancelled'); return null; }
-
-    setExportProgress({ stage: 'processing', progress: 92, message: 'Muxing audio…' });
-    videoPlayerRef.current?.updateExportProgress(92, 'Muxing audio…');
-
-    const inVideoName = 'video_only.mp4';
-    const ext =
-      videoFile.type.includes('webm') ? 'webm' :
-      videoFile.type.includes('mp4')  ? 'mp4'  :
-      videoFile.type.includes('ogg')  ? 'ogg'  : 'mp4';
-    const inAudioName = `input.${ext}`;
-
-    await ffmpeg.writeFile(inVideoName, new Uint8Array(await videoOnly.arrayBuffer()));
-    await ffmpeg.writeFile(inAudioName, await fetchFile(videoFile));
-
-    const outName = 'output_muxed.mp4';
-    const args = [
-      '-i', inVideoName,
-      '-i', inAudioName,
-      '-map', '0:v:0',
-      '-map', '1:a:0',
-      '-c:v', 'copy',
-      '-c:a', 'copy',
-      '-shortest',
-      outName
-    ];
-    dbg('ffmpeg mux args:', args.join(' '));
-    await ffmpeg.exec(args);
+      if (isCancelled.current) { dbg('webcodec mux cancelled'); return null; }
+
+      setExportProgress({ stage: 'processing', progress: 92, message: 'Muxing audio…' });
+      videoPlayerRef.current?.updateExportProgress(92, 'Muxing audio…');
+
+      const inVideoName = 'video_only.mp4';
+      const inAudioNames = clips.map((clip, c) => `input_${c}.${audioExtension(clip.file)}`);
 
-    const data = await ffmpeg.readFile(outName);
-    const blob = typeof data === 'string' ? new Blob([data], { type: 'text/plain' }) : new Blob([new Uint8Array(data)], { type: 'video/mp4' });
+      await ffmpeg.writeFile(inVideoName, new Uint8Array(await videoOnly.arrayBuffer()));
+      for (let c = 0; c < clips.length; c++) await ffmpeg.writeFile(inAudioNames[c], await fetchFile(clips[c].file));
+      const hasAudio = await Promise.all(inAudioNames.map(name => probeHasAudio(ffmpeg, name)));
 
-    videoPlayerRef.current?.updateExportProgress(98, 'Finalizing…');
-    return blob;
+      const outName = 'output_muxed.mp4';
+      const args = [
+        '-i', inVideoName,
+        ...inAudioNames.flatMap(name => ['-i', name]),
+        '-map', '0:v:0',
+        '-c:v', 'copy',
+        ...audioArgs(clips, placements, hasAudio, 1),
+        '-shortest',
+        outName
+      ];
+      dbg('ffmpeg mux args:', args.join(' '));
+      await ffmpeg.exec(args);
+
+      const data = await ffmpeg.readFile(outName);
+      const blob = typeof data === 'string' ? new Blob([data], { type: 'text/plain' }) : new Blob([new Uint8Array(data)], { type: 'video/mp4' });
+
+      videoPlayerRef.current?.updateExportProgress(98, 'Finalizing…');
+      return blob;
+    } finally {
+      await renderer.dispose();
+    }
   };
 
   /** Fallback: ffmpeg.wasm (JPEG sequence → x264) */
   const exportWithFFmpeg = async () => {
     if (!ffmpeg || !isLoaded) throw new Error('FFmpeg not available for fallback.');
     const fps = exportSettings.fps || 30;
-    const totalFrames = Math.max(1, Math.floor(duration * fps));
-    const sortedZooms = [...zoomEffects].sort((a, b) => a.startTime - b.startTime);
-
-    const inputName = exportSettings.includeAudio
-      ? (() => {
-          const ext =
-            videoFile.type.includes('webm') ? 'webm' :
-            videoFile.type.includes('mp4')  ? 'mp4'  :
-            videoFile.type.includes('ogg')  ? 'ogg'  : 'mp4';
-          return `input.${ext}`;
-        })()
-      : null;
-
-    if (inputName) {
-      const srcData = await fetchFile(videoFile);
-      await ffmpeg.writeFile(inputName, srcData);
+    const totalFrames = Math.max(1, Math.floor(outputDuration * fps));
+
+    const inputNames = exportSettings.includeAudio
+      ? clips.map((clip, c) => `input_${c}.${audioExtension(clip.file)}`)
+      : [];
+    for (let c = 0; c < inputNames.length; c++) {
+      await ffmpeg.writeFile(inputNames[c], await fetchFile(clips[c].file));
     }
+    const hasAudio = await Promise.all(inputNames.map(name => probeHasAudio(ffmpeg, name)));
 
     setExportProgress({ stage: 'capturing', progress: 0, message: 'Capturing frames…' });
     videoPlayerRef.current?.updateExportProgress(0, 'Capturing frames…');
 
-    for (let i = 0; i < totalFrames; i++) {
-      if (isCancelled.current) { dbg('ffmpeg capture loop cancelled'); return null; }
-      const t = i / fps;
-      const z = getExportInterpolatedZoom(t, sortedZooms);
-      const zooms = z ? [z] : []; // z is now null when no zoom, so this works perfectly
-      const texts = textOverlays.filter(ov => t >= ov.startTime && t <= ov.endTime);
-
-      await videoPlayerRef.current!.seekAndWait(t);
-      const blob = await videoPlayerRef.current!.captureFrame(zooms, texts);
-      const buf = new Uint8Array(await blob.arrayBuffer());
-      await ffmpeg.writeFile(`frame_${pad6(i)}.jpg`, buf);
-
-      if (i % 10 === 0) {
-        const pct = Math.round((i / totalFrames) * 60);
-        setExportProgress({ stage: 'capturing', progress: pct, message: `Captured ${i}/${totalFrames} frames` });
-        videoPlayerRef.current?.updateExportProgress(pct, `Captured ${i}/${totalFrames}…`);
-        await new Promise(r => setTimeout(r, 0));
+    const renderer = createProjectRenderer();
+    try {
+      const source = await renderer.getSource(0, 0);
+      // rendered at the first clip's height; ffmpeg scales to the chosen quality
+      const reframe = getReframeAspect(exportSettings.aspectRatio);
+      const fullAspect = getStageAspect(stageSettings, source.width / source.height);
+      const canvas = document.createElement('canvas');
+      canvas.height = (reframe && reframe > fullAspect ? Math.round(source.height * fullAspect / reframe) : source.height) & ~1;
+      canvas.width = Math.round(canvas.height * (reframe ?? fullAspect)) & ~1;
+      const ctx = canvas.getContext('2d', { alpha: false })!;
+
+      for (let i = 0; i < totalFrames; i++) {
+        if (isCancelled.current) { dbg('ffmpeg capture loop cancelled'); return null; }
+        const t = i / fps;
+
+        await renderer.drawFrame(ctx, t);
+        const blob = await new Promise<Blob>((resolve, reject) =>
+          canvas.toBlob(b => b ? resolve(b) : reject(new Error('Frame encode failed')), 'image/jpeg', 0.92));
+        const buf = new Uint8Array(await blob.arrayBuffer());
+        await ffmpeg.writeFile(`frame_${pad6(i)}.jpg`, buf);
+
+        if (i % 10 === 0) {
+          const pct = Math.round((i / totalFrames) * 60);
+          setExportProgress({ stage: 'capturing', progress: pct, message: `Captured ${i}/${totalFrames} frames` });
+          videoPlayerRef.current?.updateExportProgress(pct, `Captured ${i}/${totalFrames}…`);
+          await new Promise(r => setTimeout(r, 0));
+        }
       }
-    }
-
-    if (isCancelled.current) { dbg('ffmpeg encode cancelled'); return null; }
 
-    setExportProgress({ stage: 'encoding', progress: 65, message: 'Encoding MP4…' });
-    videoPlayerRef.current?.updateExportProgress(70, 'Encoding MP4…');
-
-    const qmap: Record<string, string> = {
-      '720p':  'scale=-2:720',
-      '1080p': 'scale=-2:1080',
-      '1440p': 'scale=-2:1440',
-      '2160p': 'scale=-2:2160'
-    };
-    const scale = qmap[exportSettings.quality] ?? qmap['1080p'];
-    const out = 'output.mp4';
-    const args: string[] = [
-      '-framerate', String(fps),
-      '-pattern_type', 'sequence',
-      '-i', 'frame_%06d.jpg',
-      ...(inputName ? ['-i', inputName] : []),
-      '-map', '0:v:0',
-      ...(inputName ? ['-map', '1:a:0'] : []),
-      '-c:v', 'libx264',
-      ...(inputName ? ['-c:a', 'copy'] : []),
-      '-pix_fmt', 'yuv420p',
-      '-preset', exportSettings.speedPreset,
-      '-crf', '23',
-      '-vf', scale,
-      '-movflags', '+faststart',
-      ...(inputName ? ['-shortest'] : []),
-      out
-    ];
-    dbg('ffmpeg encode args:', args.join(' '));
-    await ffmpeg.exec(args);
-
-    const data = await ffmpeg.readFile(out);
-    const blob = typeof data === 'string' ? new Blob([data], { type: 'text/plain' }) : new Blob([new Uint8Array(data)], { type: 'video/mp4' });
-    videoPlayerRef.current?.updateExportProgress(95, 'Finalizing…');
-    return blob;
+      if (isCancelled.current) { dbg('ffmpeg encode cancelled'); return null; }
+
+      setExportProgress({ stage: 'encoding', progress: 65, message: 'Encoding MP4…' });
+      videoPlayerRef.current?.updateExportProgress(70, 'Encoding MP4…');
+
+      const qmap: Record<string, string> = {
+        '720p':  'scale=-2:720',
+        '1080p': 'scale=-2:1080',
+        '1440p': 'scale=-2:1440',
+        '2160p': 'scale=-2:2160'
+      };
+      let scale = qmap[exportSettings.quality] ?? qmap['1080p'];
+      // Vertical outputs take the quality as their width
+      if (reframe && reframe < 1) scale = scale.replace(/scale=-2:(\d+)/, 'scale=$1:-2');
+      const out = 'output.mp4';
+      const args: string[] = [
+        '-framerate', String(fps),
+        '-pattern_type', 'sequence',
+        '-i', 'frame_%06d.jpg',
+        ...inputNames.flatMap(name => ['-i', name]),
+        '-map', '0:v:0',
+        '-c:v', 'libx264',
+        ...(inputNames.length ? audioArgs(clips, placements, hasAudio, 1) : []),
+        '-pix_fmt', 'yuv420p',
+        '-preset', exportSettings.speedPreset,
+        '-crf', '23',
+        '-vf', scale,
+        '-movflags', '+faststart',
+        ...(inputNames.length ? ['-shortest'] : []),
+        out
+      ];
+      dbg('ffmpeg encode args:', args.join(' '));
+      await ffmpeg.exec(args);
+
+      const data = await ffmpeg.readFile(out);
+      const blob = typeof data === 'string' ? new Blob([data], { type: 'text/plain' }) : new Blob([new Uint8Array(data)], { type: 'video/mp4' });
+      videoPlayerRef.current?.updateExportProgress(95, 'Finalizing…');
+      return blob;
+    } finally {
+      await renderer.dispose();
+    }
   };
 
   const exportVideo = async () => {
@@ -358,6 +566,9 @@ export const ExportModal: React.FC<ExportModalProps> = ({
       videoPlayerRef.current.beginExport();
 
       setExportProgress({ stage: 'capturing', progress: 0, message: 'Preparing…' });
+      // Frames are drawn synchronously, so every image overlay has to be decoded up front
+      await preloadOverlayImages(clips.flatMap(clip => clip.scene.imageOverlays));
+      if (stageSettings.enabled && stageSettings.background === 'image' && stageSettings.imageSrc) await loadOverlayImage(stageSettings.imageSrc);
 
       let finalBlob: Blob | null = null;
       try {
@@ -445,10 +656,11 @@ export const ExportModal: React.FC<ExportModalProps> = ({
           <div className="mb-6 p-4 bg-gray-800 rounded-lg">
             <h3 className="text-lg font-semibold text-white mb-3">Export Summary</h3>
             <div className="space-y-2 text-gray-300">
-              <p>• {zoomEffects.length} zoom effects will be applied</p>
-              <p>• {textOverlays.length} text overlays will be included</p>
-              <p>• Duration: {Math.floor(duration)} seconds</p>
-              <p>• Quality: {exportSettings.quality}</p>
+              {clips.length > 1 && <p>• {clips.length} clips joined into one video</p>}
+              <p>• {count(clip => clip.scene.zoomEffects)} zoom effects will be applied</p>
+              <p>• {count(clip => clip.scene.textOverlays)} text overlays will be included</p>
+              <p>• Duration: {Math.floor(outputDuration)} seconds{cutCount > 0 && ` (${cutCount} cuts removed)`}{rampCount > 0 && ` (${rampCount} speed ramps)`}</p>
+              <p>• Quality: {exportSettings.quality}{exportSettings.aspectRatio !== 'source' && `, reframed to ${exportSettings.aspectRatio}`}</p>
               <p>• Frame rate: {exportSettings.fps} FPS</p>
               <p className="text-green-400 font-semibold">✓ Optimized fast export (WebCodecs when available)</p>
             </div>
@@ -463,12 +675,12 @@ export const ExportModal: React.FC<ExportModalProps> = ({
               </button>
             </div>
 
-            {duration > 60 && (
+            {outputDuration > 60 && (
               <div className="mb-4 p-3 bg-yellow-900/30 border border-yellow-600/50 rounded-lg">
                 <div className="flex items-center space-x-2">
                   <AlertCircle className="w-5 h-5 text-yellow-400" />
                   <span className="text-yellow-200 text-sm">
-                    Long video detected ({Math.floor(duration)}s). Export time varies by hardware.
+                    Long video detected ({Math.floor(outputDuration)}s). Export time varies by hardware.
                   </span>
                 </div>
               </div>
@@ -480,7 +692,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                   <label className="block text-sm text-gray-300 mb-2">Quality</label>
                   <select
                     value={exportSettings.quality}
-                    onChange={(e) => setExportSettings(prev => ({ ...prev, quality: e.target.value as '720p' | '1080p' | '1440p' | '2160p' }))}
+                    onChange={(e) => onExportSettingsChange(prev => ({ ...prev, quality: e.target.value as ExportQuality }))}
                     className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2"
                   >
                     <option value="720p">720p (HD)</option>
@@ -490,11 +702,40 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-sm text-gray-300 mb-2">Aspect Ratio</label>
+                  <select
+                    value={exportSettings.aspectRatio}
+                    onChange={(e) => onExportSettingsChange(prev => ({ ...prev, aspectRatio: e.target.value as ReframeAspect }))}
+                    className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2"
+                  >
+                    <option value="source">Original</option>
+                    <option value="9:16">9:16 (vertical)</option>
+                    <option value="1:1">1:1 (square)</option>
+                    <option value="4:5">4:5 (portrait)</option>
+                  </select>
+                </div>
+
+                {exportSettings.aspectRatio !== 'source' && (
+                  <div>
+                    <label className="block text-sm text-gray-300 mb-2">Crop Follows</label>
+                    <select
+                      value={exportSettings.reframeFollow}
+                      onChange={(e) => onExportSettingsChange(prev => ({ ...prev, reframeFollow: e.target.value as ReframeFollow }))}
+                      className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2"
+                    >
+                      <option value="zoom">Zoom center</option>
+                      <option value="clicks">Cursor and clicks</option>
+                      <option value="manual">Manual path</option>
+                    </select>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm text-gray-300 mb-2">Frame Rate: {exportSettings.fps} FPS</label>
                   <input
                     type="range" min="24" max="60" value={exportSettings.fps}
-                    onChange={(e) => setExportSettings(prev => ({ ...prev, fps: parseInt(e.target.value) }))}
+                    onChange={(e) => onExportSettingsChange(prev => ({ ...prev, fps: parseInt(e.target.value) }))}
                     className="w-full accent-purple-500"
                   />
                 </div>
@@ -503,7 +744,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                   <label className="block text-sm text-gray-300 mb-2">Fallback Preset (ffmpeg)</label>
                   <select
                     value={exportSettings.speedPreset}
-                    onChange={(e) => setExportSettings(prev => ({ ...prev, speedPreset: e.target.value as 'ultrafast' | 'superfast' | 'veryfast' | 'faster' | 'fast' }))}
+                    onChange={(e) => onExportSettingsChange(prev => ({ ...prev, speedPreset: e.target.value as ExportSpeedPreset }))}
                     className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2"
                   >
                     <option value="ultrafast">ultrafast (fastest)</option>
@@ -518,7 +759,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                   <input
                     type="checkbox" id="includeAudio"
                     checked={exportSettings.includeAudio}
-                    onChange={(e) => setExportSettings(prev => ({ ...prev, includeAudio: e.target.checked }))}
+                    onChange={(e) => onExportSettingsChange(prev => ({ ...prev, includeAudio: e.target.checked }))}
                     className="mr-2"
                   />
                   <label htmlFor="includeAudio" className="text-sm text-gray-300">Include Audio</label>
@@ -1,10 +1,17 @@
 import React, { useRef, useState } from 'react';
-import { Upload, FileVideo, Sparkles, FileText, Video, X } from 'lucide-react';
-import { ClicksData } from '../types';
+import { Upload, FileVideo, Sparkles, FileText, Video, X, FolderOpen, Link, History } from 'lucide-react';
+import { ClicksData, ProjectFile, RecoverableSession } from '../types';
 
 interface FileImportProps {
   onFileSelect: (file: File) => void;
   onClicksImport?: (clicksData: ClicksData) => void;
+  onProjectOpen: (file: File) => void;
+  pendingProject: ProjectFile | null;
+  pendingClipIndex: number; // clips of the pending project are re-linked one at a time
+  onCancelPendingProject: () => void;
+  recoverableSession: RecoverableSession | null;
+  onRecoverSession: () => void;
+  onDiscardSession: () => void;
   ffmpegStatus: 'loading' | 'loaded' | 'error';
   onFfmpegCheck: () => void;
 }
@@ -12,12 +19,23 @@ interface FileImportProps {
 export const FileImport: React.FC<FileImportProps> = ({
   onFileSelect,
   onClicksImport,
+  onProjectOpen,
+  pendingProject,
+  pendingClipIndex,
+  onCancelPendingProject,
+  recoverableSession,
+  onRecoverSession,
+  onDiscardSession,
   ffmpegStatus,
   onFfmpegCheck,
 }) => {
   const [showFfmpegWarning, setShowFfmpegWarning] = useState(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const clicksInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const pendingClip = pendingProject?.clips[pendingClipIndex];
+  const sessionClips = recoverableSession?.session.clips ?? [];
+  const sessionClip = sessionClips.find(clip => clip.id === recoverableSession?.session.activeClipId) ?? sessionClips[0];
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -47,6 +65,14 @@ export const FileImport: React.FC<FileImportProps> = ({
     }
   };
 
+  const handleProjectFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onProjectOpen(file);
+    }
+    event.target.value = '';
+  };
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     const files = Array.from(e.dataTransfer.files);
@@ -121,6 +147,59 @@ export const FileImport: React.FC<FileImportProps> = ({
           </div>
         )}
 
+        {/* Crash recovery */}
+        {recoverableSession && (
+          <div className="w-full max-w-2xl mx-auto bg-white/70 border border-yellow-400 text-gray-800 p-4 rounded-xl flex items-center justify-between shadow-lg">
+            <div className="flex items-start space-x-3">
+              <History className="w-6 h-6 text-yellow-600 mt-0.5" />
+              <div>
+                <p className="font-semibold">Recover unfinished session?</p>
+                <p className="text-sm text-gray-600">
+                  <span className="font-mono">{sessionClip.videoName}</span>
+                  {sessionClips.length > 1 && ` and ${sessionClips.length - 1} more clip${sessionClips.length > 2 ? 's' : ''}`}
+                  {' '}with {sessionClip.document.zoomEffects.length} zooms and {sessionClip.document.textOverlays.length} text overlays,
+                  {' '}last saved {new Date(recoverableSession.session.savedAt).toLocaleString()}.
+                </p>
+              </div>
+            </div>
+            <div className="flex space-x-2 ml-4">
+              <button
+                onClick={onRecoverSession}
+                className="px-4 py-2 bg-yellow-500 hover:bg-yellow-600 text-white font-semibold rounded-lg transition-colors"
+              >
+                Recover
+              </button>
+              <button
+                onClick={onDiscardSession}
+                className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg transition-colors"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Project waiting for its source video */}
+        {pendingProject && pendingClip && (
+          <div className="w-full max-w-2xl mx-auto bg-white/70 border border-purple-400 text-purple-900 p-4 rounded-xl flex items-start justify-between shadow-lg">
+            <div className="flex items-start space-x-3">
+              <Link className="w-6 h-6 text-purple-700 mt-0.5" />
+              <div>
+                <p className="font-semibold">Re-link "{pendingProject.name}"</p>
+                <p className="text-sm">
+                  {pendingProject.clips.length > 1 && `Clip ${pendingClipIndex + 1} of ${pendingProject.clips.length}: `}
+                  Choose the source recording <span className="font-mono">{pendingClip.source.name}</span>
+                  {' '}({(pendingClip.source.size / (1024 * 1024)).toFixed(1)} MB, {Math.round(pendingClip.source.duration)}s)
+                  {' '}to restore {pendingClip.zoomEffects.length} zooms and {pendingClip.textOverlays.length} text overlays.
+                </p>
+              </div>
+            </div>
+            <button onClick={onCancelPendingProject} className="text-purple-500 hover:text-purple-800">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
         {/* Screen Recorder Section */}
         <div className="flex justify-center">
           <div className="bg-white/60 backdrop-blur-lg border border-purple-300 rounded-2xl p-6 shadow-xl hover:shadow-purple-400 transition-all duration-300 max-w-md w-full">
@@ -146,6 +225,30 @@ export const FileImport: React.FC<FileImportProps> = ({
               Captures screen with click-based zoom points
             </p>
           </div>
+
+          <div className="bg-white/60 backdrop-blur-lg border border-purple-300 rounded-2xl p-6 shadow-xl hover:shadow-purple-400 transition-all duration-300 max-w-md w-full ml-8">
+            <div className="flex items-center justify-center mb-4">
+              <FolderOpen className="w-8 h-8 text-purple-700" />
+            </div>
+            <h3 className="text-lg font-semibold text-center text-purple-800">Open Project</h3>
+            <p className="text-purple-700 text-sm text-center mb-4">
+              Continue a saved project from you or a teammate
+            </p>
+            <button
+              onClick={() => projectInputRef.current?.click()}
+              className="w-full flex items-center justify-center space-x-2 py-3 
+              bg-purple-600/80 hover:bg-purple-700/90 
+              text-white font-semibold rounded-xl 
+              border border-purple-500 backdrop-blur-md 
+              shadow-lg transition-all duration-300"
+            >
+              <FolderOpen className="w-5 h-5" />
+              <span>Choose Project File</span>
+            </button>
+            <p className="text-purple-700 text-xs text-center mt-3">
+              You will be asked to re-link the source video
+            </p>
+          </div>
         </div>
 
         {/* Two-Column: Video and Clicks */}
@@ -216,6 +319,14 @@ export const FileImport: React.FC<FileImportProps> = ({
           onChange={handleFileSelect}
           className="hidden"
         />
+
+        <input
+          ref={projectInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleProjectFileSelect}
+          className="hidden"
+        />
       </div>
     </div>
   );
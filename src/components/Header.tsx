@@ -1,11 +1,17 @@
 import React, { useRef } from 'react';
-import { Upload, Download, FileVideo, Sparkles, FileText, Video } from 'lucide-react';
+import { Upload, Download, FileVideo, Sparkles, FileText, Video, Save, FolderOpen, Undo2, Redo2 } from 'lucide-react';
 import { ClicksData } from '../types';
 
 interface HeaderProps {
   videoFile: File;
   onExport: () => void;
   onNewProject: () => void;
+  onSaveProject: () => void;
+  onOpenProject: (file: File) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
   onScreenrecorder: () => void;
   onClicksImport: (clicksData: ClicksData) => void;
 }
@@ -14,10 +20,25 @@ export const Header: React.FC<HeaderProps> = ({
   videoFile,
   onExport,
   onNewProject,
+  onSaveProject,
+  onOpenProject,
+  onUndo,
+  onRedo,
+  undoLabel,
+  redoLabel,
   onScreenrecorder,
   onClicksImport
 }) => {
   const clicksInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  const handleProjectFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onOpenProject(file);
+    }
+    event.target.value = '';
+  };
 
   const handleClicksFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -55,6 +76,25 @@ export const Header: React.FC<HeaderProps> = ({
         </div>
         
         <div className="flex items-center space-x-3">
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={onUndo}
+              disabled={!undoLabel}
+              title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+              className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!redoLabel}
+              title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
+          </div>
+
           <button
             onClick={onScreenrecorder}
             className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
@@ -71,6 +111,22 @@ export const Header: React.FC<HeaderProps> = ({
             <span>Import Data</span>
           </button>
           
+          <button
+            onClick={() => projectInputRef.current?.click()}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            <FolderOpen className="w-4 h-4" />
+            <span>Open Project</span>
+          </button>
+
+          <button
+            onClick={onSaveProject}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>Save Project</span>
+          </button>
+
           <button
             onClick={onNewProject}
             className="flex items-center space-x-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
@@ -95,6 +151,13 @@ export const Header: React.FC<HeaderProps> = ({
         onChange={handleClicksFileSelect}
         className="hidden"
       />
+      <input
+        ref={projectInputRef}
+        type="file"
+        accept=".json"
+        onChange={handleProjectFileSelect}
+        className="hidden"
+      />
     </header>
   );
 };
\ No newline at end of file
@@ -0,0 +1,184 @@
+import React, { useRef } from 'react';
+import { Image, ImagePlus, Pin, Trash2 } from 'lucide-react';
+import { ImageOverlay } from '../types';
+import { ImageOverlayCorner } from '../utils/imageOverlay';
+
+interface ImageOverlayControlsProps {
+  imageOverlays: ImageOverlay[];
+  selectedImageOverlay: ImageOverlay | null;
+  onSelectImageOverlay: (id: string | null) => void;
+  onAddImageOverlay: (file: File) => void;
+  onUpdateImageOverlay: (id: string, updates: Partial<ImageOverlay>) => void;
+  onDeleteImageOverlay: (id: string) => void;
+  onPlaceInCorner: (id: string, corner: ImageOverlayCorner) => void;
+  duration: number;
+}
+
+const CORNERS: { corner: ImageOverlayCorner; label: string }[] = [
+  { corner: 'top-left', label: 'Top left' },
+  { corner: 'top-right', label: 'Top right' },
+  { corner: 'bottom-left', label: 'Bottom left' },
+  { corner: 'bottom-right', label: 'Bottom right' },
+];
+
+export const ImageOverlayControls: React.FC<ImageOverlayControlsProps> = ({
+  imageOverlays,
+  selectedImageOverlay,
+  onSelectImageOverlay,
+  onAddImageOverlay,
+  onUpdateImageOverlay,
+  onDeleteImageOverlay,
+  onPlaceInCorner,
+  duration
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = selectedImageOverlay;
+  const update = (updates: Partial<ImageOverlay>) => selected && onUpdateImageOverlay(selected.id, updates);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+        <Image className="w-5 h-5" />
+        <span>Images</span>
+      </h3>
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full flex items-center justify-center space-x-2 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+      >
+        <ImagePlus className="w-4 h-4" />
+        <span>Add Logo or Image</span>
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/png,image/svg+xml,image/jpeg,image/webp"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onAddImageOverlay(file);
+          e.target.value = '';
+        }}
+      />
+
+      <div className="space-y-1">
+        {imageOverlays.map((overlay) => (
+          <div
+            key={overlay.id}
+            className={`flex items-center justify-between px-2 py-1 rounded text-xs cursor-pointer ${overlay.id === selected?.id ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            onClick={() => onSelectImageOverlay(overlay.id === selected?.id ? null : overlay.id)}
+          >
+            <span className="flex items-center space-x-1 truncate">
+              <img src={overlay.src} alt="" className="w-4 h-4 object-contain flex-shrink-0" />
+              <span className="truncate">{overlay.name}</span>
+              {overlay.fixedToScreen && <Pin className="w-3 h-3 flex-shrink-0" />}
+            </span>
+            <span className="flex items-center space-x-2 flex-shrink-0">
+              <span>{overlay.startTime.toFixed(1)}s</span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDeleteImageOverlay(overlay.id);
+                }}
+                className="text-red-300 hover:text-red-200"
+                title="Delete image"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="bg-gray-700 rounded-lg p-3 space-y-3 text-xs">
+          <label className="flex items-center text-gray-300" title="Keep it in place while the video zooms, like a watermark">
+            <input
+              type="checkbox"
+              checked={selected.fixedToScreen}
+              onChange={(e) => update({ fixedToScreen: e.target.checked })}
+              className="mr-2"
+            />
+            Fixed on screen
+          </label>
+
+          <div>
+            <label className="block text-gray-400 mb-1">Snap to corner</label>
+            <div className="grid grid-cols-4 gap-1">
+              {CORNERS.map(({ corner, label }) => (
+                <button
+                  key={corner}
+                  onClick={() => onPlaceInCorner(selected.id, corner)}
+                  className="py-1 bg-gray-600 hover:bg-gray-500 text-gray-200 rounded"
+                  title={label}
+                >
+                  {label.split(' ').map(word => word[0].toUpperCase()).join('')}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-gray-400 mb-1">Size: {selected.width.toFixed(0)}%</label>
+              <input
+                type="range" min="2" max="100" step="0.5"
+                value={selected.width}
+                onChange={(e) => update({ width: parseFloat(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-400 mb-1">Opacity: {Math.round(selected.opacity * 100)}%</label>
+              <input
+                type="range" min="0.05" max="1" step="0.05"
+                value={selected.opacity}
+                onChange={(e) => update({ opacity: parseFloat(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-400 mb-1">Centre X: {selected.x.toFixed(0)}%</label>
+              <input
+                type="range" min="0" max="100" step="0.5"
+                value={selected.x}
+                onChange={(e) => update({ x: parseFloat(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-400 mb-1">Centre Y: {selected.y.toFixed(0)}%</label>
+              <input
+                type="range" min="0" max="100" step="0.5"
+                value={selected.y}
+                onChange={(e) => update({ y: parseFloat(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-gray-400 mb-1">Start Time</label>
+              <input
+                type="number" step="0.1" min="0" max={selected.endTime}
+                value={selected.startTime.toFixed(1)}
+                onChange={(e) => update({ startTime: Math.max(0, Math.min(Number(e.target.value), selected.endTime - 0.1)) })}
+                className="w-full bg-gray-600 border border-gray-500 text-white rounded px-2 py-1"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-400 mb-1">End Time</label>
+              <input
+                type="number" step="0.1" min={selected.startTime} max={duration}
+                value={selected.endTime.toFixed(1)}
+                onChange={(e) => update({ endTime: Math.min(duration, Math.max(Number(e.target.value), selected.startTime + 0.1)) })}
+                className="w-full bg-gray-600 border border-gray-500 text-white rounded px-2 py-1"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
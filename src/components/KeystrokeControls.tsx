@@ -0,0 +1,136 @@
+import React from 'react';
+import { Keyboard } from 'lucide-react';
+import { KeystrokeSettings } from '../types';
+
+interface KeystrokeControlsProps {
+  keystrokeSettings: KeystrokeSettings;
+  onUpdateKeystrokeSettings: (updates: Partial<KeystrokeSettings>) => void;
+  keystrokeCount: number;
+  badgeCount: number;
+}
+
+export const KeystrokeControls: React.FC<KeystrokeControlsProps> = ({
+  keystrokeSettings,
+  onUpdateKeystrokeSettings,
+  keystrokeCount,
+  badgeCount
+}) => {
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+          <Keyboard className="w-5 h-5" />
+          <span>Keystrokes</span>
+        </h3>
+        <label className="flex items-center text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={keystrokeSettings.enabled}
+            disabled={keystrokeCount === 0}
+            onChange={(e) => onUpdateKeystrokeSettings({ enabled: e.target.checked })}
+            className="mr-2"
+          />
+          Show
+        </label>
+      </div>
+
+      {keystrokeCount === 0 ? (
+        <p className="text-xs text-gray-500">Import a clicks file with a "keys" track to show keystroke badges.</p>
+      ) : (
+        <p className="text-xs text-gray-400">{keystrokeCount} keys shown as {badgeCount} badges</p>
+      )}
+
+      {keystrokeCount > 0 && keystrokeSettings.enabled && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">X: {keystrokeSettings.x}%</label>
+              <input
+                type="range" min="0" max="100" step="1"
+                value={keystrokeSettings.x}
+                onChange={(e) => onUpdateKeystrokeSettings({ x: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Y: {keystrokeSettings.y}%</label>
+              <input
+                type="range" min="0" max="100" step="1"
+                value={keystrokeSettings.y}
+                onChange={(e) => onUpdateKeystrokeSettings({ y: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Group: {keystrokeSettings.groupWindow.toFixed(1)}s</label>
+              <input
+                type="range" min="0" max="3" step="0.1"
+                value={keystrokeSettings.groupWindow}
+                onChange={(e) => onUpdateKeystrokeSettings({ groupWindow: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Hold: {keystrokeSettings.holdDuration.toFixed(1)}s</label>
+              <input
+                type="range" min="0.2" max="5" step="0.1"
+                value={keystrokeSettings.holdDuration}
+                onChange={(e) => onUpdateKeystrokeSettings({ holdDuration: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Font Size</label>
+              <input
+                type="number" min="12" max="96"
+                value={keystrokeSettings.fontSize}
+                onChange={(e) => onUpdateKeystrokeSettings({ fontSize: Number(e.target.value) })}
+                className="w-full bg-gray-600 border border-gray-500 text-white rounded px-3 py-2 focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Font Family</label>
+              <select
+                value={keystrokeSettings.fontFamily}
+                onChange={(e) => onUpdateKeystrokeSettings({ fontFamily: e.target.value })}
+                className="w-full bg-gray-600 border border-gray-500 text-white rounded px-3 py-2 focus:ring-2 focus:ring-purple-500"
+              >
+                <option value="Arial">Arial</option>
+                <option value="Helvetica">Helvetica</option>
+                <option value="Verdana">Verdana</option>
+                <option value="Courier New">Courier New</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Text Color</label>
+              <input
+                type="color"
+                value={keystrokeSettings.color}
+                onChange={(e) => onUpdateKeystrokeSettings({ color: e.target.value })}
+                className="w-full h-10 bg-gray-600 border border-gray-500 rounded cursor-pointer"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Background Color</label>
+              <input
+                type="color"
+                value={keystrokeSettings.backgroundColor}
+                onChange={(e) => onUpdateKeystrokeSettings({ backgroundColor: e.target.value })}
+                className="w-full h-10 bg-gray-600 border border-gray-500 rounded cursor-pointer"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+import React from 'react';
+import { EyeOff, Pencil, Plus, Diamond, Trash2 } from 'lucide-react';
+import { RedactionRegion, RedactionKeyframe, RedactionShape, RedactionStyle } from '../types';
+import { RedactionRect } from '../utils/redaction';
+
+// What a drag on the preview does: add a region, or reposition the selected one
+export type RedactionDrawMode = 'new' | 'selected';
+
+interface RedactionControlsProps {
+  redactions: RedactionRegion[];
+  selectedRedactionId: string | null;
+  onSelectRedaction: (id: string | null) => void;
+  selectedKeyframeId: string | null;
+  onSelectKeyframe: (keyframeId: string | null) => void;
+  onUpdateRedaction: (id: string, updates: Partial<RedactionRegion>) => void;
+  onDeleteRedaction: (id: string) => void;
+  onAddKeyframe: () => void;
+  onDeleteKeyframe: (keyframeId: string) => void;
+  drawMode: RedactionDrawMode | null;
+  onDrawModeChange: (mode: RedactionDrawMode | null) => void;
+  currentTime: number;
+  duration: number;
+}
+
+const BOX_FIELDS: { key: keyof RedactionRect; label: string }[] = [
+  { key: 'x', label: 'Left' },
+  { key: 'y', label: 'Top' },
+  { key: 'width', label: 'Width' },
+  { key: 'height', label: 'Height' },
+];
+
+export const RedactionControls: React.FC<RedactionControlsProps> = ({
+  redactions,
+  selectedRedactionId,
+  onSelectRedaction,
+  selectedKeyframeId,
+  onSelectKeyframe,
+  onUpdateRedaction,
+  onDeleteRedaction,
+  onAddKeyframe,
+  onDeleteKeyframe,
+  drawMode,
+  onDrawModeChange,
+  currentTime,
+  duration
+}) => {
+  const selected = redactions.find(region => region.id === selectedRedactionId) ?? null;
+  // The box sliders edit the selected keyframe, or the region's start position when none is selected
+  const selectedKeyframe: RedactionKeyframe | null =
+    selected?.keyframes?.find(k => k.id === selectedKeyframeId) ?? null;
+  const target = selectedKeyframe ?? selected;
+  const playheadInRegion = !!selected && currentTime > selected.startTime && currentTime < selected.endTime;
+
+  const updateBox = (fields: Partial<RedactionRect>) => {
+    if (!selected) return;
+    if (selectedKeyframe) {
+      onUpdateRedaction(selected.id, {
+        keyframes: selected.keyframes!.map(k => k.id === selectedKeyframe.id ? { ...k, ...fields } : k)
+      });
+    } else {
+      onUpdateRedaction(selected.id, fields);
+    }
+  };
+
+  const toggleDrawMode = (mode: RedactionDrawMode) => onDrawModeChange(drawMode === mode ? null : mode);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+          <EyeOff className="w-5 h-5" />
+          <span>Redaction</span>
+        </h3>
+        <button
+          onClick={() => toggleDrawMode('new')}
+          className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors text-white ${drawMode === 'new' ? 'bg-green-600 hover:bg-green-700' : 'bg-purple-600 hover:bg-purple-700'}`}
+          title="Drag on the preview to cover something up"
+        >
+          {drawMode === 'new' ? 'Drawing…' : 'Draw Region'}
+        </button>
+      </div>
+
+      {drawMode && (
+        <p className="text-xs text-gray-400">
+          {drawMode === 'new'
+            ? 'Drag a box on the preview. The region starts at the playhead.'
+            : 'Drag a new box on the preview for the selected position.'}
+        </p>
+      )}
+
+      <div className="space-y-1">
+        {redactions.map((region, i) => (
+          <div
+            key={region.id}
+            className={`flex items-center justify-between px-2 py-1 rounded text-xs cursor-pointer ${region.id === selectedRedactionId ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            onClick={() => onSelectRedaction(region.id === selectedRedactionId ? null : region.id)}
+          >
+            <span>Region {i + 1} · {region.style === 'blur' ? 'Blur' : 'Pixelate'}</span>
+            <span className="flex items-center space-x-2">
+              <span>{region.startTime.toFixed(1)}s – {region.endTime.toFixed(1)}s</span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDeleteRedaction(region.id);
+                }}
+                className="text-red-300 hover:text-red-200"
+                title="Delete region"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {selected && target && (
+        <div className="bg-gray-700 rounded-lg p-3 space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div>
+              <label className="block text-gray-400 mb-1">Shape</label>
+              <select
+                value={selected.shape}
+                onChange={(e) => onUpdateRedaction(selected.id, { shape: e.target.value as RedactionShape })}
+                className="w-full bg-gray-600 border border-gray-500 text-white rounded px-2 py-1"
+              >
+                <option value="rectangle">Rectangle</option>
+                <option value="ellipse">Ellipse</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-400 mb-1">Style</label>
+              <select
+                value={selected.style}
+                onChange={(e) => onUpdateRedaction(selected.id, { style: e.target.value as RedactionStyle })}
+                className="w-full bg-gray-600 border border-gray-500 text-white rounded px-2 py-1"
+              >
+                <option value="blur">Blur</option>
+                <option value="pixelate">Pixelate</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              {selected.style === 'blur' ? 'Blur radius' : 'Block size'}: {selected.strength}px
+            </label>
+            <input
+              type="range" min="4" max="64" step="1"
+              value={selected.strength}
+              onChange={(e) => onUpdateRedaction(selected.id, { strength: Number(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div>
+              <label className="block text-gray-400 mb-1">Start Time</label>
+              <input
+                type="number" step="0.1" min="0" max={selected.endTime}
+                value={selected.startTime.toFixed(1)}
+                onChange={(e) => onUpdateRedaction(selected.id, { startTime: Math.max(0, Math.min(Number(e.target.value), selected.endTime - 0.1)) })}
+                className="w-full bg-gray-600 border border-gray-500 text-white rounded px-2 py-1"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-400 mb-1">End Time</label>
+              <input
+                type="number" step="0.1" min={selected.startTime} max={duration}
+                value={selected.endTime.toFixed(1)}
+                onChange={(e) => onUpdateRedaction(selected.id, { endTime: Math.min(duration, Math.max(Number(e.target.value), selected.startTime + 0.1)) })}
+                className="w-full bg-gray-600 border border-gray-500 text-white rounded px-2 py-1"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-xs text-gray-400">
+                Box {selectedKeyframe ? `(keyframe at ${(selected.startTime + selectedKeyframe.time).toFixed(1)}s)` : '(start position)'}
+              </label>
+              <button
+                onClick={() => toggleDrawMode('selected')}
+                className={`flex items-center space-x-1 px-2 py-0.5 text-xs rounded text-white ${drawMode === 'selected' ? 'bg-green-600' : 'bg-gray-600 hover:bg-gray-500'}`}
+                title="Redraw this position on the preview"
+              >
+                <Pencil className="w-3 h-3" />
+                <span>Redraw</span>
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {BOX_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <label className="block text-xs text-gray-400">{label}: {target[key].toFixed(0)}%</label>
+                  <input
+                    type="range" min="0" max="100" step="0.5"
+                    value={target[key]}
+                    onChange={(e) => updateBox({ [key]: Number(e.target.value) })}
+                    className="w-full accent-purple-500"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-xs text-gray-400">Follow keyframes</label>
+              <button
+                onClick={onAddKeyframe}
+                disabled={!playheadInRegion}
+                title={playheadInRegion ? 'Add a keyframe at the playhead' : 'Move the playhead inside this region to add a keyframe'}
+                className="flex items-center space-x-1 px-2 py-0.5 text-xs bg-gray-600 hover:bg-gray-500 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded transition-colors"
+              >
+                <Plus className="w-3 h-3" />
+                <span>At Playhead</span>
+              </button>
+            </div>
+            <div className="space-y-1">
+              <button
+                onClick={() => onSelectKeyframe(null)}
+                className={`w-full text-left px-2 py-1 rounded text-xs ${!selectedKeyframe ? 'bg-purple-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+              >
+                Start · {selected.startTime.toFixed(1)}s
+              </button>
+              {(selected.keyframes ?? []).map((keyframe) => (
+                <div
+                  key={keyframe.id}
+                  className={`flex items-center justify-between px-2 py-1 rounded text-xs cursor-pointer ${selectedKeyframe?.id === keyframe.id ? 'bg-purple-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+                  onClick={() => onSelectKeyframe(keyframe.id)}
+                >
+                  <span className="flex items-center space-x-1">
+                    <Diamond className="w-3 h-3" />
+                    <span>{(selected.startTime + keyframe.time).toFixed(1)}s</span>
+                  </span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDeleteKeyframe(keyframe.id);
+                    }}
+                    className="text-red-300 hover:text-red-200"
+                    title="Delete keyframe"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
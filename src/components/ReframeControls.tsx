@@ -0,0 +1,142 @@
+import React from 'react';
+import { Crop, Plus, Trash2 } from 'lucide-react';
+import { ReframeAspect, ReframeFollow, ReframeKeyframe } from '../types';
+
+interface ReframeControlsProps {
+  aspect: ReframeAspect;
+  follow: ReframeFollow;
+  onChange: (updates: { aspectRatio?: ReframeAspect; reframeFollow?: ReframeFollow }) => void; // export settings
+  keyframes: ReframeKeyframe[];
+  selectedKeyframeId: string | null;
+  onSelectKeyframe: (id: string | null) => void;
+  onAddKeyframe: () => void;
+  onUpdateKeyframe: (id: string, updates: Partial<ReframeKeyframe>) => void;
+  onDeleteKeyframe: (id: string) => void;
+  onSeek: (time: number) => void;
+}
+
+export const ReframeControls: React.FC<ReframeControlsProps> = ({
+  aspect,
+  follow,
+  onChange,
+  keyframes,
+  selectedKeyframeId,
+  onSelectKeyframe,
+  onAddKeyframe,
+  onUpdateKeyframe,
+  onDeleteKeyframe,
+  onSeek
+}) => {
+  const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+  const selected = keyframes.find(k => k.id === selectedKeyframeId) ?? null;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+        <Crop className="w-5 h-5" />
+        <span>Reframe</span>
+      </h3>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Aspect</label>
+          <select
+            value={aspect}
+            onChange={(e) => onChange({ aspectRatio: e.target.value as ReframeAspect })}
+            className="w-full bg-gray-700 border border-gray-600 text-white rounded px-2 py-1 text-sm"
+          >
+            <option value="source">Original</option>
+            <option value="9:16">9:16</option>
+            <option value="1:1">1:1</option>
+            <option value="4:5">4:5</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Follow</label>
+          <select
+            value={follow}
+            disabled={aspect === 'source'}
+            onChange={(e) => onChange({ reframeFollow: e.target.value as ReframeFollow })}
+            className="w-full bg-gray-700 border border-gray-600 text-white rounded px-2 py-1 text-sm disabled:opacity-50"
+          >
+            <option value="zoom">Zoom center</option>
+            <option value="clicks">Cursor</option>
+            <option value="manual">Manual path</option>
+          </select>
+        </div>
+      </div>
+
+      {aspect !== 'source' && follow !== 'manual' && (
+        <p className="text-xs text-gray-500">The outlined window on the preview is what the export keeps.</p>
+      )}
+
+      {aspect !== 'source' && follow === 'manual' && (
+        <div className="space-y-2">
+          <button
+            onClick={onAddKeyframe}
+            className="w-full flex items-center justify-center space-x-2 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm rounded"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Keyframe at Playhead</span>
+          </button>
+          {sorted.length === 0 && (
+            <p className="text-xs text-gray-500">Without keyframes the crop stays centred.</p>
+          )}
+          {selected && (
+            <p className="text-xs text-gray-400">Click the preview to centre this keyframe there.</p>
+          )}
+          <div className="space-y-1">
+            {sorted.map((keyframe) => (
+              <div
+                key={keyframe.id}
+                className={`flex items-center justify-between px-2 py-1 rounded text-xs cursor-pointer ${keyframe.id === selectedKeyframeId ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                onClick={() => {
+                  onSelectKeyframe(keyframe.id === selectedKeyframeId ? null : keyframe.id);
+                  onSeek(keyframe.time);
+                }}
+              >
+                <span>{keyframe.time.toFixed(1)}s</span>
+                <span className="flex items-center space-x-2">
+                  <span>{keyframe.x.toFixed(0)}%, {keyframe.y.toFixed(0)}%</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDeleteKeyframe(keyframe.id);
+                    }}
+                    className="text-red-300 hover:text-red-200"
+                    title="Delete keyframe"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <div>
+                <label className="block text-gray-400 mb-1">Centre X: {selected.x.toFixed(0)}%</label>
+                <input
+                  type="range" min="0" max="100" step="0.5"
+                  value={selected.x}
+                  onChange={(e) => onUpdateKeyframe(selected.id, { x: parseFloat(e.target.value) })}
+                  className="w-full accent-purple-500"
+                />
+              </div>
+              <div>
+                <label className="block text-gray-400 mb-1">Centre Y: {selected.y.toFixed(0)}%</label>
+                <input
+                  type="range" min="0" max="100" step="0.5"
+                  value={selected.y}
+                  onChange={(e) => onUpdateKeyframe(selected.id, { y: parseFloat(e.target.value) })}
+                  className="w-full accent-purple-500"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { VolumeX } from 'lucide-react';
+import { SilenceDetectionOptions } from '../utils/silenceDetection';
+
+interface SilenceControlsProps {
+  options: SilenceDetectionOptions;
+  onUpdateOptions: (updates: Partial<SilenceDetectionOptions>) => void;
+  onDetect: () => void;
+  isDetecting: boolean;
+  suggestionCount: number;
+  suggestedSeconds: number;
+}
+
+export const SilenceControls: React.FC<SilenceControlsProps> = ({
+  options,
+  onUpdateOptions,
+  onDetect,
+  isDetecting,
+  suggestionCount,
+  suggestedSeconds
+}) => {
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+        <VolumeX className="w-5 h-5" />
+        <span>Silence</span>
+      </h3>
+
+      <div className="space-y-3">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Threshold: {options.threshold} dB</label>
+          <input
+            type="range" min="-70" max="-10" step="1"
+            value={options.threshold}
+            onChange={(e) => onUpdateOptions({ threshold: Number(e.target.value) })}
+            className="w-full accent-purple-500"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Min length: {options.minDuration.toFixed(1)}s</label>
+            <input
+              type="range" min="0.2" max="5" step="0.1"
+              value={options.minDuration}
+              onChange={(e) => onUpdateOptions({ minDuration: Number(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Padding: {options.padding.toFixed(2)}s</label>
+            <input
+              type="range" min="0" max="0.5" step="0.05"
+              value={options.padding}
+              onChange={(e) => onUpdateOptions({ padding: Number(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </div>
+        </div>
+      </div>
+
+      <button
+        onClick={onDetect}
+        disabled={isDetecting}
+        className="w-full bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white py-2 px-4 rounded-lg transition-colors"
+      >
+        {isDetecting ? 'Detecting silence…' : 'Suggest Cuts from Silence'}
+      </button>
+
+      {suggestionCount > 0 && (
+        <p className="text-xs text-gray-400">
+          {suggestionCount} suggested cut{suggestionCount > 1 ? 's' : ''} removing {suggestedSeconds.toFixed(1)}s. Review them on the timeline.
+        </p>
+      )}
+    </div>
+  );
+};
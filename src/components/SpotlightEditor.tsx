@@ -0,0 +1,175 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { SpotlightEffect, SpotlightShape, SpotlightStyle, DEFAULT_SPOTLIGHT_TRANSITION } from '../types';
+
+interface SpotlightEditorProps {
+  spotlight: SpotlightEffect;
+  onUpdate: (updates: Partial<SpotlightEffect>) => void;
+  onDelete: () => void;
+  duration: number;
+}
+
+/** Settings for the selected spotlight; shown by ZoomControls in place of the zoom editor. */
+export const SpotlightEditor: React.FC<SpotlightEditorProps> = ({ spotlight, onUpdate, onDelete, duration }) => {
+  return (
+    <div className="flex-1 p-4 space-y-6">
+      <div>
+        <h3 className="text-white font-medium mb-2">Edit Selected Spotlight</h3>
+        <div className="text-sm text-gray-400">
+          {spotlight.startTime.toFixed(1)}s - {spotlight.endTime.toFixed(1)}s
+        </div>
+        <p className="text-xs text-gray-500 mt-1">Click the preview to centre the spotlight there.</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">Shape</label>
+          <select
+            value={spotlight.shape}
+            onChange={(e) => onUpdate({ shape: e.target.value as SpotlightShape })}
+            className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="rectangle">Rectangle</option>
+            <option value="circle">Circle</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">Surround</label>
+          <select
+            value={spotlight.style}
+            onChange={(e) => onUpdate({ style: e.target.value as SpotlightStyle })}
+            className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="dim">Dim</option>
+            <option value="desaturate">Desaturate</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Centre X: {spotlight.x.toFixed(0)}%</label>
+            <input
+              type="range" min="0" max="100" step="0.5"
+              value={spotlight.x}
+              onChange={(e) => onUpdate({ x: parseFloat(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Centre Y: {spotlight.y.toFixed(0)}%</label>
+            <input
+              type="range" min="0" max="100" step="0.5"
+              value={spotlight.y}
+              onChange={(e) => onUpdate({ y: parseFloat(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              {spotlight.shape === 'circle' ? 'Diameter' : 'Width'}: {spotlight.width.toFixed(0)}%
+            </label>
+            <input
+              type="range" min="2" max="100" step="0.5"
+              value={spotlight.width}
+              onChange={(e) => onUpdate({ width: parseFloat(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </div>
+          {spotlight.shape === 'rectangle' && (
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Height: {spotlight.height.toFixed(0)}%</label>
+              <input
+                type="range" min="2" max="100" step="0.5"
+                value={spotlight.height}
+                onChange={(e) => onUpdate({ height: parseFloat(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              {spotlight.style === 'dim' ? 'Darkness' : 'Strength'}: {Math.round(spotlight.intensity * 100)}%
+            </label>
+            <input
+              type="range" min="0.1" max="1" step="0.05"
+              value={spotlight.intensity}
+              onChange={(e) => onUpdate({ intensity: parseFloat(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Feather: {spotlight.feather}px</label>
+            <input
+              type="range" min="0" max="120" step="1"
+              value={spotlight.feather}
+              onChange={(e) => onUpdate({ feather: parseFloat(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">
+            Start Time: {spotlight.startTime.toFixed(1)}s
+          </label>
+          <input
+            type="range" min="0" max={duration} step="0.1"
+            value={spotlight.startTime}
+            onChange={(e) => onUpdate({ startTime: Math.min(parseFloat(e.target.value), spotlight.endTime - 0.1) })}
+            className="w-full accent-purple-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">
+            End Time: {spotlight.endTime.toFixed(1)}s
+          </label>
+          <input
+            type="range" min={spotlight.startTime + 0.1} max={duration} step="0.1"
+            value={spotlight.endTime}
+            onChange={(e) => onUpdate({ endTime: parseFloat(e.target.value) })}
+            className="w-full accent-purple-500"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Fade in: {(spotlight.transitionIn ?? DEFAULT_SPOTLIGHT_TRANSITION).toFixed(1)}s
+            </label>
+            <input
+              type="range" min="0" max="2" step="0.1"
+              value={spotlight.transitionIn ?? DEFAULT_SPOTLIGHT_TRANSITION}
+              onChange={(e) => onUpdate({ transitionIn: parseFloat(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Fade out: {(spotlight.transitionOut ?? DEFAULT_SPOTLIGHT_TRANSITION).toFixed(1)}s
+            </label>
+            <input
+              type="range" min="0" max="2" step="0.1"
+              value={spotlight.transitionOut ?? DEFAULT_SPOTLIGHT_TRANSITION}
+              onChange={(e) => onUpdate({ transitionOut: parseFloat(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </div>
+        </div>
+      </div>
+
+      <button
+        onClick={onDelete}
+        className="w-full flex items-center justify-center space-x-2 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+      >
+        <Trash2 className="w-4 h-4" />
+        <span>Delete Spotlight</span>
+      </button>
+    </div>
+  );
+};
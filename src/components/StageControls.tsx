@@ -0,0 +1,163 @@
+import React, { useRef } from 'react';
+import { Wallpaper, Upload } from 'lucide-react';
+import { StageSettings, StageBackground, StageAspect } from '../types';
+
+interface StageControlsProps {
+  stageSettings: StageSettings;
+  onUpdateStageSettings: (updates: Partial<StageSettings>) => void;
+  onPickWallpaper: (file: File) => void;
+}
+
+export const StageControls: React.FC<StageControlsProps> = ({
+  stageSettings,
+  onUpdateStageSettings,
+  onPickWallpaper
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const update = onUpdateStageSettings;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+          <Wallpaper className="w-5 h-5" />
+          <span>Background</span>
+        </h3>
+        <label className="flex items-center text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={stageSettings.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="mr-2"
+          />
+          Show
+        </label>
+      </div>
+
+      {!stageSettings.enabled && (
+        <p className="text-xs text-gray-500">Inset the recording on a wallpaper with rounded corners and a shadow.</p>
+      )}
+
+      {stageSettings.enabled && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Wallpaper</label>
+              <select
+                value={stageSettings.background}
+                onChange={(e) => update({ background: e.target.value as StageBackground })}
+                className="w-full bg-gray-700 border border-gray-600 text-white rounded px-2 py-1 text-sm"
+              >
+                <option value="gradient">Gradient</option>
+                <option value="solid">Solid</option>
+                <option value="image">Image</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Output shape</label>
+              <select
+                value={stageSettings.aspectRatio}
+                onChange={(e) => update({ aspectRatio: e.target.value as StageAspect })}
+                className="w-full bg-gray-700 border border-gray-600 text-white rounded px-2 py-1 text-sm"
+              >
+                <option value="source">Like recording</option>
+                <option value="16:9">16:9</option>
+                <option value="4:3">4:3</option>
+                <option value="1:1">1:1</option>
+              </select>
+            </div>
+          </div>
+
+          {stageSettings.background === 'image' ? (
+            <div>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full flex items-center justify-center space-x-2 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm rounded"
+              >
+                <Upload className="w-4 h-4" />
+                <span>{stageSettings.imageSrc ? 'Replace Image' : 'Choose Image'}</span>
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/png,image/svg+xml,image/jpeg,image/webp"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onPickWallpaper(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm text-gray-300 mb-1">{stageSettings.background === 'gradient' ? 'From' : 'Color'}</label>
+                <input
+                  type="color"
+                  value={stageSettings.color}
+                  onChange={(e) => update({ color: e.target.value })}
+                  className="w-full h-8 bg-gray-600 border border-gray-500 rounded cursor-pointer"
+                />
+              </div>
+              {stageSettings.background === 'gradient' && (
+                <div>
+                  <label className="block text-sm text-gray-300 mb-1">To</label>
+                  <input
+                    type="color"
+                    value={stageSettings.gradientTo}
+                    onChange={(e) => update({ gradientTo: e.target.value })}
+                    className="w-full h-8 bg-gray-600 border border-gray-500 rounded cursor-pointer"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {stageSettings.background === 'gradient' && (
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Angle: {stageSettings.gradientAngle}°</label>
+              <input
+                type="range" min="0" max="360" step="5"
+                value={stageSettings.gradientAngle}
+                onChange={(e) => update({ gradientAngle: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Padding: {stageSettings.padding}%</label>
+            <input
+              type="range" min="0" max="25" step="0.5"
+              value={stageSettings.padding}
+              onChange={(e) => update({ padding: Number(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Corners: {stageSettings.cornerRadius}px</label>
+              <input
+                type="range" min="0" max="80" step="1"
+                value={stageSettings.cornerRadius}
+                onChange={(e) => update({ cornerRadius: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Shadow: {stageSettings.shadow}px</label>
+              <input
+                type="range" min="0" max="120" step="2"
+                value={stageSettings.shadow}
+                onChange={(e) => update({ shadow: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { X, Type } from 'lucide-react';
-import { TextOverlay } from '../types';
+import { TextOverlay, TextAnimation } from '../types';
+import { DEFAULT_TEXT_ANIMATION_DURATION } from '../utils/textAnimation';
 
 interface TextOverlayProps {
   textOverlays: TextOverlay[];
@@ -11,6 +12,60 @@ interface TextOverlayProps {
   duration: number;
   setPreviewText: (preview: TextOverlay | null) => void;
 }
+
+const ANIMATIONS: { value: TextAnimation; enter: string; exit: string }[] = [
+  { value: 'none', enter: 'None', exit: 'None' },
+  { value: 'fade', enter: 'Fade in', exit: 'Fade out' },
+  { value: 'slide-left', enter: 'Slide from left', exit: 'Slide to left' },
+  { value: 'slide-right', enter: 'Slide from right', exit: 'Slide to right' },
+  { value: 'slide-top', enter: 'Slide from top', exit: 'Slide to top' },
+  { value: 'slide-bottom', enter: 'Slide from bottom', exit: 'Slide to bottom' },
+  { value: 'pop', enter: 'Pop in', exit: 'Pop out' },
+  { value: 'typewriter', enter: 'Type in', exit: 'Type out' },
+];
+
+interface AnimationPickerProps {
+  edge: 'enter' | 'exit';
+  animation: TextAnimation;
+  duration: number;
+  onChange: (animation: TextAnimation, duration: number) => void;
+  compact?: boolean;
+}
+
+/** Animation select with its duration in seconds, for one end of an overlay. */
+const AnimationPicker: React.FC<AnimationPickerProps> = ({ edge, animation, duration, onChange, compact = false }) => {
+  const field = compact
+    ? 'bg-gray-600 border border-gray-500 text-white rounded px-2 py-1 text-xs focus:ring-1 focus:ring-purple-500'
+    : 'bg-gray-600 border border-gray-500 text-white rounded px-3 py-2 focus:ring-2 focus:ring-purple-500';
+  return (
+    <div>
+      <label className={compact ? 'block text-gray-400 mb-1' : 'block text-sm text-gray-300 mb-1'}>{edge === 'enter' ? 'In' : 'Out'}</label>
+      <div className="flex space-x-1">
+        <select
+          value={animation}
+          onChange={(e) => onChange(e.target.value as TextAnimation, duration)}
+          className={`flex-1 min-w-0 ${field}`}
+        >
+          {ANIMATIONS.map(option => (
+            <option key={option.value} value={option.value}>{option[edge]}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          value={duration}
+          onChange={(e) => onChange(animation, Math.max(0.05, Number(e.target.value)))}
+          min="0.05"
+          max="5"
+          step="0.05"
+          disabled={animation === 'none'}
+          className={`w-16 disabled:opacity-50 ${field}`}
+          title="Duration (seconds)"
+        />
+      </div>
+    </div>
+  );
+};
+
 export const TextOverlayComponent: React.FC<TextOverlayProps> = ({
   textOverlays,
   onAddText,
@@ -28,6 +83,8 @@ export const TextOverlayComponent: React.FC<TextOverlayProps> = ({
   const [fontFamily, setFontFamily] = useState('Arial');
   const [padding, setPadding] = useState(8);
   const [borderRadius, setBorderRadius] = useState(4);
+  const [enter, setEnter] = useState<{ animation: TextAnimation; duration: number }>({ animation: 'fade', duration: DEFAULT_TEXT_ANIMATION_DURATION });
+  const [exit, setExit] = useState<{ animation: TextAnimation; duration: number }>({ animation: 'fade', duration: DEFAULT_TEXT_ANIMATION_DURATION });
   const [previewPosition] = useState({ x: 50, y: 50 });
   // Live preview text overlay for when adding new text
   const currentPreviewTextOverlay: TextOverlay = useMemo(() => ({
@@ -67,7 +124,11 @@ export const TextOverlayComponent: React.FC<TextOverlayProps> = ({
         fontFamily,
         backgroundColor,
         padding,
-        borderRadius
+        borderRadius,
+        enterAnimation: enter.animation,
+        enterDuration: enter.duration,
+        exitAnimation: exit.animation,
+        exitDuration: exit.duration
       };
       onAddText(textOverlay);
       setNewText('');
@@ -207,6 +268,21 @@ export const TextOverlayComponent: React.FC<TextOverlayProps> = ({
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-3">
+              <AnimationPicker
+                edge="enter"
+                animation={enter.animation}
+                duration={enter.duration}
+                onChange={(animation, duration) => setEnter({ animation, duration })}
+              />
+              <AnimationPicker
+                edge="exit"
+                animation={exit.animation}
+                duration={exit.duration}
+                onChange={(animation, duration) => setExit({ animation, duration })}
+              />
+            </div>
+
             <div className="flex space-x-2 pt-2">
               <button
                 onClick={handleAddText}
@@ -329,6 +405,23 @@ export const TextOverlayComponent: React.FC<TextOverlayProps> = ({
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <AnimationPicker
+                edge="enter"
+                compact
+                animation={textOverlay.enterAnimation ?? 'none'}
+                duration={textOverlay.enterDuration ?? DEFAULT_TEXT_ANIMATION_DURATION}
+                onChange={(enterAnimation, enterDuration) => onUpdateText(textOverlay.id, { enterAnimation, enterDuration })}
+              />
+              <AnimationPicker
+                edge="exit"
+                compact
+                animation={textOverlay.exitAnimation ?? 'none'}
+                duration={textOverlay.exitDuration ?? DEFAULT_TEXT_ANIMATION_DURATION}
+                onChange={(exitAnimation, exitDuration) => onUpdateText(textOverlay.id, { exitAnimation, exitDuration })}
+              />
+            </div>
+
             <div className="flex space-x-2">
               <input
                 type="color"
@@ -1,38 +1,139 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { Play, Pause } from 'lucide-react';
-import { ZoomEffect } from '../types';
+import { Play, Pause, Link2, Unlink, AlertTriangle, Scissors } from 'lucide-react';
+import { Annotation, ClipTransition, CutRange, ProjectClip, SpeedRamp, ZoomEffect, ZoomOverlapStrategy, ZoomSettings } from '../types';
+import { isDirectPan } from '../utils/zoomInterpolation';
+import { findZoomOverlaps } from '../utils/zoomOverlaps';
+import { getOutputDuration, outputToSource, sourceToOutput } from '../utils/timeMap';
+import { ClipStrip } from './ClipStrip';
 
 interface TimelineProps {
-  duration: number;
+  clips: ProjectClip[]; // the whole project in order, laid out in the clip lane above the open clip's tracks
+  activeClipId: string;
+  onSelectClip: (id: string) => void;
+  onAddClips: (files: File[]) => void;
+  onMoveClip: (id: string, offset: -1 | 1) => void;
+  onRemoveClip: (id: string) => void;
+  onUpdateClipTransition: (id: string, transition: ClipTransition) => void;
+  duration: number; // source duration; the ruler shows output time after cuts and speed ramps
   currentTime: number;
   onSeek: (time: number) => void;
   zoomEffects: ZoomEffect[];
+  zoomSettings: ZoomSettings;
   selectedZoom: ZoomEffect | null;
   onSelectZoom: (zoom: ZoomEffect) => void;
   onUpdateZoom: (zoom: ZoomEffect) => void;
   onDeleteZoom: (id: string) => void;
+  onResolveOverlap?: (firstId: string, secondId: string, strategy: ZoomOverlapStrategy) => void;
+  onResolveAllOverlaps?: (strategy: ZoomOverlapStrategy) => void;
+  suggestions?: ZoomEffect[]; // proposed zooms, drawn as ghosts until accepted or dismissed
+  onAcceptSuggestions?: (ids: string[]) => void;
+  onDismissSuggestions?: (ids: string[]) => void;
+  cuts?: CutRange[];
+  cutMarks?: { in: number | null; out: number | null }; // source times marked for the next cut
+  onMarkCut?: (edge: 'in' | 'out') => void;
+  onClearCutMarks?: () => void;
+  onCutMarked?: () => void;
+  onRestoreCut?: (id: string) => void;
+  speedRamps?: SpeedRamp[];
+  onSpeedMarked?: (speed: number) => void;
+  onUpdateSpeedRamp?: (id: string, updates: Partial<SpeedRamp>) => void;
+  onRemoveSpeedRamp?: (id: string) => void;
+  annotations?: Annotation[];
+  selectedAnnotationId?: string | null;
+  onSelectAnnotation?: (id: string) => void;
+  onUpdateAnnotation?: (id: string, updates: Partial<Annotation>) => void;
+  cutSuggestions?: CutRange[]; // proposed cuts (e.g. silences), drawn as ghosts until accepted or dismissed
+  onAcceptCutSuggestions?: (ids: string[]) => void;
+  onDismissCutSuggestions?: (ids: string[]) => void;
+  selectedKeyframeId?: string | null;
+  onSelectKeyframe?: (zoom: ZoomEffect, keyframeId: string | null) => void;
+  onAddKeyframe?: (zoom: ZoomEffect, time: number) => void;
+  onEditStart?: (label: string) => void; // collapse a whole drag into one undo step
+  onEditEnd?: () => void;
   isPlaying: boolean;
   onPlay: () => void;
   onPause: () => void;
 }
 
+// Only offer a pan toggle between zooms that are reasonably close
+const PAN_TOGGLE_MAX_GAP = 5;
+
+const OVERLAP_STRATEGIES: { value: ZoomOverlapStrategy; label: string; hint: string }[] = [
+  { value: 'trim', label: 'Trim', hint: 'Cut the earlier zoom where the later one starts' },
+  { value: 'merge', label: 'Merge', hint: 'Combine both into one zoom' },
+  { value: 'pan', label: 'Pan', hint: 'One zoom that pans from the first framing to the second' },
+];
+
+const SPEED_PRESETS = [0.25, 0.5, 2, 4, 8, 16];
+
+type DragType = 'playhead' | 'zoom-start' | 'zoom-end' | 'zoom-move' | 'keyframe' | 'annotation-start' | 'annotation-end' | 'annotation-move';
+
+const ANNOTATION_LABELS: Record<Annotation['kind'], string> = { arrow: 'Arrow', rectangle: 'Box', circle: 'Circle', step: 'Step', callout: 'Callout' };
+
 export const Timeline: React.FC<TimelineProps> = ({
+  clips,
+  activeClipId,
+  onSelectClip,
+  onAddClips,
+  onMoveClip,
+  onRemoveClip,
+  onUpdateClipTransition,
   duration,
   currentTime,
   onSeek,
   zoomEffects,
+  zoomSettings,
   selectedZoom,
   onSelectZoom,
   onUpdateZoom,
   onDeleteZoom,
+  onResolveOverlap,
+  onResolveAllOverlaps,
+  suggestions = [],
+  onAcceptSuggestions,
+  onDismissSuggestions,
+  cuts = [],
+  cutMarks = { in: null, out: null },
+  onMarkCut,
+  onClearCutMarks,
+  onCutMarked,
+  onRestoreCut,
+  speedRamps = [],
+  onSpeedMarked,
+  onUpdateSpeedRamp,
+  onRemoveSpeedRamp,
+  annotations = [],
+  selectedAnnotationId,
+  onSelectAnnotation,
+  onUpdateAnnotation,
+  cutSuggestions = [],
+  onAcceptCutSuggestions,
+  onDismissCutSuggestions,
+  selectedKeyframeId,
+  onSelectKeyframe,
+  onAddKeyframe,
+  onEditStart,
+  onEditEnd,
   isPlaying,
   onPlay,
   onPause
 }) => {
   const timelineRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
-  const [dragType, setDragType] = useState<'playhead' | 'zoom-start' | 'zoom-end' | 'zoom-move' | null>(null);
+  const [dragType, setDragType] = useState<DragType | null>(null);
   const [dragZoom, setDragZoom] = useState<ZoomEffect | null>(null);
+  const [dragKeyframeId, setDragKeyframeId] = useState<string | null>(null);
+  const [dragAnnotation, setDragAnnotation] = useState<Annotation | null>(null);
+  const [openOverlap, setOpenOverlap] = useState<string | null>(null);
+  const [openRamp, setOpenRamp] = useState<string | null>(null);
+
+  // Overlapping zooms hide each other, so they are flagged until resolved
+  const overlaps = findZoomOverlaps(zoomEffects);
+  const overlappingIds = new Set(overlaps.flatMap(overlap => [overlap.first.id, overlap.second.id]));
+
+  // Positions follow the output timeline; times handed back out are always source times
+  const outputDuration = getOutputDuration(duration, cuts, speedRamps);
+  const hasMarks = cutMarks.in !== null && cutMarks.out !== null && cutMarks.in !== cutMarks.out;
 
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -44,28 +145,44 @@ export const Timeline: React.FC<TimelineProps> = ({
     if (!timelineRef.current) return 0;
     const rect = timelineRef.current.getBoundingClientRect();
     const position = (clientX - rect.left) / rect.width;
-    return Math.max(0, Math.min(duration, position * duration));
+    return Math.max(0, Math.min(duration, outputToSource(position * outputDuration, cuts, speedRamps)));
   };
 
   const getPositionFromTime = (time: number): number => {
     // Ensure time is within valid range and duration is not zero
-    if (duration <= 0) return 0;
-    const position = (time / duration) * 100;
+    if (outputDuration <= 0) return 0;
+    const position = (sourceToOutput(time, cuts, speedRamps) / outputDuration) * 100;
     return Math.max(0, Math.min(100, position));
   };
 
-  const handleMouseDown = (e: React.MouseEvent, type: 'playhead' | 'zoom-start' | 'zoom-end' | 'zoom-move', zoom?: ZoomEffect) => {
+  // Width of a source range on the collapsed ruler
+  const getSpanWidth = (start: number, end: number): number => getPositionFromTime(end) - getPositionFromTime(start);
+
+  const handleMouseDown = (e: React.MouseEvent, type: DragType, zoom?: ZoomEffect, keyframeId?: string) => {
     e.preventDefault();
     setIsDragging(true);
     setDragType(type);
     setDragZoom(zoom || null);
+    setDragKeyframeId(keyframeId || null);
 
     if (type === 'playhead') {
       const newTime = getTimeFromPosition(e.clientX);
       onSeek(newTime);
+    } else {
+      onEditStart?.(type === 'zoom-move' ? 'Move zoom' : type === 'keyframe' ? 'Move keyframe' : 'Resize zoom');
     }
   };
 
+  const handleAnnotationMouseDown = (e: React.MouseEvent, type: DragType, annotation: Annotation) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(true);
+    setDragType(type);
+    setDragAnnotation(annotation);
+    onSelectAnnotation?.(annotation.id);
+    onEditStart?.(type === 'annotation-move' ? 'Move annotation' : 'Resize annotation');
+  };
+
   const handleMouseMove = (e: React.MouseEvent) => {
     if (!isDragging || !dragType) return;
 
@@ -89,16 +206,38 @@ export const Timeline: React.FC<TimelineProps> = ({
           updatedZoom.endTime = updatedZoom.startTime + zoomDuration;
           break;
         }
+        case 'keyframe': {
+          // Keyframe times are relative to the zoom start and stay inside the zoom
+          const zoomDuration = dragZoom.endTime - dragZoom.startTime;
+          const rel = Math.max(0.05, Math.min(zoomDuration - 0.05, newTime - dragZoom.startTime));
+          updatedZoom.keyframes = (dragZoom.keyframes ?? [])
+            .map(k => k.id === dragKeyframeId ? { ...k, time: rel } : k)
+            .sort((a, b) => a.time - b.time);
+          break;
+        }
       }
 
       onUpdateZoom(updatedZoom);
+    } else if (dragAnnotation) {
+      const length = dragAnnotation.endTime - dragAnnotation.startTime;
+      if (dragType === 'annotation-start') {
+        onUpdateAnnotation?.(dragAnnotation.id, { startTime: Math.max(0, Math.min(newTime, dragAnnotation.endTime - 0.1)) });
+      } else if (dragType === 'annotation-end') {
+        onUpdateAnnotation?.(dragAnnotation.id, { endTime: Math.max(dragAnnotation.startTime + 0.1, Math.min(newTime, duration)) });
+      } else {
+        const startTime = Math.max(0, Math.min(newTime, duration - length));
+        onUpdateAnnotation?.(dragAnnotation.id, { startTime, endTime: startTime + length });
+      }
     }
   };
 
   const handleMouseUp = () => {
+    if (isDragging && dragType !== 'playhead') onEditEnd?.();
     setIsDragging(false);
     setDragType(null);
     setDragZoom(null);
+    setDragKeyframeId(null);
+    setDragAnnotation(null);
   };
 
   const handleTimelineClick = (e: React.MouseEvent) => {
@@ -135,19 +274,137 @@ export const Timeline: React.FC<TimelineProps> = ({
             {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
           </button>
           <div className="text-sm text-gray-400">
-            <span className="font-mono">{formatTime(currentTime)}</span>
+            <span className="font-mono">{formatTime(sourceToOutput(currentTime, cuts, speedRamps))}</span>
             <span className="mx-2">/</span>
-            <span className="font-mono">{formatTime(duration)}</span>
+            <span className="font-mono">{formatTime(outputDuration)}</span>
           </div>
+          {onMarkCut && (
+            <div className="flex items-center space-x-1 text-xs">
+              <button
+                className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded"
+                onClick={() => onMarkCut('in')}
+                title="Mark the cut start at the playhead (I)"
+              >
+                Mark In
+              </button>
+              <button
+                className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded"
+                onClick={() => onMarkCut('out')}
+                title="Mark the cut end at the playhead (O)"
+              >
+                Mark Out
+              </button>
+              {hasMarks && (
+                <>
+                  <button
+                    className="flex items-center space-x-1 px-2 py-0.5 bg-red-700 hover:bg-red-600 text-white rounded"
+                    onClick={onCutMarked}
+                    title="Remove the marked range from the video"
+                  >
+                    <Scissors className="w-3 h-3" />
+                    <span>Cut {Math.abs(cutMarks.out! - cutMarks.in!).toFixed(1)}s</span>
+                  </button>
+                  {onSpeedMarked && (
+                    <select
+                      value=""
+                      onChange={(e) => onSpeedMarked(Number(e.target.value))}
+                      className="bg-gray-700 text-gray-200 rounded px-1 py-0.5"
+                      title="Play the marked range at another speed"
+                    >
+                      <option value="" disabled>Speed…</option>
+                      {SPEED_PRESETS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+                    </select>
+                  )}
+                  <button
+                    className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded"
+                    onClick={onClearCutMarks}
+                  >
+                    Clear
+                  </button>
+                </>
+              )}
+            </div>
+          )}
         </div>
-        <div className="text-xs text-gray-500">
-          Press SPACE to play/pause
+        <div className="flex items-center space-x-4">
+          {cutSuggestions.length > 0 && (
+            <div className="flex items-center space-x-2 text-xs text-red-300">
+              <span>
+                {cutSuggestions.length} suggested cut{cutSuggestions.length > 1 ? 's' : ''}
+                {' '}({cutSuggestions.reduce((total, cut) => total + cut.endTime - cut.startTime, 0).toFixed(1)}s)
+              </span>
+              <button
+                className="px-2 py-0.5 bg-red-700 hover:bg-red-600 text-white rounded"
+                onClick={() => onAcceptCutSuggestions?.(cutSuggestions.map(cut => cut.id))}
+              >
+                Cut all
+              </button>
+              <button
+                className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded"
+                onClick={() => onDismissCutSuggestions?.(cutSuggestions.map(cut => cut.id))}
+              >
+                Dismiss all
+              </button>
+            </div>
+          )}
+          {suggestions.length > 0 && (
+            <div className="flex items-center space-x-2 text-xs text-blue-300">
+              <span>{suggestions.length} suggested zoom{suggestions.length > 1 ? 's' : ''}</span>
+              <button
+                className="px-2 py-0.5 bg-blue-700 hover:bg-blue-600 text-white rounded"
+                onClick={() => onAcceptSuggestions?.(suggestions.map(zoom => zoom.id))}
+              >
+                Accept all
+              </button>
+              <button
+                className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded"
+                onClick={() => onDismissSuggestions?.(suggestions.map(zoom => zoom.id))}
+              >
+                Dismiss all
+              </button>
+            </div>
+          )}
+          {overlaps.length > 0 ? (
+            <div className="flex items-center space-x-2 text-xs text-red-300">
+              <AlertTriangle className="w-4 h-4" />
+              <span>{overlaps.length} overlapping zoom{overlaps.length > 1 ? 's' : ''}</span>
+              {onResolveAllOverlaps && (
+                <>
+                  <span className="text-gray-500">Resolve all:</span>
+                  {OVERLAP_STRATEGIES.map(strategy => (
+                    <button
+                      key={strategy.value}
+                      className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded"
+                      title={strategy.hint}
+                      onClick={() => onResolveAllOverlaps(strategy.value)}
+                    >
+                      {strategy.label}
+                    </button>
+                  ))}
+                </>
+              )}
+            </div>
+          ) : suggestions.length === 0 && cutSuggestions.length === 0 && (
+            <div className="text-xs text-gray-500">
+              Press SPACE to play/pause
+            </div>
+          )}
         </div>
       </div>
-      
+
+      <ClipStrip
+        clips={clips}
+        activeClipId={activeClipId}
+        onSelectClip={onSelectClip}
+        onAddClips={onAddClips}
+        onMoveClip={onMoveClip}
+        onRemoveClip={onRemoveClip}
+        onUpdateTransition={onUpdateClipTransition}
+      />
+
       <div
         ref={timelineRef}
-        className="relative h-16 bg-gray-700 rounded-lg cursor-pointer select-none"
+        className="relative h-24 bg-gray-700 rounded-lg cursor-pointer select-none"
         onClick={handleTimelineClick}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
@@ -155,11 +412,11 @@ export const Timeline: React.FC<TimelineProps> = ({
       >
         {/* Time markers */}
         <div className="absolute inset-x-0 top-0 h-4 flex">
-          {Array.from({ length: Math.ceil(duration / 10) + 1 }, (_, i) => (
+          {Array.from({ length: Math.ceil(outputDuration / 10) + 1 }, (_, i) => (
             <div
               key={i}
               className="absolute border-l border-gray-500 h-full text-xs text-gray-400 pl-1"
-              style={{ left: `${(i * 10 / duration) * 100}%` }}
+              style={{ left: `${(i * 10 / outputDuration) * 100}%` }}
             >
               {i * 10}s
             </div>
@@ -168,10 +425,39 @@ export const Timeline: React.FC<TimelineProps> = ({
 
         {/* Zoom effects container */}
         <div className="absolute inset-x-0 top-4 bottom-0">
+          {/* Suggested zooms: ghosts under the real ones */}
+          {suggestions.map((zoom) => (
+            <div
+              key={zoom.id}
+              className="absolute h-8 rounded border-2 border-dashed border-blue-300 bg-blue-400/20 group flex items-center justify-end space-x-1 pr-1"
+              style={{
+                left: `${getPositionFromTime(zoom.startTime)}%`,
+                width: `${getSpanWidth(zoom.startTime, zoom.endTime)}%`
+              }}
+              title={`Suggested ${zoom.scale}x zoom at (${zoom.x.toFixed(0)}%, ${zoom.y.toFixed(0)}%)`}
+              onClick={(e) => { e.stopPropagation(); onSeek(zoom.startTime); }}
+              onMouseDown={(e) => e.stopPropagation()}
+            >
+              <button
+                className="w-4 h-4 bg-green-600 hover:bg-green-700 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+                onClick={(e) => { e.stopPropagation(); onAcceptSuggestions?.([zoom.id]); }}
+                title="Accept suggestion"
+              >
+                ✓
+              </button>
+              <button
+                className="w-4 h-4 bg-gray-600 hover:bg-gray-700 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+                onClick={(e) => { e.stopPropagation(); onDismissSuggestions?.([zoom.id]); }}
+                title="Dismiss suggestion"
+              >
+                ×
+              </button>
+            </div>
+          ))}
           {zoomEffects.map((zoom) => {
             const isAutoZoom = zoom.type === 'autozoom';
             const startPos = getPositionFromTime(zoom.startTime);
-            const width = getPositionFromTime(zoom.endTime - zoom.startTime);
+            const width = getSpanWidth(zoom.startTime, zoom.endTime);
             
             return (
               <div
@@ -184,7 +470,7 @@ export const Timeline: React.FC<TimelineProps> = ({
                     : isAutoZoom
                       ? 'bg-blue-600 hover:bg-blue-500'
                       : 'bg-purple-600 hover:bg-purple-500'
-                }`}
+                } ${overlappingIds.has(zoom.id) ? 'outline outline-2 outline-red-500' : ''}`}
                 style={{
                   left: `${startPos}%`,
                   width: `${width}%`
@@ -194,7 +480,39 @@ export const Timeline: React.FC<TimelineProps> = ({
                   onSelectZoom(zoom);
                 }}
                 onMouseDown={(e) => handleMouseDown(e, 'zoom-move', zoom)}
+                onDoubleClick={(e) => {
+                  e.stopPropagation();
+                  onAddKeyframe?.(zoom, getTimeFromPosition(e.clientX));
+                }}
+                title="Double-click to add a keyframe"
               >
+                {/* Keyframe diamonds */}
+                {(zoom.keyframes ?? []).map((keyframe) => {
+                  const left = width > 0
+                    ? Math.max(0, Math.min(100, (getSpanWidth(zoom.startTime, zoom.startTime + keyframe.time) / width) * 100))
+                    : 0;
+                  const isSelected = selectedZoom?.id === zoom.id && selectedKeyframeId === keyframe.id;
+                  return (
+                    <div
+                      key={keyframe.id}
+                      className={`absolute top-1/2 w-2.5 h-2.5 border cursor-ew-resize z-20 ${
+                        isSelected ? 'bg-yellow-300 border-white' : 'bg-white border-gray-800 hover:bg-yellow-200'
+                      }`}
+                      style={{ left: `${left}%`, transform: 'translate(-50%, -50%) rotate(45deg)' }}
+                      title={`Keyframe at ${(zoom.startTime + keyframe.time).toFixed(1)}s (${keyframe.scale.toFixed(1)}x)`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onSelectKeyframe?.(zoom, keyframe.id);
+                      }}
+                      onDoubleClick={(e) => e.stopPropagation()}
+                      onMouseDown={(e) => {
+                        e.stopPropagation();
+                        onSelectKeyframe?.(zoom, keyframe.id);
+                        handleMouseDown(e, 'keyframe', zoom, keyframe.id);
+                      }}
+                    />
+                  );
+                })}
                 {/* Resize handles */}
                 <div
                   className={`absolute left-0 top-0 w-2 h-full cursor-w-resize opacity-0 hover:opacity-100 ${
@@ -228,6 +546,7 @@ export const Timeline: React.FC<TimelineProps> = ({
               <div className="px-2 py-1 text-xs text-white truncate flex items-center space-x-1">
                   <span>{isAutoZoom ? '🤖' : '🔍'}</span>
                   <span>Zoom {zoom.scale}x</span>
+                  {!!zoom.keyframes?.length && <span className="opacity-75">· {zoom.keyframes.length + 1} pts</span>}
                   {isAutoZoom && <span className="text-blue-200">(Auto)</span>}
                 </div>
               </div>
@@ -235,6 +554,245 @@ export const Timeline: React.FC<TimelineProps> = ({
           })}
         </div>
 
+        {/* Overlap markers with their resolution menu */}
+        <div className="absolute inset-x-0 top-4 bottom-0 pointer-events-none">
+          {overlaps.map((overlap) => {
+            const key = `${overlap.first.id}:${overlap.second.id}`;
+            const left = getPositionFromTime(overlap.start);
+            const width = getSpanWidth(overlap.start, overlap.end);
+            return (
+              <React.Fragment key={key}>
+                <div
+                  className="absolute top-0 h-8 bg-red-500/40 border-x border-red-400 z-10"
+                  style={{ left: `${left}%`, width: `${width}%` }}
+                />
+                <div
+                  className="absolute top-7 -translate-x-1/2 pointer-events-auto z-30"
+                  style={{ left: `${left + width / 2}%` }}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <button
+                    className="w-4 h-4 rounded-full flex items-center justify-center bg-red-600 border border-red-300 text-white"
+                    title={`Zooms overlap for ${(overlap.end - overlap.start).toFixed(1)}s. Click to resolve.`}
+                    onClick={() => setOpenOverlap(openOverlap === key ? null : key)}
+                  >
+                    <AlertTriangle className="w-2.5 h-2.5" />
+                  </button>
+                  {openOverlap === key && onResolveOverlap && (
+                    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex space-x-1 bg-gray-900 border border-gray-600 rounded p-1 shadow-lg">
+                      {OVERLAP_STRATEGIES.map(strategy => (
+                        <button
+                          key={strategy.value}
+                          className="px-2 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 rounded whitespace-nowrap"
+                          title={strategy.hint}
+                          onClick={() => {
+                            setOpenOverlap(null);
+                            onResolveOverlap(overlap.first.id, overlap.second.id, strategy.value);
+                          }}
+                        >
+                          {strategy.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </React.Fragment>
+            );
+          })}
+        </div>
+
+        {/* Direct pan toggles between neighbouring zooms */}
+        <div className="absolute inset-x-0 top-4 bottom-0 pointer-events-none">
+          {zoomEffects.slice(0, -1).map((zoom, i) => {
+            const next = zoomEffects[i + 1];
+            const gap = next.startTime - zoom.endTime;
+            // Overlapping neighbours get the overlap marker instead
+            if (gap < 0 || (gap > PAN_TOGGLE_MAX_GAP && !zoom.panToNext)) return null;
+            const linked = isDirectPan(zoom, next, zoomSettings);
+            const override = zoom.panToNext ?? 'auto';
+            const nextOverride = override === 'auto' ? 'always' : override === 'always' ? 'never' : 'auto';
+            return (
+              <button
+                key={`pan-${zoom.id}`}
+                className={`absolute top-7 w-4 h-4 -translate-x-1/2 rounded-full flex items-center justify-center pointer-events-auto z-20 border ${
+                  linked ? 'bg-green-600 border-green-300 text-white' : 'bg-gray-600 border-gray-400 text-gray-200'
+                } ${override !== 'auto' ? 'ring-2 ring-yellow-300' : ''}`}
+                style={{ left: `${getPositionFromTime((zoom.endTime + next.startTime) / 2)}%` }}
+                title={`${linked ? 'Pans directly' : 'Zooms out and back in'} (${override === 'auto' ? 'auto' : `forced: ${override}`}). Click to switch to ${nextOverride}.`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onUpdateZoom({ ...zoom, panToNext: nextOverride });
+                }}
+                onMouseDown={(e) => e.stopPropagation()}
+              >
+                {linked ? <Link2 className="w-3 h-3" /> : <Unlink className="w-3 h-3" />}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Annotation lane */}
+        <div className="absolute inset-x-0 top-16 h-4 pointer-events-none">
+          {annotations.map((annotation) => {
+            const left = getPositionFromTime(annotation.startTime);
+            const width = getSpanWidth(annotation.startTime, annotation.endTime);
+            if (width <= 0) return null;
+            const isSelected = annotation.id === selectedAnnotationId;
+            return (
+              <div
+                key={annotation.id}
+                className={`absolute top-0 h-4 rounded-sm pointer-events-auto z-20 text-[10px] leading-4 px-1 truncate cursor-grab ${
+                  isSelected ? 'bg-pink-400 text-pink-950 ring-2 ring-white' : 'bg-pink-500/70 text-pink-950 hover:bg-pink-400'
+                }`}
+                style={{ left: `${left}%`, width: `${width}%` }}
+                title={`${ANNOTATION_LABELS[annotation.kind]}${annotation.text ? `: ${annotation.text}` : ''}`}
+                onClick={(e) => e.stopPropagation()}
+                onMouseDown={(e) => handleAnnotationMouseDown(e, 'annotation-move', annotation)}
+              >
+                {ANNOTATION_LABELS[annotation.kind]}{annotation.kind === 'callout' && annotation.text ? ` · ${annotation.text}` : ''}
+                <div
+                  className="absolute left-0 top-0 w-1.5 h-full cursor-w-resize"
+                  onMouseDown={(e) => handleAnnotationMouseDown(e, 'annotation-start', annotation)}
+                />
+                <div
+                  className="absolute right-0 top-0 w-1.5 h-full cursor-e-resize"
+                  onMouseDown={(e) => handleAnnotationMouseDown(e, 'annotation-end', annotation)}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Speed ramp lane */}
+        <div className="absolute inset-x-0 bottom-0 h-4 pointer-events-none">
+          {speedRamps.map((ramp) => {
+            const left = getPositionFromTime(ramp.startTime);
+            const width = getSpanWidth(ramp.startTime, ramp.endTime);
+            if (width <= 0) return null;
+            return (
+              <div
+                key={ramp.id}
+                className="absolute top-0 h-4 pointer-events-auto z-20"
+                style={{ left: `${left}%`, width: `${width}%` }}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => e.stopPropagation()}
+              >
+                <button
+                  className={`w-full h-full rounded-sm text-[10px] leading-4 truncate ${
+                    ramp.speed > 1 ? 'bg-amber-500/70 text-amber-950' : 'bg-sky-500/70 text-sky-950'
+                  } ${openRamp === ramp.id ? 'ring-2 ring-white' : ''}`}
+                  title={`${ramp.speed}x for ${(ramp.endTime - ramp.startTime).toFixed(1)}s of source${ramp.muteAudio ? ', muted' : ''}`}
+                  onClick={() => setOpenRamp(openRamp === ramp.id ? null : ramp.id)}
+                >
+                  {ramp.speed}x{ramp.muteAudio ? ' 🔇' : ''}
+                </button>
+                {openRamp === ramp.id && (
+                  <div className="absolute bottom-5 left-1/2 -translate-x-1/2 flex items-center space-x-1 bg-gray-900 border border-gray-600 rounded p-1 shadow-lg">
+                    {SPEED_PRESETS.map(speed => (
+                      <button
+                        key={speed}
+                        className={`px-2 py-0.5 text-xs rounded ${
+                          ramp.speed === speed ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+                        }`}
+                        onClick={() => onUpdateSpeedRamp?.(ramp.id, { speed })}
+                      >
+                        {speed}x
+                      </button>
+                    ))}
+                    <label className="flex items-center px-1 text-xs text-gray-300 whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={!!ramp.muteAudio}
+                        onChange={(e) => onUpdateSpeedRamp?.(ramp.id, { muteAudio: e.target.checked })}
+                        className="mr-1"
+                      />
+                      Mute
+                    </label>
+                    <button
+                      className="px-2 py-0.5 text-xs bg-red-700 hover:bg-red-600 text-white rounded"
+                      onClick={() => {
+                        setOpenRamp(null);
+                        onRemoveSpeedRamp?.(ramp.id);
+                      }}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Marked range waiting to be cut */}
+        {hasMarks && (
+          <div
+            className="absolute top-4 bottom-0 bg-red-500/20 border-x-2 border-red-400 pointer-events-none"
+            style={{
+              left: `${getPositionFromTime(Math.min(cutMarks.in!, cutMarks.out!))}%`,
+              width: `${getSpanWidth(Math.min(cutMarks.in!, cutMarks.out!), Math.max(cutMarks.in!, cutMarks.out!))}%`
+            }}
+          />
+        )}
+        {!hasMarks && [cutMarks.in, cutMarks.out].map((mark, i) => mark !== null && (
+          <div
+            key={i}
+            className="absolute top-4 bottom-0 w-0.5 bg-red-400 pointer-events-none"
+            style={{ left: `${getPositionFromTime(mark)}%` }}
+          />
+        ))}
+
+        {/* Suggested cuts: hatched ranges over everything until accepted or dismissed */}
+        {cutSuggestions.map((cut) => (
+          <div
+            key={cut.id}
+            className="absolute top-4 bottom-0 border-2 border-dashed border-red-300 bg-red-500/25 group flex items-start justify-end space-x-1 p-0.5 z-10"
+            style={{
+              left: `${getPositionFromTime(cut.startTime)}%`,
+              width: `${getSpanWidth(cut.startTime, cut.endTime)}%`
+            }}
+            title={`Suggested cut: ${(cut.endTime - cut.startTime).toFixed(1)}s of silence`}
+            onClick={(e) => { e.stopPropagation(); onSeek(cut.startTime); }}
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <button
+              className="w-4 h-4 bg-red-600 hover:bg-red-700 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+              onClick={(e) => { e.stopPropagation(); onAcceptCutSuggestions?.([cut.id]); }}
+              title="Cut this range"
+            >
+              ✓
+            </button>
+            <button
+              className="w-4 h-4 bg-gray-600 hover:bg-gray-700 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+              onClick={(e) => { e.stopPropagation(); onDismissCutSuggestions?.([cut.id]); }}
+              title="Keep this range"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+
+        {/* Cut points: the removed range collapses to a seam */}
+        {cuts.map((cut) => (
+          <div
+            key={cut.id}
+            className="absolute top-0 h-full -translate-x-1/2 flex flex-col items-center z-20 group"
+            style={{ left: `${getPositionFromTime(cut.startTime)}%` }}
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="w-0.5 flex-1 bg-red-400" />
+            <button
+              className="absolute bottom-0 w-4 h-4 rounded-full flex items-center justify-center bg-red-600 border border-red-300 text-white"
+              title={`${(cut.endTime - cut.startTime).toFixed(1)}s cut at ${formatTime(sourceToOutput(cut.startTime, cuts, speedRamps))}. Click to restore.`}
+              onClick={() => onRestoreCut?.(cut.id)}
+            >
+              <Scissors className="w-2.5 h-2.5" />
+            </button>
+          </div>
+        ))}
+
         {/* Playhead */}
         <div
           className="absolute top-0 w-0.5 h-full bg-white cursor-ew-resize z-10"
@@ -1,13 +1,126 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { VideoPlayer, VideoPlayerRef } from './VideoPlayer';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { VideoPlayer, VideoPlayerRef, PreviewDrag } from './VideoPlayer';
 import { Timeline } from './Timeline';
 import { ZoomControls } from './ZoomControls';
 import { Header } from './Header';
 import { FileImport } from './FileImport';
-import { ExportModal } from './ExportModal';
+import { ExportModal, ExportClip } from './ExportModal';
 import { TextOverlayComponent } from './TextOverlay';
-import { ZoomEffect, TextOverlay, getInterpolatedZoom, ClicksData } from '../types';
+import { AutoZoomPreview } from './AutoZoomPreview';
+import { CursorControls } from './CursorControls';
+import { KeystrokeControls } from './KeystrokeControls';
+import { SilenceControls } from './SilenceControls';
+import { RedactionControls, RedactionDrawMode } from './RedactionControls';
+import { AnnotationControls } from './AnnotationControls';
+import { ImageOverlayControls } from './ImageOverlayControls';
+import { StageControls } from './StageControls';
+import { ReframeControls } from './ReframeControls';
+import { WebcamControls } from './WebcamControls';
+import { ZoomEffect, SpotlightEffect, ZoomOverlapStrategy, TextOverlay, Annotation, AnnotationKind, ImageOverlay, ZoomSettings, CursorSettings, KeystrokeSettings, ClicksData, CutRange, SpeedRamp, RedactionRegion, ReframeKeyframe, WebcamSettings, WebcamHideRange, EditCommand, EditorDocument, ExportSettings, StageSettings, ProjectFile, ProjectClip, ClipTransition, RecoverableSession, DEFAULT_CLIP_TRANSITION, DEFAULT_EXPORT_SETTINGS, DEFAULT_STAGE_SETTINGS, DEFAULT_ZOOM_SETTINGS, DEFAULT_CURSOR_SETTINGS, DEFAULT_KEYSTROKE_SETTINGS, DEFAULT_WEBCAM_SETTINGS, EMPTY_EDITOR_DOCUMENT } from '../types';
+import { FrameScene } from '../utils/frameRenderer';
+import { createProjectFile, downloadProjectFile, readProjectFile, matchSourceVideo, describeSourceVideo, getClipDocument, ProjectFileError } from '../utils/projectFile';
+import { insertKeyframe, retimeZoom } from '../utils/zoomInterpolation';
+import { cutTimedItems, sourceToOutput, CutPieceJoins } from '../utils/timeMap';
+import { SavedHistory, useEditHistory } from '../hooks/useEditHistory';
+import { addItemCommand, addItemsCommand, updateItemCommand, removeItemCommand, replaceItemsCommand, setFieldCommand, combineCommands } from '../utils/editCommands';
+import { resolveZoomOverlap, resolveZoomOverlaps } from '../utils/zoomOverlaps';
+import { applyCursorFollow, clicksToCursorTrack } from '../utils/cursorFollow';
+import { getKeystrokeOverlays } from '../utils/keystrokes';
+import { analyzeActivity, DEFAULT_ACTIVITY_OPTIONS } from '../utils/activityAnalysis';
+import { decodeAudio, detectSilence, DEFAULT_SILENCE_OPTIONS, SilenceDetectionOptions } from '../utils/silenceDetection';
+import { probeVideoDuration } from '../utils/clips';
+import { insertRedactionKeyframe, retimeRedaction, RedactionRect } from '../utils/redaction';
+import { getManualReframeTarget } from '../utils/reframe';
+import { getCornerPosition, preloadOverlayImages, readOverlayImage, ImageOverlayCorner } from '../utils/imageOverlay';
+import { AUTOSAVE_DELAY_MS, saveAutosaveSession, saveAutosaveVideo, saveAutosaveWebcam, deleteAutosaveVideo, deleteAutosaveWebcam, clearAutosaveVideos, loadAutosave, clearAutosave } from '../utils/autosave';
 
+// Utility to get export-ready zooms (sorted, filtered)
+function getExportReadyZooms(zooms: ZoomEffect[], duration: number): ZoomEffect[] {
+  return [...zooms]
+    .filter(z => z.startTime < duration && z.endTime > 0)
+    .map(z => ({
+      ...z,
+      startTime: Math.max(0, Math.min(z.startTime, duration)),
+      endTime: Math.max(0, Math.min(z.endTime, duration)),
+    }))
+    .sort((a, b) => a.startTime - b.startTime);
+}
+
+// Zooms are trimmed to the cuts before cursor-follow bakes their camera paths.
+// A piece split out of a longer zoom carries on across the cut instead of easing out and back in
+function cutZooms(zooms: ZoomEffect[], cuts: CutRange[]): ZoomEffect[] {
+  return cutTimedItems(zooms, cuts, (zoom, start, end, joins) => ({
+    ...retimeZoom(zoom, start, end),
+    ...(joins.joinsPrevious ? { transitionIn: 0 } : {}),
+    ...(joins.joinsNext ? { transitionOut: 0 } : {}),
+  }));
+}
+
+// Everything else in the scene, trimmed to what survives the cuts the same way
+function cutScene(scene: FrameScene, cuts: CutRange[]): FrameScene {
+  const retimeText = (text: TextOverlay, startTime: number, endTime: number, joins: CutPieceJoins): TextOverlay => ({
+    ...text,
+    startTime,
+    endTime,
+    ...(joins.joinsPrevious ? { enterAnimation: 'none' } : {}),
+    ...(joins.joinsNext ? { exitAnimation: 'none' } : {}),
+  });
+  return {
+    ...scene,
+    spotlights: cutTimedItems(scene.spotlights, cuts, (spotlight, startTime, endTime, joins) => ({
+      ...spotlight,
+      startTime,
+      endTime,
+      ...(joins.joinsPrevious ? { transitionIn: 0 } : {}),
+      ...(joins.joinsNext ? { transitionOut: 0 } : {}),
+    })),
+    textOverlays: cutTimedItems(scene.textOverlays, cuts, retimeText),
+    keystrokeOverlays: cutTimedItems(scene.keystrokeOverlays, cuts, retimeText),
+    annotations: cutTimedItems(scene.annotations, cuts, (annotation, startTime, endTime, joins) => ({
+      ...annotation,
+      startTime,
+      endTime,
+      animation: joins.joinsPrevious ? 'none' : annotation.animation,
+    })),
+    imageOverlays: cutTimedItems(scene.imageOverlays, cuts, (overlay, startTime, endTime) => ({ ...overlay, startTime, endTime })),
+    redactions: cutTimedItems(scene.redactions, cuts, (region, startTime, endTime) => retimeRedaction(region, startTime, endTime)),
+    webcamHides: cutTimedItems(scene.webcamHides, cuts, (range, startTime, endTime) => ({ ...range, startTime, endTime })),
+  };
+}
+
+// What preview and export draw for a clip: cursor-follow zooms get their camera path baked in
+function getClipScene(document: EditorDocument, duration: number): FrameScene {
+  const zooms = cutZooms(getExportReadyZooms(document.zoomEffects, duration), document.cuts);
+  return cutScene({
+    zoomEffects: applyCursorFollow(zooms, document.cursorTrack, document.zoomSettings),
+    spotlights: document.spotlights,
+    zoomSettings: document.zoomSettings,
+    textOverlays: document.textOverlays,
+    annotations: document.annotations,
+    imageOverlays: document.imageOverlays,
+    cursorTrack: document.cursorTrack,
+    cursorSettings: document.cursorSettings,
+    keystrokeOverlays: getKeystrokeOverlays(document.keystrokes, document.keystrokeSettings),
+    redactions: document.redactions,
+    reframeKeyframes: document.reframeKeyframes,
+    webcamSettings: document.webcamSettings,
+    webcamHides: document.webcamHides,
+  }, document.cuts);
+}
+
+// Autosaved documents from older builds may lack newer fields
+function restoreDocument(document: EditorDocument): EditorDocument {
+  return {
+    ...EMPTY_EDITOR_DOCUMENT,
+    ...document,
+    zoomSettings: { ...DEFAULT_ZOOM_SETTINGS, ...document.zoomSettings },
+    cursorSettings: { ...DEFAULT_CURSOR_SETTINGS, ...document.cursorSettings },
+    keystrokeSettings: { ...DEFAULT_KEYSTROKE_SETTINGS, ...document.keystrokeSettings },
+    webcamSettings: { ...DEFAULT_WEBCAM_SETTINGS, ...document.webcamSettings },
+  };
+}
+
+const OVERLAP_LABELS: Record<ZoomOverlapStrategy, string> = { trim: 'Trim overlap', merge: 'Merge zooms', pan: 'Convert to pan' };
 
 export const VideoEditor: React.FC = () => {
   const [videoFile, setVideoFile] = useState<File | null>(null);
@@ -15,26 +128,73 @@ export const VideoEditor: React.FC = () => {
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [zoomEffects, setZoomEffects] = useState<ZoomEffect[]>([]);
-  const [selectedZoom, setSelectedZoom] = useState<ZoomEffect | null>(null);
-  const [textOverlays, setTextOverlays] = useState<TextOverlay[]>([]);
+  // Zooms and overlays go through the undo/redo history instead of plain state
+  const history = useEditHistory(EMPTY_EDITOR_DOCUMENT);
+  const { zoomEffects, spotlights, textOverlays, annotations, imageOverlays, reframeKeyframes, zoomSettings, cursorTrack, cursorSettings, keystrokes, keystrokeSettings, webcamSettings, webcamHides, cuts, speedRamps, redactions } = history.document;
+  // Every recording in the project, in order. The open clip is the one in the player and the history
+  const [clips, setClips] = useState<ProjectClip[]>([]);
+  const [activeClipId, setActiveClipId] = useState<string | null>(null);
+  // Undo history of the clips that aren't open, so switching clips loses nothing
+  const clipHistories = useRef(new Map<string, SavedHistory>());
+  const [selectedZoomId, setSelectedZoomId] = useState<string | null>(null);
+  const selectedZoom = zoomEffects.find(zoom => zoom.id === selectedZoomId) ?? null;
+  const [selectedKeyframeId, setSelectedKeyframeId] = useState<string | null>(null);
+  const [selectedSpotlightId, setSelectedSpotlightId] = useState<string | null>(null);
+  const selectedSpotlight = spotlights.find(spotlight => spotlight.id === selectedSpotlightId) ?? null;
   const [previewTextOverlay, setPreviewTextOverlay] = useState<TextOverlay | null>(null);
   const [showExportModal, setShowExportModal] = useState(false);
-  
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  // The wallpaper the whole project is inset on; project-wide like the export settings
+  const [stageSettings, setStageSettings] = useState<StageSettings>(DEFAULT_STAGE_SETTINGS);
+
+  // Project identity survives save/reopen so a re-saved file keeps its id and createdAt
+  const [projectMeta, setProjectMeta] = useState<{ id: string; name: string; createdAt: Date }>(() => ({ id: crypto.randomUUID(), name: '', createdAt: new Date() }));
+  // A project file that was opened but still needs its source video re-linked
+  const [pendingProject, setPendingProject] = useState<ProjectFile | null>(null);
+  const [linkedClipFiles, setLinkedClipFiles] = useState<File[]>([]);
+  // Unfinished session found in IndexedDB on startup
+  const [recoverableSession, setRecoverableSession] = useState<RecoverableSession | null>(null);
+  // Imported click data waiting for the user to review the generated zooms
+  const [pendingClicks, setPendingClicks] = useState<ClicksData | null>(null);
+  // Zooms proposed by activity analysis, shown as ghosts until accepted or dismissed
+  const [zoomSuggestions, setZoomSuggestions] = useState<ZoomEffect[]>([]);
+  const [suggestProgress, setSuggestProgress] = useState<number | null>(null);
+  const suggestCancelled = useRef(false);
+  // In/out marks (source time) for the next cut
+  const [cutMarks, setCutMarks] = useState<{ in: number | null; out: number | null }>({ in: null, out: null });
+  // Silent stretches proposed as cuts, shown on the timeline until accepted or dismissed
+  const [silenceOptions, setSilenceOptions] = useState<SilenceDetectionOptions>(DEFAULT_SILENCE_OPTIONS);
+  const [cutSuggestions, setCutSuggestions] = useState<CutRange[]>([]);
+  const [isDetectingSilence, setIsDetectingSilence] = useState(false);
+  const [selectedRedactionId, setSelectedRedactionId] = useState<string | null>(null);
+  const selectedRedaction = redactions.find(region => region.id === selectedRedactionId) ?? null;
+  const [selectedRedactionKeyframeId, setSelectedRedactionKeyframeId] = useState<string | null>(null);
+  const [redactionDrawMode, setRedactionDrawMode] = useState<RedactionDrawMode | null>(null);
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const selectedAnnotation = annotations.find(annotation => annotation.id === selectedAnnotationId) ?? null;
+  // Shape placed by the next drag on the preview; exclusive with redaction drawing
+  const [annotationDrawKind, setAnnotationDrawKind] = useState<AnnotationKind | null>(null);
+  const [selectedImageOverlayId, setSelectedImageOverlayId] = useState<string | null>(null);
+  const selectedImageOverlay = imageOverlays.find(overlay => overlay.id === selectedImageOverlayId) ?? null;
+  // Overlays whose images have decoded; the preview draws these so it repaints once an image is ready
+  const [readyImageOverlays, setReadyImageOverlays] = useState<ImageOverlay[]>([]);
+  // Point on the manual reframe path that clicks on the preview move
+  const [selectedReframeKeyframeId, setSelectedReframeKeyframeId] = useState<string | null>(null);
 
   const [zoomEnabled, setZoomEnabled] = useState(true);
   const [ffmpegStatus, setFfmpegStatus] = useState<'loading' | 'loaded' | 'error'>('loading');
-  const [zoomEffectsVersion, setZoomEffectsVersion] = useState(0); // Force preview updates when zoom effects change
   const videoRef = useRef<VideoPlayerRef>(null);
 
+  const { execute, getDocument, undo, redo } = history;
+
   // Define deleteZoomEffect before using it
   const deleteZoomEffect = useCallback((id: string) => {
-    setZoomEffects((prev: ZoomEffect[]) => prev.filter(zoom => zoom.id !== id));
-    if (selectedZoom?.id === id) {
-      setSelectedZoom(null);
-    }
-    setZoomEffectsVersion(prev => prev + 1); // Force preview update
-  }, [selectedZoom]);
+    const zooms = getDocument().zoomEffects;
+    const index = zooms.findIndex(zoom => zoom.id === id);
+    if (index === -1) return;
+    execute(removeItemCommand('zoomEffects', zooms[index], index, 'Delete zoom'));
+    setSelectedZoomId(prev => prev === id ? null : prev);
+  }, [execute, getDocument]);
 
   useEffect(() => {
     if (videoFile) {
@@ -44,6 +204,80 @@ export const VideoEditor: React.FC = () => {
     }
   }, [videoFile]);
 
+  // The open clip's webcam recording, if it has one
+  const webcamFile = clips.find(clip => clip.id === activeClipId)?.webcamFile ?? null;
+  const [webcamUrl, setWebcamUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!webcamFile) {
+      setWebcamUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(webcamFile);
+    setWebcamUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [webcamFile]);
+
+  useEffect(() => {
+    loadAutosave()
+      .then(setRecoverableSession)
+      .catch(e => console.warn('Autosave lookup failed:', e));
+  }, []);
+
+  // Clips with the open clip's live document and duration folded in
+  const currentClips = useMemo(
+    () => clips.map(clip => clip.id === activeClipId ? { ...clip, duration, document: history.document } : clip),
+    [clips, activeClipId, duration, history.document]
+  );
+
+  // Video blobs are large, so each clip's file is stored once rather than on every edit
+  const autosavedVideos = useRef(new Set<string>());
+  const autosavedWebcams = useRef(new Map<string, File>());
+  useEffect(() => {
+    for (const clip of clips) {
+      if (!autosavedVideos.current.has(clip.id)) {
+        autosavedVideos.current.add(clip.id);
+        saveAutosaveVideo(clip.id, clip.file).catch(e => console.warn('Autosave (video) failed:', e));
+      }
+      // The webcam can be attached or swapped later, so track which file was stored
+      if (clip.webcamFile && autosavedWebcams.current.get(clip.id) !== clip.webcamFile) {
+        autosavedWebcams.current.set(clip.id, clip.webcamFile);
+        saveAutosaveWebcam(clip.id, clip.webcamFile).catch(e => console.warn('Autosave (webcam) failed:', e));
+      }
+    }
+  }, [clips]);
+
+  // A new session replaces the stored one; its videos would otherwise sit in IndexedDB eating the quota
+  const discardAutosavedVideos = () => {
+    autosavedVideos.current.clear();
+    autosavedWebcams.current.clear();
+    clearAutosaveVideos().catch(e => console.warn('Clearing autosaved videos failed:', e));
+  };
+
+  useEffect(() => {
+    if (!videoFile || !activeClipId) return;
+    const timer = setTimeout(() => {
+      saveAutosaveSession({
+        projectId: projectMeta.id,
+        name: projectMeta.name,
+        createdAt: projectMeta.createdAt.toISOString(),
+        savedAt: new Date().toISOString(),
+        clips: currentClips.map(clip => ({
+          id: clip.id,
+          videoName: clip.file.name,
+          duration: clip.duration,
+          document: clip.document,
+          transitionToNext: clip.transitionToNext,
+          webcamName: clip.webcamFile?.name,
+          webcamSource: clip.webcamSource,
+        })),
+        activeClipId,
+        exportSettings,
+        stage: stageSettings,
+      }).catch(e => console.warn('Autosave failed:', e));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [videoFile, currentClips, activeClipId, exportSettings, stageSettings, projectMeta]);
+
   const checkFfmpegFiles = useCallback(async () => {
     setFfmpegStatus('loading');
     try {
@@ -68,17 +302,42 @@ export const VideoEditor: React.FC = () => {
 
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.key === 'Delete' && selectedZoom) {
-        deleteZoomEffect(selectedZoom.id);
+      // Leave text fields their native undo and delete behaviour
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) {
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+        return;
+      }
+      if (e.key === 'Delete' && selectedZoomId) {
+        deleteZoomEffect(selectedZoomId);
       }
       if (e.key === 'Escape') {
-        setSelectedZoom(null);
+        setSelectedZoomId(null);
+        setSelectedSpotlightId(null);
+        setSelectedReframeKeyframeId(null);
+        setRedactionDrawMode(null);
+        setAnnotationDrawKind(null);
+      }
+      if (!e.ctrlKey && !e.metaKey && e.key.toLowerCase() === 'i') {
+        setCutMarks(prev => ({ ...prev, in: currentTime }));
+      }
+      if (!e.ctrlKey && !e.metaKey && e.key.toLowerCase() === 'o') {
+        setCutMarks(prev => ({ ...prev, out: currentTime }));
       }
     };
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [selectedZoom, deleteZoomEffect]);
+  }, [selectedZoomId, deleteZoomEffect, undo, redo, currentTime]);
 
   const addZoomEffect = (startTime: number, endTime: number, x: number, y: number, scale: number, type: 'manual' | 'autozoom' = 'manual') => {
     const newZoom: ZoomEffect = {
@@ -91,33 +350,518 @@ export const VideoEditor: React.FC = () => {
       transition: 'smooth',
       type
     };
-    setZoomEffects(prev => [...prev, newZoom]);
-    setSelectedZoom(newZoom);
-    setZoomEffectsVersion(prev => prev + 1); // Force preview update
+    execute(addItemCommand('zoomEffects', newZoom, 'Add zoom'));
+    selectZoom(newZoom);
   };
 
   const updateZoomEffect = (updatedZoom: ZoomEffect) => {
-    setZoomEffects(prev => 
-      prev.map(zoom => zoom.id === updatedZoom.id ? updatedZoom : zoom)
-    );
-    setSelectedZoom(updatedZoom);
-    setZoomEffectsVersion(prev => prev + 1); // Force preview update
+    const before = getDocument().zoomEffects.find(zoom => zoom.id === updatedZoom.id);
+    if (!before) return;
+    // Slider drags touch the same fields over and over; keep them as one undo step
+    const changed = (Object.keys(updatedZoom) as (keyof ZoomEffect)[]).filter(key => updatedZoom[key] !== before[key]);
+    execute(updateItemCommand('zoomEffects', before, updatedZoom, 'Edit zoom', `zoom:${updatedZoom.id}:${changed.join(',')}`));
+    setSelectedZoomId(updatedZoom.id);
+  };
+
+  const selectZoom = (zoom: ZoomEffect | null, keyframeId: string | null = null) => {
+    setSelectedZoomId(zoom?.id ?? null);
+    setSelectedKeyframeId(keyframeId);
+    if (zoom) setSelectedSpotlightId(null);
+  };
+
+  // Spotlights share the zoom panel, so only one of the two is selected at a time
+  const selectSpotlight = (id: string | null) => {
+    setSelectedSpotlightId(id);
+    if (id) selectZoom(null);
+  };
+
+  const addSpotlight = () => {
+    const spotlight: SpotlightEffect = {
+      id: crypto.randomUUID(),
+      startTime: currentTime,
+      endTime: Math.min(currentTime + 3, duration),
+      x: 50,
+      y: 50,
+      width: 30,
+      height: 30,
+      shape: 'rectangle',
+      style: 'dim',
+      intensity: 0.6,
+      feather: 24,
+    };
+    execute(addItemCommand('spotlights', spotlight, 'Add spotlight'));
+    selectSpotlight(spotlight.id);
+  };
+
+  const updateSpotlight = (id: string, updates: Partial<SpotlightEffect>) => {
+    const before = getDocument().spotlights.find(spotlight => spotlight.id === id);
+    if (!before) return;
+    const mergeKey = `spotlight:${id}:${Object.keys(updates).join(',')}`;
+    execute(updateItemCommand('spotlights', before, { ...before, ...updates }, 'Edit spotlight', mergeKey));
+  };
+
+  const deleteSpotlight = (id: string) => {
+    const list = getDocument().spotlights;
+    const index = list.findIndex(spotlight => spotlight.id === id);
+    if (index === -1) return;
+    execute(removeItemCommand('spotlights', list[index], index, 'Delete spotlight'));
+    setSelectedSpotlightId(prev => prev === id ? null : prev);
+  };
+
+  const addKeyframe = (zoom: ZoomEffect, time: number) => {
+    const current = getDocument().zoomEffects.find(z => z.id === zoom.id);
+    if (!current) return;
+    const { zoom: updated, keyframe } = insertKeyframe(current, time);
+    execute(updateItemCommand('zoomEffects', current, updated, 'Add keyframe'));
+    selectZoom(updated, keyframe.id);
+  };
+
+  const deleteKeyframe = (zoomId: string, keyframeId: string) => {
+    const current = getDocument().zoomEffects.find(z => z.id === zoomId);
+    if (!current) return;
+    const updated = { ...current, keyframes: (current.keyframes ?? []).filter(k => k.id !== keyframeId) };
+    execute(updateItemCommand('zoomEffects', current, updated, 'Delete keyframe'));
+    setSelectedKeyframeId(prev => prev === keyframeId ? null : prev);
+  };
+
+  const updateZoomSettings = (updates: Partial<ZoomSettings>) => {
+    const before = getDocument().zoomSettings;
+    execute(setFieldCommand('zoomSettings', before, { ...before, ...updates }, 'Zoom settings', `zoomSettings:${Object.keys(updates).join(',')}`));
+  };
+
+  const resolveOverlap = (firstId: string, secondId: string, strategy: ZoomOverlapStrategy) => {
+    const zooms = getDocument().zoomEffects;
+    const first = zooms.find(z => z.id === firstId);
+    const second = zooms.find(z => z.id === secondId);
+    if (!first || !second) return;
+    const resolved = resolveZoomOverlap(first, second, strategy);
+    execute(replaceItemsCommand('zoomEffects', [first, second], resolved, OVERLAP_LABELS[strategy]));
+    if (selectedZoomId && !resolved.some(z => z.id === selectedZoomId)) selectZoom(null);
+  };
+
+  const resolveAllOverlaps = (strategy: ZoomOverlapStrategy) => {
+    const zooms = getDocument().zoomEffects;
+    const resolved = resolveZoomOverlaps(zooms, strategy);
+    execute(replaceItemsCommand('zoomEffects', zooms, resolved, OVERLAP_LABELS[strategy]));
+    if (selectedZoomId && !resolved.some(z => z.id === selectedZoomId)) selectZoom(null);
+  };
+
+  const updateCursorSettings = (updates: Partial<CursorSettings>) => {
+    const before = getDocument().cursorSettings;
+    execute(setFieldCommand('cursorSettings', before, { ...before, ...updates }, 'Cursor settings', `cursorSettings:${Object.keys(updates).join(',')}`));
+  };
+
+  const updateKeystrokeSettings = (updates: Partial<KeystrokeSettings>) => {
+    const before = getDocument().keystrokeSettings;
+    execute(setFieldCommand('keystrokeSettings', before, { ...before, ...updates }, 'Keystroke settings', `keystrokeSettings:${Object.keys(updates).join(',')}`));
+  };
+
+  const suggestZooms = async () => {
+    const player = videoRef.current;
+    if (!player || suggestProgress !== null) return;
+    const resumeAt = currentTime;
+    suggestCancelled.current = false;
+    setSuggestProgress(0);
+    player.beginExport();
+    try {
+      const suggestions = await analyzeActivity(player, duration, DEFAULT_ACTIVITY_OPTIONS, (fraction) => {
+        setSuggestProgress(fraction);
+        player.updateExportProgress(fraction * 100, 'Analyzing on-screen activity…');
+      }, () => suggestCancelled.current);
+      if (!suggestCancelled.current) {
+        setZoomSuggestions(suggestions);
+        if (suggestions.length === 0) alert('No localized activity found to zoom into.');
+      }
+    } catch (error) {
+      console.error('Activity analysis failed:', error);
+      alert('Could not analyze the video.');
+    } finally {
+      player.endExport();
+      setSuggestProgress(null);
+      await player.seekAndWait(resumeAt).catch(() => {});
+    }
+  };
+
+  const acceptSuggestions = (ids: string[]) => {
+    const accepted = zoomSuggestions.filter(zoom => ids.includes(zoom.id));
+    if (accepted.length === 0) return;
+    execute(addItemsCommand('zoomEffects', accepted, accepted.length > 1 ? 'Accept suggestions' : 'Accept suggestion'));
+    setZoomSuggestions(prev => prev.filter(zoom => !ids.includes(zoom.id)));
+  };
+
+  const dismissSuggestions = (ids: string[]) => {
+    setZoomSuggestions(prev => prev.filter(zoom => !ids.includes(zoom.id)));
+  };
+
+  // Effects keep their ranges; the scene trims them to the cuts, so restoring a cut loses nothing
+  const addCuts = (ranges: { startTime: number; endTime: number }[], label: string) => {
+    const added: CutRange[] = ranges
+      .filter(range => range.endTime - range.startTime > 0)
+      .map(range => ({ id: crypto.randomUUID(), startTime: range.startTime, endTime: range.endTime }));
+    if (added.length === 0) return;
+    execute(addItemsCommand('cuts', added, label));
+    setCutMarks({ in: null, out: null });
+  };
+
+  const cutMarkedRange = () => {
+    if (cutMarks.in === null || cutMarks.out === null) return;
+    addCuts([{ startTime: Math.min(cutMarks.in, cutMarks.out), endTime: Math.max(cutMarks.in, cutMarks.out) }], 'Cut');
+  };
+
+  const restoreCut = (id: string) => {
+    const doc = getDocument();
+    const index = doc.cuts.findIndex(cut => cut.id === id);
+    if (index === -1) return;
+    execute(removeItemCommand('cuts', doc.cuts[index], index, 'Restore cut'));
+  };
+
+  // A new ramp takes over its range from any ramp already there
+  const addSpeedRamp = (startTime: number, endTime: number, speed: number) => {
+    if (endTime - startTime <= 0) return;
+    const before = getDocument().speedRamps.filter(ramp => ramp.startTime < endTime && ramp.endTime > startTime);
+    const after: SpeedRamp[] = [];
+    for (const ramp of before) {
+      if (ramp.startTime < startTime) after.push({ ...ramp, endTime: startTime });
+      if (ramp.endTime > endTime) {
+        after.push({ ...ramp, id: ramp.startTime < startTime ? crypto.randomUUID() : ramp.id, startTime: endTime });
+      }
+    }
+    after.push({ id: crypto.randomUUID(), startTime, endTime, speed });
+    execute(replaceItemsCommand('speedRamps', before, after, 'Speed ramp'));
+    setCutMarks({ in: null, out: null });
+  };
+
+  const speedMarkedRange = (speed: number) => {
+    if (cutMarks.in === null || cutMarks.out === null) return;
+    addSpeedRamp(Math.min(cutMarks.in, cutMarks.out), Math.max(cutMarks.in, cutMarks.out), speed);
+  };
+
+  const updateSpeedRamp = (id: string, updates: Partial<SpeedRamp>) => {
+    const before = getDocument().speedRamps.find(ramp => ramp.id === id);
+    if (!before) return;
+    execute(updateItemCommand('speedRamps', before, { ...before, ...updates }, 'Edit speed ramp'));
+  };
+
+  const removeSpeedRamp = (id: string) => {
+    const ramps = getDocument().speedRamps;
+    const index = ramps.findIndex(ramp => ramp.id === id);
+    if (index === -1) return;
+    execute(removeItemCommand('speedRamps', ramps[index], index, 'Remove speed ramp'));
+  };
+
+  const suggestCuts = async () => {
+    if (!videoFile || isDetectingSilence) return;
+    setIsDetectingSilence(true);
+    try {
+      const buffer = await decodeAudio(videoFile);
+      const existing = getDocument().cuts;
+      // Silence that is already cut away has nothing left to suggest
+      const suggestions = detectSilence(buffer, silenceOptions)
+        .filter(cut => sourceToOutput(cut.endTime, existing) > sourceToOutput(cut.startTime, existing));
+      setCutSuggestions(suggestions);
+      if (suggestions.length === 0) alert('No silent stretches found with these settings.');
+    } catch (error) {
+      console.error('Silence detection failed:', error);
+      alert('Could not read the audio track. Does the video have sound?');
+    } finally {
+      setIsDetectingSilence(false);
+    }
+  };
+
+  const acceptCutSuggestions = (ids: string[]) => {
+    const accepted = cutSuggestions.filter(cut => ids.includes(cut.id));
+    addCuts(accepted, accepted.length > 1 ? 'Cut silences' : 'Cut silence');
+    setCutSuggestions(prev => prev.filter(cut => !ids.includes(cut.id)));
+  };
+
+  const dismissCutSuggestions = (ids: string[]) => {
+    setCutSuggestions(prev => prev.filter(cut => !ids.includes(cut.id)));
+  };
+
+  const attachWebcam = async (file: File) => {
+    const clip = clips.find(c => c.id === activeClipId);
+    if (!clip) return;
+    try {
+      if (clip.webcamSource && !clip.webcamFile) {
+        const match = await matchSourceVideo(file, clip.webcamSource);
+        if (match === 'mismatch' && !confirm(`"${file.name}" does not look like the webcam recording this project was made with (${clip.webcamSource.name}). Use it anyway?`)) {
+          return;
+        }
+      }
+      const webcamSource = await describeSourceVideo(file, await probeVideoDuration(file));
+      setClips(prev => prev.map(c => c.id === clip.id ? { ...c, webcamFile: file, webcamSource } : c));
+    } catch (error) {
+      console.error('Failed to read webcam video:', error);
+      alert('Could not read that webcam video.');
+    }
+  };
+
+  const removeWebcam = () => {
+    if (!activeClipId) return;
+    setClips(prev => prev.map(c => c.id === activeClipId ? { ...c, webcamFile: undefined, webcamSource: undefined } : c));
+    autosavedWebcams.current.delete(activeClipId);
+    deleteAutosaveWebcam(activeClipId).catch(e => console.warn('Removing autosaved webcam failed:', e));
+  };
+
+  const updateWebcamSettings = (updates: Partial<WebcamSettings>) => {
+    const before = getDocument().webcamSettings;
+    execute(setFieldCommand('webcamSettings', before, { ...before, ...updates }, 'Webcam settings', `webcamSettings:${Object.keys(updates).join(',')}`));
+  };
+
+  const addWebcamHide = () => {
+    const range: WebcamHideRange = {
+      id: crypto.randomUUID(),
+      startTime: currentTime,
+      endTime: Math.min(currentTime + 3, duration),
+    };
+    if (range.endTime - range.startTime <= 0) return;
+    execute(addItemCommand('webcamHides', range, 'Hide webcam'));
+  };
+
+  const updateWebcamHide = (id: string, updates: Partial<WebcamHideRange>) => {
+    const before = getDocument().webcamHides.find(range => range.id === id);
+    if (!before) return;
+    const mergeKey = `webcamHide:${id}:${Object.keys(updates).join(',')}`;
+    execute(updateItemCommand('webcamHides', before, { ...before, ...updates }, 'Edit webcam hide', mergeKey));
+  };
+
+  const deleteWebcamHide = (id: string) => {
+    const list = getDocument().webcamHides;
+    const index = list.findIndex(range => range.id === id);
+    if (index === -1) return;
+    execute(removeItemCommand('webcamHides', list[index], index, 'Show webcam'));
   };
 
   // Text overlay functions
   const addTextOverlay = (textOverlay: TextOverlay) => {
-    setTextOverlays(prev => [...prev, textOverlay]);
+    execute(addItemCommand('textOverlays', textOverlay, 'Add text'));
     setPreviewTextOverlay(null); // Clear preview when text is added
   };
 
   const updateTextOverlay = (id: string, updates: Partial<TextOverlay>) => {
-    setTextOverlays(prev => 
-      prev.map(text => text.id === id ? { ...text, ...updates } : text)
-    );
+    const before = getDocument().textOverlays.find(text => text.id === id);
+    if (!before) return;
+    // Typing into one field collapses into a single undo step
+    const mergeKey = `text:${id}:${Object.keys(updates).join(',')}`;
+    execute(updateItemCommand('textOverlays', before, { ...before, ...updates }, 'Edit text', mergeKey));
   };
 
   const deleteTextOverlay = (id: string) => {
-    setTextOverlays(prev => prev.filter(text => text.id !== id));
+    const texts = getDocument().textOverlays;
+    const index = texts.findIndex(text => text.id === id);
+    if (index === -1) return;
+    execute(removeItemCommand('textOverlays', texts[index], index, 'Delete text'));
+  };
+
+  const startRedactionDrawing = (mode: RedactionDrawMode | null) => {
+    setRedactionDrawMode(mode);
+    if (mode) setAnnotationDrawKind(null);
+  };
+
+  const startAnnotationDrawing = (kind: AnnotationKind | null) => {
+    setAnnotationDrawKind(kind);
+    if (kind) setRedactionDrawMode(null);
+  };
+
+  const handleAnnotationDrawn = (drag: PreviewDrag) => {
+    if (!annotationDrawKind) return;
+    // Boxes and arrows need an actual drag; steps can be placed with a click
+    const size = Math.hypot(drag.x2 - drag.x1, drag.y2 - drag.y1);
+    if (annotationDrawKind !== 'step' && size < 1) return;
+    const annotation: Annotation = {
+      id: crypto.randomUUID(),
+      startTime: currentTime,
+      endTime: Math.min(currentTime + 3, duration),
+      kind: annotationDrawKind,
+      ...drag,
+      strokeColor: '#ef4444',
+      strokeWidth: 4,
+      animation: 'pop',
+    };
+    if (annotationDrawKind === 'step') {
+      annotation.text = String(getDocument().annotations.filter(a => a.kind === 'step').length + 1);
+    } else if (annotationDrawKind === 'callout') {
+      annotation.text = 'Note';
+      annotation.strokeColor = '#111827';
+      annotation.fontSize = 24;
+    }
+    execute(addItemCommand('annotations', annotation, 'Add annotation'));
+    setSelectedAnnotationId(annotation.id);
+    setAnnotationDrawKind(null);
+  };
+
+  const updateAnnotation = (id: string, updates: Partial<Annotation>) => {
+    const before = getDocument().annotations.find(annotation => annotation.id === id);
+    if (!before) return;
+    const mergeKey = `annotation:${id}:${Object.keys(updates).join(',')}`;
+    execute(updateItemCommand('annotations', before, { ...before, ...updates }, 'Edit annotation', mergeKey));
+  };
+
+  const deleteAnnotation = (id: string) => {
+    const list = getDocument().annotations;
+    const index = list.findIndex(annotation => annotation.id === id);
+    if (index === -1) return;
+    execute(removeItemCommand('annotations', list[index], index, 'Delete annotation'));
+    setSelectedAnnotationId(prev => prev === id ? null : prev);
+  };
+
+  // Width / height of the open recording, for placing images in its corners
+  const getFrameAspect = () => {
+    const video = videoRef.current?.getVideoElement();
+    return video && video.videoHeight > 0 ? video.videoWidth / video.videoHeight : 16 / 9;
+  };
+
+  const addImageOverlay = async (file: File) => {
+    let image: { src: string; aspectRatio: number };
+    try {
+      image = await readOverlayImage(file);
+    } catch (error) {
+      console.error('Error loading image:', error);
+      alert(`Could not load "${file.name}" as an image.`);
+      return;
+    }
+    // A logo spans the whole clip; anything else starts at the playhead like text does
+    const spansClip = getDocument().imageOverlays.length === 0;
+    const startTime = spansClip ? 0 : currentTime;
+    const overlay: ImageOverlay = {
+      id: crypto.randomUUID(),
+      startTime,
+      endTime: spansClip ? duration : Math.min(startTime + 3, duration),
+      name: file.name,
+      ...image,
+      x: 50,
+      y: 50,
+      width: 15,
+      opacity: spansClip ? 0.8 : 1,
+      fixedToScreen: spansClip,
+    };
+    if (spansClip) Object.assign(overlay, getCornerPosition(overlay, 'bottom-right', getFrameAspect()));
+    execute(addItemCommand('imageOverlays', overlay, 'Add image'));
+    setSelectedImageOverlayId(overlay.id);
+  };
+
+  const updateImageOverlay = (id: string, updates: Partial<ImageOverlay>) => {
+    const before = getDocument().imageOverlays.find(overlay => overlay.id === id);
+    if (!before) return;
+    const mergeKey = `image:${id}:${Object.keys(updates).join(',')}`;
+    execute(updateItemCommand('imageOverlays', before, { ...before, ...updates }, 'Edit image', mergeKey));
+  };
+
+  const placeImageOverlay = (id: string, corner: ImageOverlayCorner) => {
+    const overlay = getDocument().imageOverlays.find(o => o.id === id);
+    if (!overlay) return;
+    updateImageOverlay(id, getCornerPosition(overlay, corner, getFrameAspect()));
+  };
+
+  const deleteImageOverlay = (id: string) => {
+    const list = getDocument().imageOverlays;
+    const index = list.findIndex(overlay => overlay.id === id);
+    if (index === -1) return;
+    execute(removeItemCommand('imageOverlays', list[index], index, 'Delete image'));
+    setSelectedImageOverlayId(prev => prev === id ? null : prev);
+  };
+
+  const addReframeKeyframe = () => {
+    const keyframes = getDocument().reframeKeyframes;
+    // Start where the path already is, so adding a keyframe doesn't move the crop
+    const at = getManualReframeTarget(keyframes, currentTime) ?? { x: 50, y: 50 };
+    const keyframe: ReframeKeyframe = { id: crypto.randomUUID(), time: currentTime, x: at.x, y: at.y };
+    execute(addItemCommand('reframeKeyframes', keyframe, 'Add reframe keyframe'));
+    setSelectedReframeKeyframeId(keyframe.id);
+  };
+
+  const updateReframeKeyframe = (id: string, updates: Partial<ReframeKeyframe>) => {
+    const before = getDocument().reframeKeyframes.find(keyframe => keyframe.id === id);
+    if (!before) return;
+    const mergeKey = `reframe:${id}:${Object.keys(updates).join(',')}`;
+    execute(updateItemCommand('reframeKeyframes', before, { ...before, ...updates }, 'Move reframe keyframe', mergeKey));
+  };
+
+  const deleteReframeKeyframe = (id: string) => {
+    const list = getDocument().reframeKeyframes;
+    const index = list.findIndex(keyframe => keyframe.id === id);
+    if (index === -1) return;
+    execute(removeItemCommand('reframeKeyframes', list[index], index, 'Delete reframe keyframe'));
+    setSelectedReframeKeyframeId(prev => prev === id ? null : prev);
+  };
+
+  const updateStageSettings = (updates: Partial<StageSettings>) => {
+    setStageSettings(prev => ({ ...prev, ...updates }));
+  };
+
+  const pickStageWallpaper = async (file: File) => {
+    try {
+      const { src } = await readOverlayImage(file);
+      updateStageSettings({ background: 'image', imageSrc: src });
+    } catch (error) {
+      console.error('Error loading wallpaper:', error);
+      alert(`Could not load "${file.name}" as an image.`);
+    }
+  };
+
+  const selectRedaction = (id: string | null, keyframeId: string | null = null) => {
+    setSelectedRedactionId(id);
+    setSelectedRedactionKeyframeId(keyframeId);
+  };
+
+  const updateRedaction = (id: string, updates: Partial<RedactionRegion>) => {
+    const before = getDocument().redactions.find(region => region.id === id);
+    if (!before) return;
+    const mergeKey = `redaction:${id}:${Object.keys(updates).join(',')}`;
+    execute(updateItemCommand('redactions', before, { ...before, ...updates }, 'Edit redaction', mergeKey));
+  };
+
+  const deleteRedaction = (id: string) => {
+    const regions = getDocument().redactions;
+    const index = regions.findIndex(region => region.id === id);
+    if (index === -1) return;
+    execute(removeItemCommand('redactions', regions[index], index, 'Delete redaction'));
+    if (selectedRedactionId === id) selectRedaction(null);
+  };
+
+  // A box dragged on the preview either starts a new region at the playhead or moves the selected position
+  const handleRedactionDrawn = (drag: PreviewDrag) => {
+    const rect: RedactionRect = {
+      x: Math.min(drag.x1, drag.x2),
+      y: Math.min(drag.y1, drag.y2),
+      width: Math.abs(drag.x2 - drag.x1),
+      height: Math.abs(drag.y2 - drag.y1),
+    };
+    // A click without a drag doesn't make a usable box
+    if (rect.width < 1 || rect.height < 1) return;
+    if (redactionDrawMode === 'selected' && selectedRedaction) {
+      const keyframe = selectedRedaction.keyframes?.find(k => k.id === selectedRedactionKeyframeId);
+      updateRedaction(selectedRedaction.id, keyframe
+        ? { keyframes: selectedRedaction.keyframes!.map(k => k.id === keyframe.id ? { ...k, ...rect } : k) }
+        : rect);
+    } else {
+      const region: RedactionRegion = {
+        id: crypto.randomUUID(),
+        startTime: currentTime,
+        endTime: Math.min(currentTime + 3, duration),
+        ...rect,
+        shape: 'rectangle',
+        style: 'blur',
+        strength: 24,
+      };
+      execute(addItemCommand('redactions', region, 'Add redaction'));
+      selectRedaction(region.id);
+    }
+    setRedactionDrawMode(null);
+  };
+
+  const addRedactionKeyframe = () => {
+    if (!selectedRedaction) return;
+    const { region, keyframe } = insertRedactionKeyframe(selectedRedaction, currentTime);
+    execute(updateItemCommand('redactions', selectedRedaction, region, 'Add keyframe'));
+    selectRedaction(region.id, keyframe.id);
+  };
+
+  const deleteRedactionKeyframe = (keyframeId: string) => {
+    if (!selectedRedaction) return;
+    const updated = { ...selectedRedaction, keyframes: (selectedRedaction.keyframes ?? []).filter(k => k.id !== keyframeId) };
+    execute(updateItemCommand('redactions', selectedRedaction, updated, 'Delete keyframe'));
+    setSelectedRedactionKeyframeId(prev => prev === keyframeId ? null : prev);
   };
 
   const setPreviewText = (preview: TextOverlay | null) => {
@@ -148,59 +892,301 @@ export const VideoEditor: React.FC = () => {
 
 
 
+  // Clicks are only turned into zooms after the user reviews them in the auto-zoom preview
   const handleClicksImport = (clicksData: ClicksData) => {
-    if (clicksData.clicks && Array.isArray(clicksData.clicks)) {
-      const newZoomEffects: ZoomEffect[] = clicksData.clicks.map((click) => {
-        const startTime = click.time || click.timestamp || 0;
-        const endTime = startTime + (click.duration || 2.0);
-        const width = click.width || clicksData.width;
-        const height = click.height || clicksData.height;
-
-        return {
-          id: crypto.randomUUID(),
-          startTime: startTime,
-          endTime: endTime,
-          x: (click.x / width) * 100,
-          y: (click.y / height) * 100,
-          scale: click.zoomLevel || 2.0,
-          transition: 'smooth',
-          type: 'autozoom' as const,
-          originalData: click,
-        };
-      });
-
-      setZoomEffects(prev => [...prev, ...newZoomEffects]);
+    if (!Array.isArray(clicksData.clicks)) return;
+    const doc = getDocument();
+    const trackCommands: EditCommand[] = [];
+    // Clicks are cursor positions too, so a file without mouse-move samples still gives a (coarser) track
+    const track = clicksToCursorTrack(clicksData);
+    if (track.length > 0) {
+      trackCommands.push(setFieldCommand('cursorTrack', doc.cursorTrack, track, 'Import cursor track'));
+    }
+    if (Array.isArray(clicksData.keys) && clicksData.keys.length > 0) {
+      trackCommands.push(setFieldCommand('keystrokes', doc.keystrokes, [...clicksData.keys].sort((a, b) => a.time - b.time), 'Import keystrokes'));
+    }
+    if (trackCommands.length > 0) {
+      execute(combineCommands('Import cursor and keys', trackCommands));
+    }
+    if (clicksData.clicks.length > 0) {
+      setPendingClicks(clicksData);
     }
   };
 
+  const applyAutoZooms = (zooms: ZoomEffect[], replaced: ZoomEffect[]) => {
+    execute(replaced.length > 0
+      ? replaceItemsCommand('zoomEffects', replaced, zooms, 'Auto zoom')
+      : addItemsCommand('zoomEffects', zooms, 'Import clicks'));
+    if (selectedZoomId && replaced.some(z => z.id === selectedZoomId)) selectZoom(null);
+    setPendingClicks(null);
+  };
+
   const resetProject = () => {
     setVideoFile(null);
-    setZoomEffects([]);
-    setSelectedZoom(null);
+    setClips([]);
+    setActiveClipId(null);
+    history.reset(EMPTY_EDITOR_DOCUMENT); // Clears zooms, text overlays and undo history
+    clipHistories.current.clear();
+    selectZoom(null);
+    setCurrentTime(0);
+    setIsPlaying(false);
+    setExportSettings(DEFAULT_EXPORT_SETTINGS);
+    setStageSettings(DEFAULT_STAGE_SETTINGS);
+    setProjectMeta({ id: crypto.randomUUID(), name: '', createdAt: new Date() });
+    setPendingProject(null);
+    setLinkedClipFiles([]);
+    setRecoverableSession(null);
+    setPendingClicks(null);
+    setZoomSuggestions([]);
+    setCutMarks({ in: null, out: null });
+    setCutSuggestions([]);
+    autosavedVideos.current.clear();
+    autosavedWebcams.current.clear();
+    clearAutosave().catch(e => console.warn('Clearing autosave failed:', e));
+  };
+
+  // Load a clip into the player and the edit history, along with the undo history it had when last open
+  const openClip = (clip: ProjectClip) => {
+    history.reset(clip.document, clipHistories.current.get(clip.id));
+    setActiveClipId(clip.id);
+    setVideoFile(clip.file);
+    setDuration(clip.duration);
     setCurrentTime(0);
     setIsPlaying(false);
-    setTextOverlays([]); // Clear text overlays as well
+    selectZoom(null);
+    selectSpotlight(null);
+    setPendingClicks(null);
+    setZoomSuggestions([]);
+    setCutMarks({ in: null, out: null });
+    setCutSuggestions([]);
+    selectRedaction(null);
+    setRedactionDrawMode(null);
+    setSelectedAnnotationId(null);
+    setAnnotationDrawKind(null);
+    setSelectedImageOverlayId(null);
+    setSelectedReframeKeyframeId(null);
   };
 
+  const switchClip = (id: string) => {
+    const target = clips.find(clip => clip.id === id);
+    if (!target || id === activeClipId) return;
+    setClips(currentClips); // keep the edits of the clip being left
+    if (activeClipId) clipHistories.current.set(activeClipId, history.saveHistory());
+    openClip(target);
+  };
 
-  // Utility to get export-ready zooms (sorted, filtered)
-  function getExportReadyZooms(zooms: ZoomEffect[], duration: number): ZoomEffect[] {
-    return [...zooms]
-      .filter(z => z.startTime < duration && z.endTime > 0)
-      .map(z => ({
-        ...z,
-        startTime: Math.max(0, Math.min(z.startTime, duration)),
-        endTime: Math.max(0, Math.min(z.endTime, duration)),
-      }))
-      .sort((a, b) => a.startTime - b.startTime);
-  }
+  const addClips = async (files: File[]) => {
+    const added: ProjectClip[] = [];
+    for (const file of files) {
+      added.push({
+        id: crypto.randomUUID(),
+        file,
+        duration: await probeVideoDuration(file).catch(() => 0),
+        document: EMPTY_EDITOR_DOCUMENT,
+        transitionToNext: DEFAULT_CLIP_TRANSITION,
+      });
+    }
+    setClips(prev => [...prev, ...added]);
+  };
+
+  const moveClip = (id: string, offset: -1 | 1) => {
+    setClips(prev => {
+      const index = prev.findIndex(clip => clip.id === id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeClip = (id: string) => {
+    const index = currentClips.findIndex(clip => clip.id === id);
+    if (index === -1 || currentClips.length < 2) return;
+    if (!confirm(`Remove "${currentClips[index].file.name}" and its edits from the project?`)) return;
+    const remaining = currentClips.filter(clip => clip.id !== id);
+    setClips(remaining);
+    autosavedVideos.current.delete(id);
+    autosavedWebcams.current.delete(id);
+    clipHistories.current.delete(id);
+    deleteAutosaveVideo(id).catch(e => console.warn('Removing autosaved video failed:', e));
+    if (id === activeClipId) openClip(remaining[Math.min(index, remaining.length - 1)]);
+  };
+
+  const updateClipTransition = (id: string, transitionToNext: ClipTransition) => {
+    setClips(prev => prev.map(clip => clip.id === id ? { ...clip, transitionToNext } : clip));
+  };
+
+  const applyProjectFile = (project: ProjectFile, files: File[]) => {
+    const loaded: ProjectClip[] = project.clips.map((clip, i) => ({
+      id: clip.id,
+      file: files[i],
+      duration: clip.source.duration,
+      document: getClipDocument(clip),
+      transitionToNext: clip.transitionToNext,
+      webcamSource: clip.webcamSource, // the webcam video is re-linked from the webcam panel
+    }));
+    discardAutosavedVideos();
+    clipHistories.current.clear();
+    setClips(loaded);
+    openClip(loaded[0]);
+    setExportSettings(project.exportSettings);
+    setStageSettings(project.stage);
+    setProjectMeta({ id: project.id, name: project.name, createdAt: new Date(project.createdAt) });
+  };
+
+  const saveProject = async () => {
+    if (!videoFile) return;
+    try {
+      const projectFile = await createProjectFile({
+        id: projectMeta.id,
+        name: projectMeta.name || currentClips[0].file.name.replace(/\.[^.]+$/, ''),
+        clips: currentClips,
+        exportSettings,
+        stage: stageSettings,
+        createdAt: projectMeta.createdAt,
+        updatedAt: new Date(),
+      });
+      downloadProjectFile(projectFile);
+    } catch (error) {
+      console.error('Error saving project:', error);
+      alert('Could not save the project file.');
+    }
+  };
+
+  const openProject = async (file: File) => {
+    let project: ProjectFile;
+    try {
+      project = await readProjectFile(file);
+    } catch (error) {
+      console.error('Error opening project:', error);
+      alert(error instanceof ProjectFileError ? error.message : 'Could not open the project file.');
+      return;
+    }
+
+    // Same recordings already open: no need to ask for them again
+    const openFiles = currentClips.map(clip => clip.file);
+    if (openFiles.length === project.clips.length) {
+      const matches = await Promise.all(project.clips.map((clip, i) => matchSourceVideo(openFiles[i], clip.source)));
+      if (matches.every(match => match !== 'mismatch')) {
+        applyProjectFile(project, openFiles);
+        return;
+      }
+    }
+
+    resetProject();
+    setPendingProject(project);
+  };
+
+  const handleVideoFileSelect = async (file: File) => {
+    if (pendingProject) {
+      const source = pendingProject.clips[linkedClipFiles.length].source;
+      const match = await matchSourceVideo(file, source);
+      if (match === 'mismatch' && !confirm(
+        `"${file.name}" does not look like the original recording "${source.name}". ` +
+        'Zooms and overlays may be out of place. Link it anyway?'
+      )) {
+        return;
+      }
+      const linked = [...linkedClipFiles, file];
+      // Multi-clip projects ask for each recording in turn
+      if (linked.length < pendingProject.clips.length) {
+        setLinkedClipFiles(linked);
+        return;
+      }
+      applyProjectFile(pendingProject, linked);
+      setPendingProject(null);
+      setLinkedClipFiles([]);
+      setRecoverableSession(null);
+      return;
+    }
+    setRecoverableSession(null);
+    discardAutosavedVideos();
+    // Clicks may have been imported before the video; they belong to this first clip
+    const clip: ProjectClip = {
+      id: crypto.randomUUID(),
+      file,
+      duration: 0,
+      document: getDocument(),
+      transitionToNext: DEFAULT_CLIP_TRANSITION,
+    };
+    setClips([clip]);
+    setActiveClipId(clip.id);
+    setVideoFile(file);
+  };
+
+  const recoverSession = () => {
+    if (!recoverableSession) return;
+    const { session, clipFiles, webcamFiles } = recoverableSession;
+    const restored: ProjectClip[] = session.clips.map(clip => ({
+      id: clip.id,
+      file: clipFiles[clip.id],
+      duration: clip.duration,
+      document: restoreDocument(clip.document),
+      transitionToNext: { ...DEFAULT_CLIP_TRANSITION, ...clip.transitionToNext },
+      webcamFile: webcamFiles[clip.id],
+      webcamSource: clip.webcamSource,
+    }));
+    clipHistories.current.clear();
+    setClips(restored);
+    openClip(restored.find(clip => clip.id === session.activeClipId) ?? restored[0]);
+    setExportSettings({ ...DEFAULT_EXPORT_SETTINGS, ...session.exportSettings });
+    setStageSettings({ ...DEFAULT_STAGE_SETTINGS, ...session.stage });
+    setProjectMeta({ id: session.projectId, name: session.name, createdAt: new Date(session.createdAt) });
+    setPendingProject(null);
+    setRecoverableSession(null);
+  };
+
+  const discardSession = () => {
+    setRecoverableSession(null);
+    clearAutosave().catch(e => console.warn('Clearing autosave failed:', e));
+  };
+
+  const exportReadyZooms = useMemo(() => getExportReadyZooms(zoomEffects, duration), [zoomEffects, duration]);
+  // What preview and export draw: cursor-follow zooms get their camera path baked in
+  const renderZooms = useMemo(() => applyCursorFollow(cutZooms(exportReadyZooms, cuts), cursorTrack, zoomSettings), [exportReadyZooms, cuts, cursorTrack, zoomSettings]);
+  const keystrokeOverlays = useMemo(() => getKeystrokeOverlays(keystrokes, keystrokeSettings), [keystrokes, keystrokeSettings]);
+  useEffect(() => {
+    let cancelled = false;
+    preloadOverlayImages(imageOverlays)
+      .catch(e => console.warn('Overlay image failed to load:', e))
+      .finally(() => { if (!cancelled) setReadyImageOverlays(imageOverlays); });
+    return () => { cancelled = true; };
+  }, [imageOverlays]);
+  const scene: FrameScene = useMemo(() => cutScene({
+    zoomEffects: renderZooms,
+    spotlights,
+    zoomSettings,
+    textOverlays,
+    annotations,
+    imageOverlays: readyImageOverlays,
+    cursorTrack,
+    cursorSettings,
+    keystrokeOverlays,
+    redactions,
+    reframeKeyframes,
+    webcamSettings,
+    webcamHides,
+  }, cuts), [renderZooms, spotlights, zoomSettings, textOverlays, annotations, readyImageOverlays, cursorTrack, cursorSettings, keystrokeOverlays, redactions, reframeKeyframes, webcamSettings, webcamHides, cuts]);
+  // Scenes for the other clips are only needed while exporting
+  const exportClips: ExportClip[] = useMemo(() => !showExportModal ? [] : currentClips.map(clip => ({
+    ...clip,
+    scene: clip.id === activeClipId ? scene : getClipScene(clip.document, clip.duration),
+  })), [showExportModal, currentClips, activeClipId, scene]);
 
   if (!videoFile) {
     return (
       <div>
         <FileImport
-          onFileSelect={setVideoFile}
+          onFileSelect={handleVideoFileSelect}
           onClicksImport={handleClicksImport}
+          onProjectOpen={openProject}
+          pendingProject={pendingProject}
+          pendingClipIndex={linkedClipFiles.length}
+          onCancelPendingProject={() => { setPendingProject(null); setLinkedClipFiles([]); }}
+          recoverableSession={recoverableSession}
+          onRecoverSession={recoverSession}
+          onDiscardSession={discardSession}
           ffmpegStatus={ffmpegStatus}
           onFfmpegCheck={checkFfmpegFiles}
         />
@@ -219,6 +1205,12 @@ export const VideoEditor: React.FC = () => {
         videoFile={videoFile}
         onExport={() => setShowExportModal(true)}
         onNewProject={resetProject}
+        onSaveProject={saveProject}
+        onOpenProject={openProject}
+        onUndo={undo}
+        onRedo={redo}
+        undoLabel={history.undoLabel}
+        redoLabel={history.redoLabel}
         onClicksImport={handleClicksImport}
         onScreenrecorder={() => window.open('set.html', '_blank')}
       />
@@ -233,6 +1225,25 @@ export const VideoEditor: React.FC = () => {
               selectedZoom={selectedZoom}
               onUpdateZoom={updateZoomEffect}
               onDeleteZoom={deleteZoomEffect}
+              onEditStart={history.beginGroup}
+              onEditEnd={history.endGroup}
+              currentTime={currentTime}
+              selectedKeyframeId={selectedKeyframeId}
+              onSelectKeyframe={setSelectedKeyframeId}
+              onAddKeyframe={() => selectedZoom && addKeyframe(selectedZoom, currentTime)}
+              onDeleteKeyframe={(keyframeId) => selectedZoom && deleteKeyframe(selectedZoom.id, keyframeId)}
+              zoomSettings={zoomSettings}
+              onUpdateZoomSettings={updateZoomSettings}
+              hasCursorTrack={cursorTrack.length > 0}
+              spotlights={spotlights}
+              selectedSpotlight={selectedSpotlight}
+              onSelectSpotlight={selectSpotlight}
+              onAddSpotlight={addSpotlight}
+              onUpdateSpotlight={updateSpotlight}
+              onDeleteSpotlight={deleteSpotlight}
+              onSuggestZooms={suggestZooms}
+              onCancelSuggest={() => { suggestCancelled.current = true; }}
+              suggestProgress={suggestProgress}
               onAddZoom={() => {
                 const startTime = currentTime;
                 const endTime = Math.min(currentTime + 2.0, duration);
@@ -250,6 +1261,100 @@ export const VideoEditor: React.FC = () => {
               duration={duration}
               setPreviewText={setPreviewText}
             />
+
+            <AnnotationControls
+              annotations={annotations}
+              selectedAnnotation={selectedAnnotation}
+              onSelectAnnotation={setSelectedAnnotationId}
+              onUpdateAnnotation={updateAnnotation}
+              onDeleteAnnotation={deleteAnnotation}
+              drawKind={annotationDrawKind}
+              onDrawKindChange={startAnnotationDrawing}
+              duration={duration}
+            />
+
+            <ImageOverlayControls
+              imageOverlays={imageOverlays}
+              selectedImageOverlay={selectedImageOverlay}
+              onSelectImageOverlay={setSelectedImageOverlayId}
+              onAddImageOverlay={addImageOverlay}
+              onUpdateImageOverlay={updateImageOverlay}
+              onDeleteImageOverlay={deleteImageOverlay}
+              onPlaceInCorner={placeImageOverlay}
+              duration={duration}
+            />
+
+            <WebcamControls
+              webcamName={webcamFile?.name ?? null}
+              expectedName={clips.find(clip => clip.id === activeClipId)?.webcamSource?.name ?? null}
+              onAttachWebcam={attachWebcam}
+              onRemoveWebcam={removeWebcam}
+              webcamSettings={webcamSettings}
+              onUpdateWebcamSettings={updateWebcamSettings}
+              hides={webcamHides}
+              onAddHide={addWebcamHide}
+              onUpdateHide={updateWebcamHide}
+              onDeleteHide={deleteWebcamHide}
+              onSeek={handleSeek}
+              duration={duration}
+            />
+
+            <RedactionControls
+              redactions={redactions}
+              selectedRedactionId={selectedRedactionId}
+              onSelectRedaction={(id) => selectRedaction(id)}
+              selectedKeyframeId={selectedRedactionKeyframeId}
+              onSelectKeyframe={setSelectedRedactionKeyframeId}
+              onUpdateRedaction={updateRedaction}
+              onDeleteRedaction={deleteRedaction}
+              onAddKeyframe={addRedactionKeyframe}
+              onDeleteKeyframe={deleteRedactionKeyframe}
+              drawMode={redactionDrawMode}
+              onDrawModeChange={startRedactionDrawing}
+              currentTime={currentTime}
+              duration={duration}
+            />
+
+            <CursorControls
+              cursorSettings={cursorSettings}
+              onUpdateCursorSettings={updateCursorSettings}
+              hasCursorTrack={cursorTrack.length > 0}
+            />
+
+            <KeystrokeControls
+              keystrokeSettings={keystrokeSettings}
+              onUpdateKeystrokeSettings={updateKeystrokeSettings}
+              keystrokeCount={keystrokes.length}
+              badgeCount={keystrokeOverlays.length}
+            />
+
+            <StageControls
+              stageSettings={stageSettings}
+              onUpdateStageSettings={updateStageSettings}
+              onPickWallpaper={pickStageWallpaper}
+            />
+
+            <ReframeControls
+              aspect={exportSettings.aspectRatio}
+              follow={exportSettings.reframeFollow}
+              onChange={(updates) => setExportSettings(prev => ({ ...prev, ...updates }))}
+              keyframes={reframeKeyframes}
+              selectedKeyframeId={selectedReframeKeyframeId}
+              onSelectKeyframe={setSelectedReframeKeyframeId}
+              onAddKeyframe={addReframeKeyframe}
+              onUpdateKeyframe={updateReframeKeyframe}
+              onDeleteKeyframe={deleteReframeKeyframe}
+              onSeek={handleSeek}
+            />
+
+            <SilenceControls
+              options={silenceOptions}
+              onUpdateOptions={(updates) => setSilenceOptions(prev => ({ ...prev, ...updates }))}
+              onDetect={suggestCuts}
+              isDetecting={isDetectingSilence}
+              suggestionCount={cutSuggestions.length}
+              suggestedSeconds={cutSuggestions.reduce((total, cut) => total + cut.endTime - cut.startTime, 0)}
+            />
           </div>
         </div>
         
@@ -263,21 +1368,25 @@ export const VideoEditor: React.FC = () => {
             onLoadedMetadata={(duration) => setDuration(duration)}
             onPlay={handlePlay}
             onPause={handlePause}
-            currentZoom={(() => {
-              const sortedZooms = [...zoomEffects].sort((a, b) => a.startTime - b.startTime);
-              const interpolatedZoom = getInterpolatedZoom(currentTime, sortedZooms);
-              
-              // Only return zoom if it's an actual zoom effect, not the default state
-              // This allows VideoPlayer to properly handle zoom out when currentZoom is null
-              if (interpolatedZoom.id === 'default' && interpolatedZoom.scale === 1.0) {
-                return null; // No zoom effect - VideoPlayer will handle zoom out
-              }
-              return interpolatedZoom;
-            })()}
-            zoomEffectsVersion={zoomEffectsVersion} // Force preview updates when zoom effects change
-            textOverlays={textOverlays}
+            scene={scene}
+            webcamSrc={webcamUrl}
+            stageSettings={stageSettings}
+            reframe={{ aspect: exportSettings.aspectRatio, follow: exportSettings.reframeFollow }}
             previewTextOverlay={previewTextOverlay}
+            cuts={cuts}
+            speedRamps={speedRamps}
+            selectedRedaction={selectedRedaction}
+            onPreviewDrag={redactionDrawMode ? handleRedactionDrawn : annotationDrawKind ? handleAnnotationDrawn : null}
+            previewDragGuide={annotationDrawKind && annotationDrawKind !== 'rectangle' && annotationDrawKind !== 'circle' ? 'line' : 'box'}
             onVideoClick={(x, y) => {
+              if (selectedSpotlight) {
+                updateSpotlight(selectedSpotlight.id, { x, y });
+                return;
+              }
+              if (selectedReframeKeyframeId && exportSettings.aspectRatio !== 'source' && exportSettings.reframeFollow === 'manual') {
+                updateReframeKeyframe(selectedReframeKeyframeId, { x, y });
+                return;
+              }
               if (zoomEnabled && !selectedZoom) {
                 const startTime = currentTime;
                 const endTime = Math.min(currentTime + 2.0, duration);
@@ -286,14 +1395,49 @@ export const VideoEditor: React.FC = () => {
             }}
           />
           <Timeline
+            clips={currentClips}
+            activeClipId={activeClipId!}
+            onSelectClip={switchClip}
+            onAddClips={addClips}
+            onMoveClip={moveClip}
+            onRemoveClip={removeClip}
+            onUpdateClipTransition={updateClipTransition}
             duration={duration}
             currentTime={currentTime}
             onSeek={handleSeek}
-            zoomEffects={getExportReadyZooms(zoomEffects, duration)}
+            zoomEffects={exportReadyZooms}
+            zoomSettings={zoomSettings}
             selectedZoom={selectedZoom}
-            onSelectZoom={setSelectedZoom}
+            onSelectZoom={(zoom) => selectZoom(zoom)}
+            selectedKeyframeId={selectedKeyframeId}
+            onSelectKeyframe={selectZoom}
+            onAddKeyframe={addKeyframe}
             onUpdateZoom={updateZoomEffect}
             onDeleteZoom={deleteZoomEffect}
+            onResolveOverlap={resolveOverlap}
+            onResolveAllOverlaps={resolveAllOverlaps}
+            suggestions={zoomSuggestions}
+            onAcceptSuggestions={acceptSuggestions}
+            onDismissSuggestions={dismissSuggestions}
+            cuts={cuts}
+            speedRamps={speedRamps}
+            annotations={annotations}
+            selectedAnnotationId={selectedAnnotationId}
+            onSelectAnnotation={setSelectedAnnotationId}
+            onUpdateAnnotation={updateAnnotation}
+            cutMarks={cutMarks}
+            onMarkCut={(edge) => setCutMarks(prev => ({ ...prev, [edge]: currentTime }))}
+            onClearCutMarks={() => setCutMarks({ in: null, out: null })}
+            onCutMarked={cutMarkedRange}
+            onRestoreCut={restoreCut}
+            onSpeedMarked={speedMarkedRange}
+            onUpdateSpeedRamp={updateSpeedRamp}
+            onRemoveSpeedRamp={removeSpeedRamp}
+            cutSuggestions={cutSuggestions}
+            onAcceptCutSuggestions={acceptCutSuggestions}
+            onDismissCutSuggestions={dismissCutSuggestions}
+            onEditStart={history.beginGroup}
+            onEditEnd={history.endGroup}
             isPlaying={isPlaying}
             onPlay={handlePlay}
             onPause={handlePause}
@@ -303,15 +1447,27 @@ export const VideoEditor: React.FC = () => {
 
       {showExportModal && (
         <ExportModal
-          videoFile={videoFile}
-          zoomEffects={getExportReadyZooms(zoomEffects, duration)}
-          textOverlays={textOverlays}
-          duration={duration}
+          clips={exportClips}
+          activeClipId={activeClipId!}
+          exportSettings={exportSettings}
+          onExportSettingsChange={setExportSettings}
+          stageSettings={stageSettings}
           onClose={() => setShowExportModal(false)}
           videoPlayerRef={videoRef}
         />
       )}
 
+      {pendingClicks && (
+        <AutoZoomPreview
+          clicksData={pendingClicks}
+          duration={duration}
+          zoomEffects={zoomEffects}
+          overlapStrategy={zoomSettings.importOverlapStrategy}
+          onApply={applyAutoZooms}
+          onCancel={() => setPendingClicks(null)}
+        />
+      )}
+
 
     </div>
   );
@@ -1,8 +1,13 @@
-import React, { forwardRef, useEffect, useRef, useState, useImperativeHandle } from 'react';
+import React, { forwardRef, useCallback, useEffect, useRef, useState, useImperativeHandle } from 'react';
 import { Play, Pause, Volume2, Maximize, VolumeX } from 'lucide-react';
-import { ZoomEffect, TextOverlay } from '../types';
-
-const DEBUG_CAPTURE = false;
+import { ZoomEffect, TextOverlay, CutRange, SpeedRamp, RedactionRegion, StageSettings, ReframeAspect, ReframeFollow } from '../types';
+import { getExportInterpolatedZoom, getZoomViewport } from '../utils/zoomInterpolation';
+import { drawFrameToCanvas, FrameScene } from '../utils/frameRenderer';
+import { findCutAt, findRampAt } from '../utils/timeMap';
+import { getRedactionRect } from '../utils/redaction';
+import { drawStage, getStageAspect, getStageContentRect } from '../utils/stage';
+import { loadOverlayImage } from '../utils/imageOverlay';
+import { getReframeAspect, getReframeCrop, getReframeFocus } from '../utils/reframe';
 
 interface VideoPlayerProps {
   src: string;
@@ -12,12 +17,27 @@ interface VideoPlayerProps {
   onLoadedMetadata: (duration: number) => void;
   onPlay: () => void;
   onPause: () => void;
-  currentZoom: ZoomEffect | null;
-  zoomEffectsVersion?: number; // Force preview updates when zoom effects change
-  textOverlays: TextOverlay[];
+  scene: FrameScene; // drawn with the same renderer as export
+  webcamSrc?: string | null; // the clip's webcam video, drawn as a bubble
+  stageSettings: StageSettings; // wallpaper the recording is inset on, if enabled
+  reframe: { aspect: ReframeAspect; follow: ReframeFollow }; // export crop, outlined as a guide
+  cuts: CutRange[]; // skipped during playback
+  speedRamps: SpeedRamp[]; // played at their speed during playback
   previewTextOverlay?: TextOverlay | null;
   onVideoClick: (x: number, y: number) => void;
   onSeeked?: () => void;
+  selectedRedaction?: RedactionRegion | null; // outlined on the preview
+  // Set while the user is placing something by dragging on the preview (a redaction box, an annotation)
+  onPreviewDrag?: ((drag: PreviewDrag) => void) | null;
+  previewDragGuide?: 'box' | 'line'; // what to show under the pointer while dragging
+}
+
+/** A drag on the preview, in source percentages; the zoom on screen is already undone. */
+export interface PreviewDrag {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
 }
 
 export interface VideoPlayerRef {
@@ -25,19 +45,27 @@ export interface VideoPlayerRef {
   pause: () => void;
   seek: (time: number) => void;
   seekAndWait: (time: number) => Promise<void>;
-  captureFrameCanvas: (zoomEffects: ZoomEffect[], textOverlays: TextOverlay[]) => Promise<HTMLCanvasElement>;
-  captureFrame: (zoomEffects: ZoomEffect[], textOverlays: TextOverlay[]) => Promise<Blob>;
+  /** The decoding <video>; export draws it through the shared frame renderer */
+  getVideoElement: () => HTMLVideoElement | null;
   /** NEW: lock UI + pause during export, update overlay %, then unlock */
   beginExport: () => void;
   updateExportProgress: (percent: number, message?: string) => void;
   endExport: () => void;
 }
 
+// Seek the webcam only once it has drifted this far, so playback isn't interrupted by tiny corrections
+const WEBCAM_PLAYING_DRIFT = 0.15; // seconds
+const WEBCAM_PAUSED_DRIFT = 0.02;
+
 export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
-  ({ src, currentTime, isPlaying, onTimeUpdate, onLoadedMetadata, onPlay, onPause, currentZoom, zoomEffectsVersion, textOverlays, previewTextOverlay, onVideoClick, onSeeked }, ref) => {
+  ({ src, currentTime, isPlaying, onTimeUpdate, onLoadedMetadata, onPlay, onPause, scene, webcamSrc, stageSettings, reframe, previewTextOverlay, cuts, speedRamps, onVideoClick, onSeeked, selectedRedaction, onPreviewDrag, previewDragGuide = 'box' }, ref) => {
     const videoRef = useRef<HTMLVideoElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const webcamRef = useRef<HTMLVideoElement>(null);
+    // Offscreen: the recording is rendered here before it is placed on the stage
+    const stageContentRef = useRef<HTMLCanvasElement | null>(null);
     const containerRef = useRef<HTMLDivElement>(null);
-    const videoWrapperRef = useRef<HTMLDivElement>(null);
+    const stageRef = useRef<HTMLDivElement>(null);
 
     const [volume, setVolume] = useState(1);
     const [isMuted, setIsMuted] = useState(false);
@@ -45,105 +73,100 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
     const [isVideoReady, setIsVideoReady] = useState(false);
     const [videoError, setVideoError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
+    const [videoSize, setVideoSize] = useState({ width: 16, height: 9 });
+    const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+    // Drag in progress on the preview, in fractions of the displayed canvas
+    const [drawBox, setDrawBox] = useState<{ u0: number; v0: number; u1: number; v1: number } | null>(null);
 
     // Export lock + UI
     const [exportOverlay, setExportOverlay] = useState<{active: boolean; percent: number; message: string}>({
       active: false, percent: 0, message: 'Preparing…'
     });
     const suppressTimeUpdateRef = useRef(false);
-    const lastZoomPositionRef = useRef<{x: number, y: number} | null>(null);
 
-    /** drawer that returns a fully drawn canvas (no ImageData) */
-    const drawFrameToCanvas = async (zoomEffects: ZoomEffect[], overlays: TextOverlay[]) => {
-      if (!videoRef.current || !isVideoReady) throw new Error('Video not ready for capture');
+    // Latest scene for the render loop, so prop changes don't restart requestVideoFrameCallback
+    const sceneRef = useRef<{ scene: FrameScene; stage: StageSettings; draft: TextOverlay | null }>({ scene, stage: stageSettings, draft: null });
+    sceneRef.current = { scene, stage: stageSettings, draft: previewTextOverlay ?? null };
+    const cutsRef = useRef(cuts);
+    cutsRef.current = cuts;
+    const rampsRef = useRef(speedRamps);
+    rampsRef.current = speedRamps;
+    const rampMutedRef = useRef(false);
+    const audioRef = useRef({ volume, isMuted });
+    audioRef.current = { volume, isMuted };
+
+    /** Jump over a cut the playhead has run into; returns true when it moved. */
+    const skipCut = useCallback((time: number) => {
       const video = videoRef.current;
+      const cut = findCutAt(time, cutsRef.current);
+      if (!video || !cut) return false;
+      if (cut.end >= video.duration) video.pause();
+      else video.currentTime = cut.end;
+      return true;
+    }, []);
 
-      await new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
-
-      const W = video.videoWidth;
-      const H = video.videoHeight;
-
-      const frameCanvas = document.createElement('canvas');
-      frameCanvas.width = W;
-      frameCanvas.height = H;
-      const frameCtx = frameCanvas.getContext('2d', { willReadFrequently: true, alpha: false })!;
-      frameCtx.clearRect(0, 0, W, H);
-
-      // base frame
-      frameCtx.drawImage(video, 0, 0, W, H);
-
-      // zoom via source rect
-      const zoom = zoomEffects[0];
-      if (zoom) {
-        const bmp = await createImageBitmap(frameCanvas);
-        const cx = (zoom.x / 100) * W;
-        const cy = (zoom.y / 100) * H;
-        const sw = W / zoom.scale;
-        const sh = H / zoom.scale;
-        const sx = Math.max(0, Math.min(W - sw, cx - sw / 2));
-        const sy = Math.max(0, Math.min(H - sh, cy - sh / 2));
-        frameCtx.clearRect(0, 0, W, H);
-        frameCtx.drawImage(bmp, sx, sy, sw, sh, 0, 0, W, H);
-        bmp.close?.();
-
-        if (DEBUG_CAPTURE) {
-          console.debug('[captureFrameCanvas] zoom', { x: zoom.x, y: zoom.y, scale: zoom.scale, srcRect: { sx, sy, sw, sh } });
-        }
-      }
-
-      // overlays
-      if (overlays.length > 0) {
-        frameCtx.textAlign = 'center';
-        frameCtx.textBaseline = 'middle';
-        for (const overlay of overlays) {
-          const text = overlay.text || '';
-          const lines = text.split('\n');
-          const fontSize = overlay.fontSize || 24;
-          const fontFamily = overlay.fontFamily || 'Arial';
-          const color = overlay.color || '#ffffff';
-          const backgroundColor = overlay.backgroundColor || 'transparent';
-          const padding = overlay.padding || 8;
-          const borderRadius = overlay.borderRadius || 4;
-          const lineHeight = 1.2;
-
-          frameCtx.font = `bold ${fontSize}px ${fontFamily}, sans-serif`;
-
-          const metrics = lines.map((line) => frameCtx.measureText(line));
-          const maxWidth = Math.max(...metrics.map((m) => m.width));
-          const totalTextHeight = lines.length * fontSize * lineHeight;
-
-          const rectWidth = maxWidth + 2 * padding;
-          const rectHeight = totalTextHeight + 2 * padding;
-          const xPos = (overlay.x / 100) * W;
-          const yPos = (overlay.y / 100) * H;
-          const rectX = xPos - rectWidth / 2;
-          const rectY = yPos - rectHeight / 2;
-
-          if (backgroundColor && backgroundColor !== 'transparent') {
-            frameCtx.fillStyle = backgroundColor;
-            frameCtx.beginPath();
-            if ('roundRect' in frameCtx && borderRadius > 0) {
-              (frameCtx as CanvasRenderingContext2D).roundRect(rectX, rectY, rectWidth, rectHeight, borderRadius);
-            } else {
-              frameCtx.rect(rectX, rectY, rectWidth, rectHeight);
-            }
-            frameCtx.fill();
-          }
-
-          frameCtx.fillStyle = color;
-          frameCtx.strokeStyle = 'black';
-          frameCtx.lineWidth = fontSize * 0.05;
+    /** Match playback rate and audio to the speed ramp under the playhead. */
+    const applySpeedRamp = useCallback((time: number) => {
+      const video = videoRef.current;
+      if (!video) return;
+      const ramp = findRampAt(time, rampsRef.current);
+      const rate = ramp?.speed ?? 1;
+      if (video.playbackRate !== rate) video.playbackRate = rate;
+      rampMutedRef.current = !!ramp?.muteAudio;
+      const { volume, isMuted } = audioRef.current;
+      video.volume = isMuted || rampMutedRef.current ? 0 : volume;
+    }, []);
 
-          lines.forEach((line, index) => {
-            const lineY = yPos - totalTextHeight / 2 + index * fontSize * lineHeight + (fontSize * lineHeight) / 2;
-            frameCtx.strokeText(line, xPos, lineY);
-            frameCtx.fillText(line, xPos, lineY);
-          });
-        }
+    /** Keep the webcam video at `time` plus the sync offset; returns its frame once it can be drawn there. */
+    const syncWebcam = useCallback((time: number, playing: boolean) => {
+      const cam = webcamRef.current;
+      const { webcamSettings } = sceneRef.current.scene;
+      if (!cam || !cam.getAttribute('src') || !webcamSettings.enabled || !cam.duration) return null;
+      const target = time + webcamSettings.offset;
+      if (target < 0 || target > cam.duration) {
+        if (!cam.paused) cam.pause();
+        return null;
       }
+      const rate = videoRef.current?.playbackRate ?? 1;
+      if (cam.playbackRate !== rate) cam.playbackRate = rate;
+      if (Math.abs(cam.currentTime - target) > (playing ? WEBCAM_PLAYING_DRIFT : WEBCAM_PAUSED_DRIFT)) cam.currentTime = target;
+      if (playing && cam.paused) cam.play().catch(() => {});
+      if (!playing && !cam.paused) cam.pause();
+      if (cam.readyState < 2 || !cam.videoWidth) return null;
+      return { image: cam, width: cam.videoWidth, height: cam.videoHeight };
+    }, []);
 
-      return frameCanvas;
-    };
+    /** Draw the current video frame through the same renderer export uses */
+    const renderPreview = useCallback((time: number) => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas || video.readyState < 2 || !video.videoWidth) return;
+      const { scene, stage, draft } = sceneRef.current;
+      const videoAspect = video.videoWidth / video.videoHeight;
+      const width = Math.round(video.videoHeight * getStageAspect(stage, videoAspect));
+      if (canvas.width !== width || canvas.height !== video.videoHeight) {
+        canvas.width = width;
+        canvas.height = video.videoHeight;
+      }
+      const ctx = canvas.getContext('2d', { alpha: false });
+      if (!ctx) return;
+      const source = { image: video, width: video.videoWidth, height: video.videoHeight };
+      const webcam = syncWebcam(time, !video.paused);
+      if (!stage.enabled) {
+        drawFrameToCanvas(ctx, source, time, scene, { draftOverlay: draft, webcam });
+        return;
+      }
+      const rect = getStageContentRect(stage, canvas.width, canvas.height, videoAspect);
+      const content = (stageContentRef.current ??= document.createElement('canvas'));
+      if (content.width !== rect.width || content.height !== rect.height) {
+        content.width = rect.width;
+        content.height = rect.height;
+      }
+      const contentCtx = content.getContext('2d', { alpha: false });
+      if (!contentCtx) return;
+      drawFrameToCanvas(contentCtx, source, time, scene, { draftOverlay: draft, webcam });
+      drawStage(ctx, stage, content, rect);
+    }, [syncWebcam]);
 
     useImperativeHandle(ref, () => ({
       play: () => { if (videoRef.current && isVideoReady && !exportOverlay.active) videoRef.current.play().catch(console.error); },
@@ -158,12 +181,7 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
           video.currentTime = time;
         });
       },
-      captureFrameCanvas: async (zoomEffects, overlays) => drawFrameToCanvas(zoomEffects, overlays),
-      captureFrame: async (zoomEffects, overlays) => {
-        const c = await drawFrameToCanvas(zoomEffects, overlays);
-        const blob: Blob = await new Promise((resolve) => c.toBlob((b) => resolve(b as Blob), 'image/jpeg', 0.92));
-        return blob;
-      },
+      getVideoElement: () => videoRef.current,
       // NEW: export lock API
       beginExport: () => {
         videoRef.current?.pause();
@@ -184,6 +202,7 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
       if (!video) return;
 
       const handleLoadedMetadata = () => {
+        setVideoSize({ width: video.videoWidth || 16, height: video.videoHeight || 9 });
         setIsVideoReady(true);
         setVideoError(null);
         setIsLoading(false);
@@ -196,7 +215,9 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
 
       const handlePlay = () => onPlay();
       const handlePause = () => onPause();
-      const handleLoadedData = () => setIsVideoReady(true);
+      const handleLoadedData = () => { setIsVideoReady(true); renderPreview(video.currentTime); };
+      // Export seeks frame by frame; the blocking overlay hides the preview meanwhile
+      const handleSeeked = () => { if (!suppressTimeUpdateRef.current) renderPreview(video.currentTime); };
       const handleError = (e: Event) => {
         console.error('Video loading error:', e, video.error, video.src);
         const msg = video.error?.message || 'Unknown error';
@@ -209,6 +230,7 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
       video.addEventListener('play', handlePlay);
       video.addEventListener('pause', handlePause);
       video.addEventListener('loadeddata', handleLoadedData);
+      video.addEventListener('seeked', handleSeeked);
       video.addEventListener('error', handleError);
 
       return () => {
@@ -217,9 +239,10 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
         video.removeEventListener('play', handlePlay);
         video.removeEventListener('pause', handlePause);
         video.removeEventListener('loadeddata', handleLoadedData);
+        video.removeEventListener('seeked', handleSeeked);
         video.removeEventListener('error', handleError);
       };
-    }, [src, onTimeUpdate, onLoadedMetadata, onPlay, onPause]);
+    }, [src, onTimeUpdate, onLoadedMetadata, onPlay, onPause, renderPreview]);
 
     useEffect(() => { setIsVideoReady(false); setVideoError(null); setIsLoading(true); }, [src]);
 
@@ -234,42 +257,153 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
       if (Math.abs(v.currentTime - currentTime) > 0.1) v.currentTime = currentTime;
     }, [currentTime, isVideoReady]);
 
-    useEffect(() => { const v = videoRef.current; if (v) v.volume = isMuted ? 0 : volume; }, [volume, isMuted]);
+    useEffect(() => { const v = videoRef.current; if (v) v.volume = isMuted || rampMutedRef.current ? 0 : volume; }, [volume, isMuted]);
 
-    // SMOOTH ZOOM TRANSITIONS - Natural smooth feel, no specific path types
+    // Playback: draw every decoded frame at its exact media time
     useEffect(() => {
-      if (videoWrapperRef.current) {
-        if (currentZoom) {
-          const { x, y, scale } = currentZoom;
-          
-          // Store zoom position for smooth zoom out
-          lastZoomPositionRef.current = { x, y };
-          
-          // SMOOTH ZOOM IN - Natural smooth transition to target point
-          videoWrapperRef.current.style.transform = `scale(${scale.toFixed(3)})`;
-          videoWrapperRef.current.style.transformOrigin = `${x}% ${y}%`;
-          videoWrapperRef.current.style.transition = 'transform 0.4s cubic-bezier(0.4, 0.0, 0.2, 1)'; // SUPER SMOOTH, no jerks
-          videoWrapperRef.current.style.willChange = 'transform';
-        } else {
-          // SMOOTH ZOOM OUT - Natural smooth transition FROM ZOOM SPOT back to fullscreen
-          const lastPos = lastZoomPositionRef.current || { x: 50, y: 50 };
-          
-          // Smooth transition: scale down FROM THE ZOOM SPOT (not center)
-          videoWrapperRef.current.style.transform = 'scale(1)';
-          videoWrapperRef.current.style.transformOrigin = `${lastPos.x}% ${lastPos.y}%`; // FROM ZOOM SPOT
-          videoWrapperRef.current.style.transition = 'transform 0.4s cubic-bezier(0.4, 0.0, 0.2, 1)'; // SUPER SMOOTH, no jerks
-          videoWrapperRef.current.style.willChange = 'auto';
-        }
+      const video = videoRef.current;
+      if (!video || !isPlaying || exportOverlay.active) return;
+      if (typeof video.requestVideoFrameCallback === 'function') {
+        let handle = 0;
+        const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+          if (!skipCut(metadata.mediaTime)) {
+            applySpeedRamp(metadata.mediaTime);
+            renderPreview(metadata.mediaTime);
+          }
+          handle = video.requestVideoFrameCallback(onFrame);
+        };
+        handle = video.requestVideoFrameCallback(onFrame);
+        return () => video.cancelVideoFrameCallback(handle);
       }
-    }, [currentZoom?.id, currentZoom?.startTime, currentZoom?.endTime, zoomEffectsVersion]); // Force update when zoom effects change
+      let frame = 0;
+      const tick = () => {
+        if (!skipCut(video.currentTime)) {
+          applySpeedRamp(video.currentTime);
+          renderPreview(video.currentTime);
+        }
+        frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+      return () => cancelAnimationFrame(frame);
+    }, [isPlaying, exportOverlay.active, renderPreview, skipCut, applySpeedRamp]);
+
+    // Paused: redraw whenever the scene or position changes
+    useEffect(() => {
+      const video = videoRef.current;
+      if (!video || isPlaying || exportOverlay.active || !isVideoReady) return;
+      renderPreview(video.currentTime);
+    }, [currentTime, isPlaying, exportOverlay.active, isVideoReady, renderPreview, scene, stageSettings, previewTextOverlay, webcamSrc]);
 
-    const handleVideoClick = (e: React.MouseEvent<HTMLVideoElement>) => {
+    // Paused, the webcam catches up with a seek of its own; repaint when it lands
+    useEffect(() => {
+      const cam = webcamRef.current;
+      if (!cam || !webcamSrc) return;
+      const repaint = () => {
+        const video = videoRef.current;
+        if (video && video.paused && !suppressTimeUpdateRef.current) renderPreview(video.currentTime);
+      };
+      cam.addEventListener('loadeddata', repaint);
+      cam.addEventListener('seeked', repaint);
+      return () => {
+        cam.removeEventListener('loadeddata', repaint);
+        cam.removeEventListener('seeked', repaint);
+      };
+    }, [webcamSrc, renderPreview]);
+
+    useEffect(() => {
+      if (!isPlaying || exportOverlay.active) webcamRef.current?.pause();
+    }, [isPlaying, exportOverlay.active]);
+
+    // An image wallpaper decodes asynchronously; repaint once it can be drawn
+    useEffect(() => {
+      if (!stageSettings.imageSrc) return;
+      let cancelled = false;
+      loadOverlayImage(stageSettings.imageSrc)
+        .then(() => { if (!cancelled && videoRef.current) renderPreview(videoRef.current.currentTime); })
+        .catch(e => console.warn('Stage wallpaper failed to load:', e));
+      return () => { cancelled = true; };
+    }, [stageSettings.imageSrc, renderPreview]);
+
+    // Fit the canvas into the available space at the video's aspect ratio
+    useEffect(() => {
+      const stage = stageRef.current;
+      if (!stage) return;
+      const observer = new ResizeObserver(([entry]) => {
+        setStageSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+      });
+      observer.observe(stage);
+      return () => observer.disconnect();
+    }, []);
+
+    // On a stage the canvas takes the output's shape and the recording sits in `contentRect`
+    const videoAspect = videoSize.width / videoSize.height;
+    const outputWidth = Math.round(videoSize.height * getStageAspect(stageSettings, videoAspect));
+    const contentRect = getStageContentRect(stageSettings, outputWidth, videoSize.height, videoAspect);
+    // Export crop at the playhead; the preview keeps the full frame and dims the rest
+    const reframeAspect = getReframeAspect(reframe.aspect);
+    const reframeGuide = reframeAspect
+      ? getReframeCrop(getReframeFocus(scene, currentTime, reframe.follow), contentRect, outputWidth, videoSize.height, reframeAspect)
+      : null;
+    const fit = Math.min(stageSize.width / outputWidth, stageSize.height / videoSize.height) || 0;
+    const displayWidth = Math.floor(outputWidth * fit);
+    const displayHeight = Math.floor(videoSize.height * fit);
+
+    // Viewport currently on screen, to map clicks and markers back to source coordinates
+    const shownZoom = getExportInterpolatedZoom(currentTime, scene.zoomEffects, scene.zoomSettings);
+    const shownViewport = getZoomViewport(shownZoom ?? { x: 50, y: 50, scale: 1 });
+
+    const handleCanvasClick = (e: React.MouseEvent<HTMLDivElement>) => {
       const rect = e.currentTarget.getBoundingClientRect();
-      const x = ((e.clientX - rect.left) / rect.width) * 100;
-      const y = ((e.clientY - rect.top) / rect.height) * 100;
+      const u = (e.clientX - rect.left) / rect.width;
+      const v = (e.clientY - rect.top) / rect.height;
+      const x = (shownViewport.left + u * shownViewport.width) * 100;
+      const y = (shownViewport.top + v * shownViewport.height) * 100;
       onVideoClick(x, y);
     };
 
+    const getCanvasPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      return {
+        u: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+        v: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+      };
+    };
+
+    const handleDrawStart = (e: React.PointerEvent<HTMLDivElement>) => {
+      const { u, v } = getCanvasPoint(e);
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrawBox({ u0: u, v0: v, u1: u, v1: v });
+    };
+
+    const handleDrawMove = (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!drawBox) return;
+      const { u, v } = getCanvasPoint(e);
+      setDrawBox({ ...drawBox, u1: u, v1: v });
+    };
+
+    const handleDrawEnd = () => {
+      if (!drawBox) return;
+      setDrawBox(null);
+      onPreviewDrag?.({
+        x1: (shownViewport.left + drawBox.u0 * shownViewport.width) * 100,
+        y1: (shownViewport.top + drawBox.v0 * shownViewport.height) * 100,
+        x2: (shownViewport.left + drawBox.u1 * shownViewport.width) * 100,
+        y2: (shownViewport.top + drawBox.v1 * shownViewport.height) * 100,
+      });
+    };
+
+    // The selected redaction's box on screen, through the current zoom
+    const getRedactionOutlineStyle = (region: RedactionRegion): React.CSSProperties => {
+      const box = getRedactionRect(region, Math.max(region.startTime, Math.min(region.endTime, currentTime)));
+      return {
+        left: `${((box.x / 100 - shownViewport.left) / shownViewport.width) * 100}%`,
+        top: `${((box.y / 100 - shownViewport.top) / shownViewport.height) * 100}%`,
+        width: `${(box.width / 100 / shownViewport.width) * 100}%`,
+        height: `${(box.height / 100 / shownViewport.height) * 100}%`,
+        borderRadius: region.shape === 'ellipse' ? '50%' : undefined,
+      };
+    };
+
     const togglePlayPause = () => (isPlaying ? onPause() : onPlay());
     const toggleMute = () => setIsMuted(!isMuted);
     const toggleFullscreen = async () => {
@@ -285,11 +419,11 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
 
 
 
-    const getZoomIndicatorPosition = () => {
-      const z = currentZoom || null;
-      if (!z || !videoRef.current || !videoWrapperRef.current) return { left: '50%', top: '50%' };
-      return { left: `${z.x}%`, top: `${z.y}%` };
-    };
+    // Marker and label follow the zoom the canvas is drawing, transitions and cursor-follow included
+    const getZoomIndicatorPosition = (z: ZoomEffect) => ({
+      left: `${((z.x / 100 - shownViewport.left) / shownViewport.width) * 100}%`,
+      top: `${((z.y / 100 - shownViewport.top) / shownViewport.height) * 100}%`
+    });
 
     return (
       <div className={`flex-1 flex items-center justify-center bg-black relative overflow-hidden group h-full ${isFullscreen ? 'fullscreen' : ''}`}>
@@ -331,91 +465,114 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
                 </div>
                 <div className="text-center text-sm">{exportOverlay.percent}%</div>
               </div>
-              <div className="mt-4 text-xs opacity-70">Export is running — playback is paused</div>
+              <div className="mt-4 text-xs opacity-70">Playback is paused while frames are processed</div>
             </div>
           )}
 
-          <div
-            className="relative w-full h-full max-w-full max-h-full"
-            style={{ 
-              transformStyle: 'preserve-3d',
-              backfaceVisibility: 'hidden',
-              perspective: '1000px'
-            }}
-            ref={videoWrapperRef}
-          >
-            <video
-              ref={videoRef}
-              src={src}
-              className="w-full h-full max-w-full max-h-full cursor-pointer block object-contain"
-              onClick={handleVideoClick}
-              preload="metadata"
-              playsInline
-              crossOrigin="anonymous"
-              muted={isMuted}
-              controls={false}
-              onLoadStart={() => setIsLoading(true)}
-              onSeeked={onSeeked}
-            />
-
-            {currentZoom && isVideoReady && !exportOverlay.active && (
-              <div
-                className="absolute w-3 h-3 bg-purple-500 border-2 border-white rounded-full transform -translate-x-1/2 -translate-y-1/2 pointer-events-none z-10"
-                style={getZoomIndicatorPosition()}
+          <div className="absolute inset-0 flex items-center justify-center" ref={stageRef}>
+            <div className="relative overflow-hidden" style={{ width: displayWidth, height: displayHeight }}>
+              <canvas
+                ref={canvasRef}
+                className="w-full h-full block"
               />
-            )}
 
-            {textOverlays.map((o) => {
-              const active = currentTime >= o.startTime && currentTime <= o.endTime;
-              if (!active) return null;
-              return (
+              {reframeGuide && isVideoReady && !exportOverlay.active && (
                 <div
-                  key={o.id}
-                  className="absolute pointer-events-none z-20"
+                  className="absolute border-2 border-dashed border-yellow-300 pointer-events-none"
                   style={{
-                    left: `${o.x}%`, top: `${o.y}%`,
-                    transform: 'translate(-50%, -50%)',
-                    fontFamily: o.fontFamily || 'Arial, sans-serif',
-                    fontSize: `${o.fontSize || 24}px`,
-                    color: o.color || '#ffffff',
-                    backgroundColor: o.backgroundColor || 'transparent',
-                    padding: `${o.padding || 0}px`,
-                    borderRadius: `${o.borderRadius || 0}px`,
-                    whiteSpace: 'pre-wrap', textAlign: 'center',
-                    textShadow: '2px 2px 4px rgba(0,0,0,0.8)',
-                    boxShadow: o.backgroundColor ? '2px 2px 8px rgba(0,0,0,0.5)' : 'none',
-                    maxWidth: '80%', wordWrap: 'break-word', fontWeight: 'bold', lineHeight: '1.2'
+                    left: `${(reframeGuide.x / outputWidth) * 100}%`,
+                    top: `${(reframeGuide.y / videoSize.height) * 100}%`,
+                    width: `${(reframeGuide.width / outputWidth) * 100}%`,
+                    height: `${(reframeGuide.height / videoSize.height) * 100}%`,
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
                   }}
-                >
-                  {o.text}
-                </div>
-              );
-            })}
+                />
+              )}
 
-            {previewTextOverlay && !exportOverlay.active && (
+              {/* The recording's area of the canvas; all the markers and pointer handling map to it */}
               <div
-                className="absolute pointer-events-none z-30"
+                className="absolute cursor-pointer"
                 style={{
-                  left: `${previewTextOverlay.x}%`,
-                  top: `${previewTextOverlay.y}%`,
-                  transform: 'translate(-50%, -50%)',
-                  fontFamily: previewTextOverlay.fontFamily || 'Arial, sans-serif',
-                  fontSize: `${previewTextOverlay.fontSize || 24}px`,
-                  color: previewTextOverlay.color || '#ffffff',
-                  backgroundColor: previewTextOverlay.backgroundColor || 'transparent',
-                  padding: `${previewTextOverlay.padding || 0}px`,
-                  borderRadius: `${previewTextOverlay.borderRadius || 0}px`,
-                  whiteSpace: 'pre-wrap', textAlign: 'center',
-                  textShadow: '2px 2px 4px rgba(0,0,0,0.8)',
-                  boxShadow: previewTextOverlay.backgroundColor ? '2px 2px 8px rgba(0,0,0,0.5)' : 'none',
-                  maxWidth: '80%', wordWrap: 'break-word', fontWeight: 'bold', lineHeight: '1.2',
-                  border: '2px dashed #00ff00', opacity: 0.9
+                  left: `${(contentRect.x / outputWidth) * 100}%`,
+                  top: `${(contentRect.y / videoSize.height) * 100}%`,
+                  width: `${(contentRect.width / outputWidth) * 100}%`,
+                  height: `${(contentRect.height / videoSize.height) * 100}%`,
                 }}
+                onClick={handleCanvasClick}
               >
-                {previewTextOverlay.text}
+                {shownZoom && isVideoReady && !exportOverlay.active && (
+                  <div
+                    className="absolute w-3 h-3 bg-purple-500 border-2 border-white rounded-full transform -translate-x-1/2 -translate-y-1/2 pointer-events-none z-10"
+                    style={getZoomIndicatorPosition(shownZoom)}
+                  />
+                )}
+
+                {selectedRedaction && isVideoReady && !exportOverlay.active && (
+                  <div
+                    className="absolute border-2 border-dashed border-green-400 pointer-events-none z-10"
+                    style={getRedactionOutlineStyle(selectedRedaction)}
+                  />
+                )}
+
+                {onPreviewDrag && isVideoReady && !exportOverlay.active && (
+                  <div
+                    className="absolute inset-0 z-20 cursor-crosshair"
+                    onPointerDown={handleDrawStart}
+                    onPointerMove={handleDrawMove}
+                    onPointerUp={handleDrawEnd}
+                    onPointerCancel={() => setDrawBox(null)}
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    {drawBox && previewDragGuide === 'line' && (
+                      <svg className="absolute inset-0 w-full h-full pointer-events-none">
+                        <line
+                          x1={`${drawBox.u0 * 100}%`} y1={`${drawBox.v0 * 100}%`}
+                          x2={`${drawBox.u1 * 100}%`} y2={`${drawBox.v1 * 100}%`}
+                          stroke="#4ade80" strokeWidth="2" strokeDasharray="6 4"
+                        />
+                      </svg>
+                    )}
+                    {drawBox && previewDragGuide === 'box' && (
+                      <div
+                        className="absolute border-2 border-dashed border-green-400 bg-green-400/10"
+                        style={{
+                          left: `${Math.min(drawBox.u0, drawBox.u1) * 100}%`,
+                          top: `${Math.min(drawBox.v0, drawBox.v1) * 100}%`,
+                          width: `${Math.abs(drawBox.u1 - drawBox.u0) * 100}%`,
+                          height: `${Math.abs(drawBox.v1 - drawBox.v0) * 100}%`,
+                        }}
+                      />
+                    )}
+                  </div>
+                )}
               </div>
-            )}
+            </div>
           </div>
+
+          {/* Decoder only: frames are drawn to the canvas above */}
+          <video
+            ref={videoRef}
+            src={src}
+            className="absolute w-px h-px opacity-0 pointer-events-none"
+            preload="metadata"
+            playsInline
+            crossOrigin="anonymous"
+            muted={isMuted}
+            controls={false}
+            onLoadStart={() => setIsLoading(true)}
+            onSeeked={onSeeked}
+          />
+          {webcamSrc && (
+            <video
+              ref={webcamRef}
+              src={webcamSrc}
+              className="absolute w-px h-px opacity-0 pointer-events-none"
+              preload="auto"
+              playsInline
+              muted
+              controls={false}
+            />
+          )}
         </div>
 
         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4">
@@ -447,15 +604,15 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
           </div>
         </div>
 
-        {!currentZoom && isVideoReady && !exportOverlay.active && (
+        {!shownZoom && isVideoReady && !exportOverlay.active && (
           <div className="absolute top-4 left-4 bg-black/60 text-white px-3 py-2 rounded-lg text-sm opacity-60">
             Click on video to add zoom effect
           </div>
         )}
 
-        {currentZoom && !exportOverlay.active && (
+        {shownZoom && !exportOverlay.active && (
           <div className="absolute top-4 right-4 bg-black/60 text-white px-3 py-2 rounded-lg text-sm">
-            {`Zoom: ${currentZoom.scale.toFixed(1)}x at (${currentZoom.x.toFixed(0)}%, ${currentZoom.y.toFixed(0)}%)`}
+            {`Zoom: ${shownZoom.scale.toFixed(1)}x at (${shownZoom.x.toFixed(0)}%, ${shownZoom.y.toFixed(0)}%)`}
           </div>
         )}
       </div>
@@ -0,0 +1,230 @@
+import React, { useRef } from 'react';
+import { Webcam, Upload, EyeOff, Trash2 } from 'lucide-react';
+import { WebcamSettings, WebcamShape, WebcamCorner, WebcamHideRange } from '../types';
+
+interface WebcamControlsProps {
+  webcamName: string | null; // linked webcam video
+  expectedName: string | null; // webcam video the project was saved with
+  onAttachWebcam: (file: File) => void;
+  onRemoveWebcam: () => void;
+  webcamSettings: WebcamSettings;
+  onUpdateWebcamSettings: (updates: Partial<WebcamSettings>) => void;
+  hides: WebcamHideRange[];
+  onAddHide: () => void;
+  onUpdateHide: (id: string, updates: Partial<WebcamHideRange>) => void;
+  onDeleteHide: (id: string) => void;
+  onSeek: (time: number) => void;
+  duration: number;
+}
+
+const CORNERS: { corner: WebcamCorner; label: string }[] = [
+  { corner: 'top-left', label: 'Top left' },
+  { corner: 'top-right', label: 'Top right' },
+  { corner: 'bottom-left', label: 'Bottom left' },
+  { corner: 'bottom-right', label: 'Bottom right' },
+];
+
+export const WebcamControls: React.FC<WebcamControlsProps> = ({
+  webcamName,
+  expectedName,
+  onAttachWebcam,
+  onRemoveWebcam,
+  webcamSettings,
+  onUpdateWebcamSettings,
+  hides,
+  onAddHide,
+  onUpdateHide,
+  onDeleteHide,
+  onSeek,
+  duration
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const update = onUpdateWebcamSettings;
+  const sortedHides = [...hides].sort((a, b) => a.startTime - b.startTime);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+          <Webcam className="w-5 h-5" />
+          <span>Webcam</span>
+        </h3>
+        {webcamName && (
+          <label className="flex items-center text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={webcamSettings.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="mr-2"
+            />
+            Show
+          </label>
+        )}
+      </div>
+
+      {webcamName ? (
+        <div className="flex items-center justify-between px-2 py-1 bg-gray-700 rounded text-xs text-gray-300">
+          <span className="truncate">{webcamName}</span>
+          <button onClick={onRemoveWebcam} className="text-red-300 hover:text-red-200 flex-shrink-0" title="Remove webcam video">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      ) : (
+        <>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-center space-x-2 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            <span>{expectedName ? 'Link Webcam Video' : 'Add Webcam Video'}</span>
+          </button>
+          <p className="text-xs text-gray-500">
+            {expectedName
+              ? `This clip was edited with "${expectedName}" as its webcam.`
+              : 'A second recording shown in a bubble over this clip.'}
+          </p>
+        </>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="video/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onAttachWebcam(file);
+          e.target.value = '';
+        }}
+      />
+
+      {webcamName && webcamSettings.enabled && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Shape</label>
+              <select
+                value={webcamSettings.shape}
+                onChange={(e) => update({ shape: e.target.value as WebcamShape })}
+                className="w-full bg-gray-700 border border-gray-600 text-white rounded px-2 py-1 text-sm"
+              >
+                <option value="circle">Circle</option>
+                <option value="rounded">Rounded</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Size: {webcamSettings.size}%</label>
+              <input
+                type="range" min="10" max="60" step="1"
+                value={webcamSettings.size}
+                onChange={(e) => update({ size: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Position</label>
+            <div className="grid grid-cols-4 gap-1">
+              {CORNERS.map(({ corner, label }) => (
+                <button
+                  key={corner}
+                  onClick={() => update({ corner })}
+                  className={`py-1 rounded text-xs ${webcamSettings.corner === corner ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+                  title={label}
+                >
+                  {label.split(' ').map(word => word[0].toUpperCase()).join('')}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center text-sm text-gray-300" title="Slide to the other side while a zoom is aimed under the bubble">
+            <input
+              type="checkbox"
+              checked={webcamSettings.avoidZoom}
+              onChange={(e) => update({ avoidZoom: e.target.checked })}
+              className="mr-2"
+            />
+            Move out of the way of zooms
+          </label>
+
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Sync offset: {webcamSettings.offset.toFixed(2)}s</label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="range" min="-10" max="10" step="0.05"
+                value={webcamSettings.offset}
+                onChange={(e) => update({ offset: Number(e.target.value) })}
+                className="flex-1 accent-purple-500"
+              />
+              <input
+                type="number" step="0.01"
+                value={webcamSettings.offset}
+                onChange={(e) => update({ offset: Number(e.target.value) || 0 })}
+                className="w-20 bg-gray-700 border border-gray-600 text-white rounded px-2 py-1 text-xs"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Positive values show later webcam frames.</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Border</label>
+              <input
+                type="color"
+                value={webcamSettings.borderColor}
+                onChange={(e) => update({ borderColor: e.target.value })}
+                className="w-full h-8 bg-gray-600 border border-gray-500 rounded cursor-pointer"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Width: {webcamSettings.borderWidth}px</label>
+              <input
+                type="range" min="0" max="16" step="1"
+                value={webcamSettings.borderWidth}
+                onChange={(e) => update({ borderWidth: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <button
+              onClick={onAddHide}
+              className="w-full flex items-center justify-center space-x-2 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm rounded"
+            >
+              <EyeOff className="w-4 h-4" />
+              <span>Hide from Playhead</span>
+            </button>
+            {sortedHides.map((range) => (
+              <div key={range.id} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center text-xs">
+                <input
+                  type="number" step="0.1" min="0" max={range.endTime}
+                  value={range.startTime.toFixed(1)}
+                  onFocus={() => onSeek(range.startTime)}
+                  onChange={(e) => onUpdateHide(range.id, { startTime: Math.max(0, Math.min(Number(e.target.value), range.endTime - 0.1)) })}
+                  className="w-full bg-gray-700 border border-gray-600 text-white rounded px-2 py-1"
+                  title="Hidden from"
+                />
+                <input
+                  type="number" step="0.1" min={range.startTime} max={duration}
+                  value={range.endTime.toFixed(1)}
+                  onChange={(e) => onUpdateHide(range.id, { endTime: Math.min(duration, Math.max(Number(e.target.value), range.startTime + 0.1)) })}
+                  className="w-full bg-gray-700 border border-gray-600 text-white rounded px-2 py-1"
+                  title="Hidden until"
+                />
+                <button
+                  onClick={() => onDeleteHide(range.id)}
+                  className="text-red-300 hover:text-red-200"
+                  title="Show the webcam again here"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import { ZoomIn, Trash2, Plus } from 'lucide-react';
-import { ZoomEffect } from '../types';
+import { ZoomIn, Trash2, Plus, Diamond, Sparkles, Flashlight } from 'lucide-react';
+import { ZoomEffect, SpotlightEffect, ZoomEasing, ZoomKeyframe, ZoomSettings, CubicBezier, DEFAULT_ZOOM_BEZIER, DEFAULT_ZOOM_TRANSITION_DURATION } from '../types';
+import { applyZoomEasing } from '../utils/zoomInterpolation';
+import { SpotlightEditor } from './SpotlightEditor';
 
 interface ZoomControlsProps {
   zoomEnabled: boolean;
@@ -8,22 +10,105 @@ interface ZoomControlsProps {
   selectedZoom: ZoomEffect | null;
   onUpdateZoom: (zoom: ZoomEffect) => void;
   onDeleteZoom: (id: string) => void;
+  onEditStart?: (label: string) => void; // collapse a whole drag into one undo step
+  onEditEnd?: () => void;
   onAddZoom: () => void;
+  onSuggestZooms: () => void;
+  onCancelSuggest: () => void;
+  suggestProgress: number | null; // 0-1 while the activity analysis runs
+  zoomSettings: ZoomSettings;
+  onUpdateZoomSettings: (updates: Partial<ZoomSettings>) => void;
   duration: number;
+  currentTime: number;
+  selectedKeyframeId: string | null;
+  onSelectKeyframe: (keyframeId: string | null) => void;
+  onAddKeyframe: () => void;
+  onDeleteKeyframe: (keyframeId: string) => void;
+  hasCursorTrack: boolean; // cursor-follow needs imported mouse movement
+  spotlights: SpotlightEffect[];
+  selectedSpotlight: SpotlightEffect | null;
+  onSelectSpotlight: (id: string | null) => void;
+  onAddSpotlight: () => void;
+  onUpdateSpotlight: (id: string, updates: Partial<SpotlightEffect>) => void;
+  onDeleteSpotlight: (id: string) => void;
 }
 
+type FramingField = 'x' | 'y' | 'scale';
+
+/** Small plot of a zoom's transition curve, sampled with the same function export uses. */
+const EasingCurve: React.FC<{ zoom: ZoomEffect }> = ({ zoom }) => {
+  const samples = Array.from({ length: 41 }, (_, i) => {
+    const t = i / 40;
+    return `${(t * 100).toFixed(1)},${(80 - applyZoomEasing(zoom, t) * 60).toFixed(1)}`;
+  });
+  return (
+    <svg viewBox="0 0 100 100" className="w-full h-16 bg-gray-700 rounded">
+      <line x1="0" y1="80" x2="100" y2="80" stroke="#4b5563" strokeWidth="0.5" />
+      <line x1="0" y1="20" x2="100" y2="20" stroke="#4b5563" strokeWidth="0.5" />
+      <polyline points={samples.join(' ')} fill="none" stroke="#a855f7" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
 export const ZoomControls: React.FC<ZoomControlsProps> = ({
   selectedZoom,
   onUpdateZoom,
   onDeleteZoom,
+  onEditStart,
+  onEditEnd,
   onAddZoom,
-  duration
+  onSuggestZooms,
+  onCancelSuggest,
+  suggestProgress,
+  zoomSettings,
+  onUpdateZoomSettings,
+  duration,
+  currentTime,
+  selectedKeyframeId,
+  onSelectKeyframe,
+  onAddKeyframe,
+  onDeleteKeyframe,
+  hasCursorTrack,
+  spotlights,
+  selectedSpotlight,
+  onSelectSpotlight,
+  onAddSpotlight,
+  onUpdateSpotlight,
+  onDeleteSpotlight
 }) => {
   const [isDragging, setIsDragging] = useState(false);
 
+  // Position and scale edit the selected keyframe, or the zoom's start point when none is selected
+  const selectedKeyframe: ZoomKeyframe | null =
+    selectedZoom?.keyframes?.find(k => k.id === selectedKeyframeId) ?? null;
+  const target = selectedKeyframe ?? selectedZoom;
+
+  const updateFraming = (fields: Partial<Pick<ZoomEffect, FramingField>>) => {
+    if (!selectedZoom) return;
+    if (selectedKeyframe) {
+      onUpdateZoom({
+        ...selectedZoom,
+        keyframes: selectedZoom.keyframes!.map(k => k.id === selectedKeyframe.id ? { ...k, ...fields } : k)
+      });
+    } else {
+      onUpdateZoom({ ...selectedZoom, ...fields });
+    }
+  };
+
+  const updateKeyframeEasing = (easing: ZoomEasing) => {
+    if (!selectedZoom || !selectedKeyframe) return;
+    onUpdateZoom({
+      ...selectedZoom,
+      keyframes: selectedZoom.keyframes!.map(k => k.id === selectedKeyframe.id ? { ...k, easing } : k)
+    });
+  };
+
+  const playheadInZoom = !!selectedZoom && currentTime > selectedZoom.startTime && currentTime < selectedZoom.endTime;
+
   const handlePositionMouseDown = (e: React.MouseEvent) => {
     if (!selectedZoom) return;
     setIsDragging(true);
+    onEditStart?.('Move zoom position');
     e.preventDefault();
   };
 
@@ -37,14 +122,11 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
     const clampedX = Math.max(0, Math.min(100, x));
     const clampedY = Math.max(0, Math.min(100, y));
     
-    onUpdateZoom({
-      ...selectedZoom,
-      x: clampedX,
-      y: clampedY
-    });
+    updateFraming({ x: clampedX, y: clampedY });
   };
 
   const handlePositionMouseUp = () => {
+    if (isDragging) onEditEnd?.();
     setIsDragging(false);
   };
 
@@ -65,6 +147,127 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
           <Plus className="w-4 h-4" />
           <span>Add Zoom at Current Time</span>
         </button>
+
+        <button
+          onClick={onAddSpotlight}
+          className="mt-2 w-full flex items-center justify-center space-x-2 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg transition-colors"
+          title="Dim everything around a spot instead of zooming into it"
+        >
+          <Flashlight className="w-4 h-4" />
+          <span>Add Spotlight at Current Time</span>
+        </button>
+
+        {suggestProgress === null ? (
+          <button
+            onClick={onSuggestZooms}
+            className="mt-2 w-full flex items-center justify-center space-x-2 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg transition-colors"
+            title="Find on-screen activity and propose zooms for review"
+          >
+            <Sparkles className="w-4 h-4" />
+            <span>Suggest Zooms from Activity</span>
+          </button>
+        ) : (
+          <div className="mt-2 flex items-center space-x-2">
+            <div className="flex-1 bg-gray-700 rounded-full h-2">
+              <div className="bg-blue-500 h-2 rounded-full transition-all duration-150" style={{ width: `${Math.round(suggestProgress * 100)}%` }} />
+            </div>
+            <button onClick={onCancelSuggest} className="text-xs text-gray-300 hover:text-white">Cancel</button>
+          </div>
+        )}
+
+        <div className="mt-4 space-y-2">
+          <label className="flex items-center text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={zoomSettings.directPan}
+              onChange={(e) => onUpdateZoomSettings({ directPan: e.target.checked })}
+              className="mr-2"
+            />
+            Pan directly between close zooms
+          </label>
+          {zoomSettings.directPan && (
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">
+                Max gap: {zoomSettings.directPanMaxGap.toFixed(1)}s
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="5"
+                step="0.1"
+                value={zoomSettings.directPanMaxGap}
+                onChange={(e) => onUpdateZoomSettings({ directPanMaxGap: parseFloat(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          )}
+          {hasCursorTrack && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">
+                  Follow dead zone: {Math.round(zoomSettings.followDeadZone * 100)}%
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="0.9"
+                  step="0.05"
+                  value={zoomSettings.followDeadZone}
+                  onChange={(e) => onUpdateZoomSettings({ followDeadZone: parseFloat(e.target.value) })}
+                  className="w-full accent-purple-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">
+                  Follow damping: {zoomSettings.followDamping.toFixed(2)}s
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="1.5"
+                  step="0.05"
+                  value={zoomSettings.followDamping}
+                  onChange={(e) => onUpdateZoomSettings({ followDamping: parseFloat(e.target.value) })}
+                  className="w-full accent-purple-500"
+                />
+              </div>
+            </div>
+          )}
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Overlapping imported clicks</label>
+            <select
+              value={zoomSettings.importOverlapStrategy}
+              onChange={(e) => onUpdateZoomSettings({ importOverlapStrategy: e.target.value as ZoomSettings['importOverlapStrategy'] })}
+              className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg px-2 py-1 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="keep">Keep and flag on timeline</option>
+              <option value="trim">Trim</option>
+              <option value="merge">Merge into one zoom</option>
+              <option value="pan">Convert to multi-point pan</option>
+            </select>
+          </div>
+        </div>
+
+        {spotlights.length > 0 && (
+          <div className="mt-4">
+            <label className="block text-sm text-gray-300 mb-2">Spotlights</label>
+            <div className="space-y-1">
+              {[...spotlights].sort((a, b) => a.startTime - b.startTime).map((spotlight) => (
+                <button
+                  key={spotlight.id}
+                  onClick={() => onSelectSpotlight(spotlight.id === selectedSpotlight?.id ? null : spotlight.id)}
+                  className={`w-full flex items-center justify-between px-2 py-1 rounded text-xs ${spotlight.id === selectedSpotlight?.id ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                >
+                  <span className="flex items-center space-x-1">
+                    <Flashlight className="w-3 h-3" />
+                    <span>{spotlight.style === 'dim' ? 'Dim' : 'Desaturate'} · {spotlight.shape}</span>
+                  </span>
+                  <span>{spotlight.startTime.toFixed(1)}s – {spotlight.endTime.toFixed(1)}s</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {selectedZoom ? (
@@ -77,7 +280,25 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
           </div>
 
           <div>
-            <label className="block text-sm text-gray-300 mb-2">Select zoom position</label>
+            <label className={`flex items-center text-sm ${hasCursorTrack ? 'text-gray-300' : 'text-gray-500'}`}>
+              <input
+                type="checkbox"
+                checked={!!selectedZoom.followCursor}
+                disabled={!hasCursorTrack && !selectedZoom.followCursor}
+                onChange={(e) => updateZoomProperty('followCursor', e.target.checked || undefined)}
+                className="mr-2"
+              />
+              Follow cursor
+            </label>
+            {!hasCursorTrack && (
+              <p className="text-xs text-gray-500 mt-1">Import clicks with mouse movement to follow the cursor.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-300 mb-2">
+              Select zoom position {selectedKeyframe ? `(keyframe at ${(selectedZoom.startTime + selectedKeyframe.time).toFixed(1)}s)` : '(start point)'}
+            </label>
             <div
               className="w-full h-32 bg-gray-700 rounded-lg relative cursor-crosshair border-2 border-gray-600"
               onMouseDown={handlePositionMouseDown}
@@ -88,8 +309,8 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
               <div
                 className="absolute w-3 h-3 bg-purple-500 rounded-full border-2 border-white transform -translate-x-1/2 -translate-y-1/2 cursor-move"
                 style={{
-                  left: `${selectedZoom.x}%`,
-                  top: `${selectedZoom.y}%`
+                  left: `${target!.x}%`,
+                  top: `${target!.y}%`
                 }}
               />
               <div className="absolute inset-0 grid grid-cols-3 grid-rows-3 opacity-20">
@@ -103,15 +324,15 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
           <div className="space-y-4">
             <div>
               <label className="block text-sm text-gray-300 mb-2">
-                Zoom Scale: {selectedZoom.scale.toFixed(1)}x
+                Zoom Scale: {target!.scale.toFixed(1)}x
               </label>
               <input
                 type="range"
                 min="1"
                 max="5"
                 step="0.1"
-                value={selectedZoom.scale}
-                onChange={(e) => updateZoomProperty('scale', parseFloat(e.target.value))}
+                value={target!.scale}
+                onChange={(e) => updateFraming({ scale: parseFloat(e.target.value) })}
                 className="w-full accent-purple-500"
               />
             </div>
@@ -157,6 +378,148 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
                 <option value="instant">Instant</option>
               </select>
             </div>
+
+            {selectedZoom.transition !== 'instant' && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">
+                      In: {(selectedZoom.transitionIn ?? DEFAULT_ZOOM_TRANSITION_DURATION).toFixed(1)}s
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="2"
+                      step="0.1"
+                      value={selectedZoom.transitionIn ?? DEFAULT_ZOOM_TRANSITION_DURATION}
+                      onChange={(e) => updateZoomProperty('transitionIn', parseFloat(e.target.value))}
+                      className="w-full accent-purple-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">
+                      Out: {(selectedZoom.transitionOut ?? DEFAULT_ZOOM_TRANSITION_DURATION).toFixed(1)}s
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="2"
+                      step="0.1"
+                      value={selectedZoom.transitionOut ?? DEFAULT_ZOOM_TRANSITION_DURATION}
+                      onChange={(e) => updateZoomProperty('transitionOut', parseFloat(e.target.value))}
+                      className="w-full accent-purple-500"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm text-gray-300 mb-2">Easing</label>
+                  <select
+                    value={selectedZoom.easing ?? 'ease-in-out'}
+                    onChange={(e) => updateZoomProperty('easing', e.target.value as ZoomEasing)}
+                    className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  >
+                    <option value="linear">Linear</option>
+                    <option value="ease-in-out">Ease in-out</option>
+                    <option value="cubic-bezier">Cubic bezier</option>
+                    <option value="spring">Spring</option>
+                  </select>
+                </div>
+
+                {selectedZoom.easing === 'cubic-bezier' && (
+                  <div className="grid grid-cols-4 gap-1">
+                    {(selectedZoom.easingBezier ?? DEFAULT_ZOOM_BEZIER).map((value, i) => (
+                      <input
+                        key={i}
+                        type="number"
+                        step="0.05"
+                        // x control points must stay in 0..1 for the curve to be a function of time
+                        min={i % 2 === 0 ? 0 : -1}
+                        max={i % 2 === 0 ? 1 : 2}
+                        value={value}
+                        onChange={(e) => {
+                          const next = [...(selectedZoom.easingBezier ?? DEFAULT_ZOOM_BEZIER)] as CubicBezier;
+                          const parsed = parseFloat(e.target.value);
+                          if (Number.isNaN(parsed)) return;
+                          next[i] = i % 2 === 0 ? Math.max(0, Math.min(1, parsed)) : parsed;
+                          updateZoomProperty('easingBezier', next);
+                        }}
+                        title={['x1', 'y1', 'x2', 'y2'][i]}
+                        className="w-full bg-gray-700 border border-gray-600 text-white rounded px-1 py-1 text-xs"
+                      />
+                    ))}
+                  </div>
+                )}
+
+                <EasingCurve zoom={selectedZoom} />
+              </>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm text-gray-300">Keyframes</label>
+              <button
+                onClick={onAddKeyframe}
+                disabled={!playheadInZoom}
+                title={playheadInZoom ? 'Add a keyframe at the playhead' : 'Move the playhead inside this zoom to add a keyframe'}
+                className="flex items-center space-x-1 px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded transition-colors"
+              >
+                <Plus className="w-3 h-3" />
+                <span>At Playhead</span>
+              </button>
+            </div>
+            <div className="space-y-1">
+              <button
+                onClick={() => onSelectKeyframe(null)}
+                className={`w-full flex items-center justify-between px-2 py-1 rounded text-xs ${!selectedKeyframe ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                <span>Start · {selectedZoom.startTime.toFixed(1)}s</span>
+                <span>{selectedZoom.scale.toFixed(1)}x</span>
+              </button>
+              {(selectedZoom.keyframes ?? []).map((keyframe) => (
+                <div
+                  key={keyframe.id}
+                  className={`flex items-center justify-between px-2 py-1 rounded text-xs cursor-pointer ${selectedKeyframe?.id === keyframe.id ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  onClick={() => onSelectKeyframe(keyframe.id)}
+                >
+                  <span className="flex items-center space-x-1">
+                    <Diamond className="w-3 h-3" />
+                    <span>{(selectedZoom.startTime + keyframe.time).toFixed(1)}s</span>
+                  </span>
+                  <span className="flex items-center space-x-2">
+                    <span>{keyframe.scale.toFixed(1)}x</span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDeleteKeyframe(keyframe.id);
+                      }}
+                      className="text-red-300 hover:text-red-200"
+                      title="Delete keyframe"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </span>
+                </div>
+              ))}
+            </div>
+            {selectedKeyframe && (
+              <div className="mt-2">
+                <label className="block text-xs text-gray-400 mb-1">Easing into this keyframe</label>
+                <select
+                  value={selectedKeyframe.easing}
+                  onChange={(e) => updateKeyframeEasing(e.target.value as ZoomEasing)}
+                  className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-1 text-sm"
+                >
+                  <option value="linear">Linear</option>
+                  <option value="ease-in">Ease in</option>
+                  <option value="ease-out">Ease out</option>
+                  <option value="ease-in-out">Ease in-out</option>
+                  <option value="spring">Spring</option>
+                </select>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-2">Tip: double-click the zoom bar on the timeline to add a keyframe there.</p>
           </div>
 
           <button
@@ -167,6 +530,13 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
             <span>Delete Zoom</span>
           </button>
         </div>
+      ) : selectedSpotlight ? (
+        <SpotlightEditor
+          spotlight={selectedSpotlight}
+          onUpdate={(updates) => onUpdateSpotlight(selectedSpotlight.id, updates)}
+          onDelete={() => onDeleteSpotlight(selectedSpotlight.id)}
+          duration={duration}
+        />
       ) : (
         <div className="flex-1 flex items-center justify-center p-4">
           <div className="text-center text-gray-400">
@@ -0,0 +1,145 @@
+import { useCallback, useRef, useState } from 'react';
+import { EditCommand, EditorDocument } from '../types';
+
+const MAX_HISTORY = 200;
+// Edits sharing a mergeKey only collapse when they arrive close together
+const MERGE_WINDOW_MS = 1000;
+
+interface HistoryEntry {
+  label: string;
+  commands: EditCommand[];
+  mergeKey?: string;
+  time: number;
+}
+
+/** The undo and redo entries of a document that isn't open, e.g. another clip of the project */
+export interface SavedHistory {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export interface EditHistory {
+  document: EditorDocument;
+  /** Bumped on every change, handy as a cheap "something changed" dependency */
+  revision: number;
+  getDocument: () => EditorDocument;
+  execute: (command: EditCommand) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  /** Start collapsing every command into one entry, e.g. for the length of a drag */
+  beginGroup: (label: string) => void;
+  endGroup: () => void;
+  /** Replace the document without history, e.g. when opening a project, or with the history saved for it */
+  reset: (doc: EditorDocument, saved?: SavedHistory) => void;
+  /** The current undo and redo entries, to hand back to `reset` when this document is reopened */
+  saveHistory: () => SavedHistory;
+}
+
+function pushEntry(undoStack: HistoryEntry[], entry: HistoryEntry) {
+  undoStack.push(entry);
+  if (undoStack.length > MAX_HISTORY) undoStack.shift();
+}
+
+export function useEditHistory(initial: EditorDocument): EditHistory {
+  // Refs hold the source of truth so rapid events (drags) never read a stale document
+  const documentRef = useRef(initial);
+  const undoStack = useRef<HistoryEntry[]>([]);
+  const redoStack = useRef<HistoryEntry[]>([]);
+  const openGroup = useRef<HistoryEntry | null>(null);
+  const [state, setState] = useState({ document: initial, revision: 0 });
+
+  const commit = useCallback((doc: EditorDocument) => {
+    documentRef.current = doc;
+    setState(prev => ({ document: doc, revision: prev.revision + 1 }));
+  }, []);
+
+  const execute = useCallback((command: EditCommand) => {
+    commit(command.apply(documentRef.current));
+
+    if (openGroup.current) {
+      openGroup.current.commands.push(command);
+      redoStack.current = [];
+      return;
+    }
+
+    const now = Date.now();
+    const last = undoStack.current[undoStack.current.length - 1];
+    if (command.mergeKey && last?.mergeKey === command.mergeKey && now - last.time < MERGE_WINDOW_MS && redoStack.current.length === 0) {
+      last.commands.push(command);
+      last.time = now;
+      return;
+    }
+    pushEntry(undoStack.current, { label: command.label, commands: [command], mergeKey: command.mergeKey, time: now });
+    redoStack.current = [];
+  }, [commit]);
+
+  const undo = useCallback(() => {
+    const entry = undoStack.current.pop();
+    if (!entry) return;
+    let doc = documentRef.current;
+    for (let i = entry.commands.length - 1; i >= 0; i--) doc = entry.commands[i].revert(doc);
+    redoStack.current.push(entry);
+    commit(doc);
+  }, [commit]);
+
+  const redo = useCallback(() => {
+    const entry = redoStack.current.pop();
+    if (!entry) return;
+    let doc = documentRef.current;
+    for (const command of entry.commands) doc = command.apply(doc);
+    undoStack.current.push(entry);
+    commit(doc);
+  }, [commit]);
+
+  const beginGroup = useCallback((label: string) => {
+    if (openGroup.current) return;
+    openGroup.current = { label, commands: [], time: Date.now() };
+  }, []);
+
+  const endGroup = useCallback(() => {
+    const group = openGroup.current;
+    openGroup.current = null;
+    if (group && group.commands.length > 0) {
+      pushEntry(undoStack.current, group);
+      setState(prev => ({ ...prev })); // re-render so canUndo reflects the new entry
+    }
+  }, []);
+
+  const reset = useCallback((doc: EditorDocument, saved?: SavedHistory) => {
+    undoStack.current = [...(saved?.undo ?? [])];
+    redoStack.current = [...(saved?.redo ?? [])];
+    openGroup.current = null;
+    commit(doc);
+  }, [commit]);
+
+  const saveHistory = useCallback((): SavedHistory => ({
+    undo: [...undoStack.current],
+    redo: [...redoStack.current],
+  }), []);
+
+  const getDocument = useCallback(() => documentRef.current, []);
+
+  const lastUndo = undoStack.current[undoStack.current.length - 1];
+  const lastRedo = redoStack.current[redoStack.current.length - 1];
+
+  return {
+    document: state.document,
+    revision: state.revision,
+    getDocument,
+    execute,
+    undo,
+    redo,
+    canUndo: !!lastUndo,
+    canRedo: !!lastRedo,
+    undoLabel: lastUndo?.label ?? null,
+    redoLabel: lastRedo?.label ?? null,
+    beginGroup,
+    endGroup,
+    reset,
+    saveHistory,
+  };
+}
@@ -1,3 +1,23 @@
+export type ZoomEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'cubic-bezier' | 'spring';
+export type CubicBezier = [number, number, number, number]; // x1, y1, x2, y2 like CSS cubic-bezier()
+
+export const DEFAULT_ZOOM_TRANSITION_DURATION = 0.4; // seconds, used when a zoom doesn't set its own
+export const DEFAULT_ZOOM_BEZIER: CubicBezier = [0.4, 0.0, 0.2, 1];
+
+/**
+ * A point on a zoom's camera path. `time` is in seconds from the zoom's startTime,
+ * so keyframes travel with the zoom when it is moved on the timeline.
+ * `easing` shapes the segment that arrives at this keyframe.
+ */
+export interface ZoomKeyframe {
+  id: string;
+  time: number;
+  x: number; // percentage 0-100
+  y: number; // percentage 0-100
+  scale: number;
+  easing: ZoomEasing;
+}
+
 export interface ZoomEffect {
   id: string;
   startTime: number;
@@ -8,15 +28,204 @@ export interface ZoomEffect {
   transition: 'smooth' | 'instant';
   type?: 'manual' | 'autozoom';
   originalData?: ClickData;
+  // Every click a generated zoom was clustered from; originalData is the first of them
+  sourceClicks?: ClickData[];
+  // Track the recorded cursor instead of holding x/y (keyframes still drive the scale)
+  followCursor?: boolean;
+  // Damped cursor path baked by applyCursorFollow before rendering; never saved
+  followPath?: CursorFollowPath;
+  // Further points after the start; x/y/scale above are the path's first point
+  keyframes?: ZoomKeyframe[];
+  // Zoom in/out transition; 'instant' transition ignores these and cuts straight in
+  transitionIn?: number; // seconds
+  transitionOut?: number; // seconds
+  easing?: ZoomEasing; // defaults to 'ease-in-out'
+  easingBezier?: CubicBezier; // control points when easing is 'cubic-bezier'
+  // How this zoom hands over to the next one: 'auto' follows ZoomSettings, 'always'/'never' override it
+  panToNext?: 'auto' | 'always' | 'never';
+}
+
+/** How two overlapping zooms are turned into non-overlapping ones. */
+export type ZoomOverlapStrategy = 'trim' | 'merge' | 'pan';
+
+/** Project-wide zoom behaviour. */
+export interface ZoomSettings {
+  // Pan straight from one zoom's framing to the next instead of easing out to 1x in between
+  directPan: boolean;
+  directPanMaxGap: number; // seconds between two zooms still considered "close"
+  // Applied to imported click zooms; 'keep' leaves overlaps for the user to resolve
+  importOverlapStrategy: ZoomOverlapStrategy | 'keep';
+  // Cursor-follow zooms only move once the pointer leaves this central fraction of the view
+  followDeadZone: number;
+  followDamping: number; // seconds for the camera to cover ~63% of the way to the cursor
+}
+
+export const DEFAULT_ZOOM_SETTINGS: ZoomSettings = {
+  directPan: false,
+  directPanMaxGap: 1.0,
+  importOverlapStrategy: 'keep',
+  followDeadZone: 0.3,
+  followDamping: 0.35,
+};
+
+// Draws the eye without zooming: everything outside the shape is dimmed or greyed out
+export type SpotlightShape = 'rectangle' | 'circle';
+export type SpotlightStyle = 'dim' | 'desaturate';
+
+export const DEFAULT_SPOTLIGHT_TRANSITION = 0.3; // seconds, used when a spotlight doesn't set its own
+
+export interface SpotlightEffect {
+  id: string;
+  startTime: number;
+  endTime: number;
+  x: number; // centre, percentage 0-100 of the source frame
+  y: number;
+  width: number;  // percentage 0-100; a circle's diameter is its width
+  height: number; // rectangle only
+  shape: SpotlightShape;
+  style: SpotlightStyle;
+  intensity: number; // 0-1, how dark or how grey the surround gets
+  feather: number;   // soft edge, in source pixels
+  transitionIn?: number; // seconds to fade in
+  transitionOut?: number;
+}
+
+// A source range removed from the output; effects keep their source times around it
+export interface CutRange {
+  id: string;
+  startTime: number;
+  endTime: number;
+}
+
+// A source range played faster or slower in the output
+export interface SpeedRamp {
+  id: string;
+  startTime: number;
+  endTime: number;
+  speed: number;       // 2 plays twice as fast, 0.5 at half speed
+  muteAudio?: boolean; // otherwise the audio is time-stretched to match
+}
+
+// Hides part of the recording; applied to the source frame, so it stays put under any zoom
+export type RedactionShape = 'rectangle' | 'ellipse';
+export type RedactionStyle = 'blur' | 'pixelate';
+
+/** Where a moving redaction is at `time` seconds after its startTime. */
+export interface RedactionKeyframe {
+  id: string;
+  time: number;
+  x: number; // percentage 0-100, like the region itself
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RedactionRegion {
+  id: string;
+  startTime: number;
+  endTime: number;
+  x: number;      // top-left corner, percentage 0-100 of the source frame
+  y: number;
+  width: number;  // percentage 0-100
+  height: number;
+  shape: RedactionShape;
+  style: RedactionStyle;
+  strength: number; // blur radius or pixel block size, in source pixels
+  // Further positions after the start; the region moves linearly between them
+  keyframes?: RedactionKeyframe[];
 }
 
 export interface ClicksData {
   clicks: ClickData[];
+  // Pointer position sampled between clicks, in the same pixel space as clicks
+  moves?: MouseMoveData[];
+  // Key presses, named like KeyboardEvent.key with its modifier flags
+  keys?: KeyEventData[];
   width: number;
   height: number;
   duration?: number;
 }
 
+export interface MouseMoveData {
+  time: number;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+}
+
+export interface KeyEventData {
+  time: number;
+  key: string;
+  ctrlKey?: boolean;
+  shiftKey?: boolean;
+  altKey?: boolean;
+  metaKey?: boolean;
+}
+
+// Keystroke badges, drawn like a text overlay
+export interface KeystrokeSettings {
+  enabled: boolean;
+  x: number; // badge center, percent of frame
+  y: number;
+  groupWindow: number;  // keys pressed within this many seconds share one badge
+  holdDuration: number; // badge stays up this long after its last key
+  fontSize: number;
+  fontFamily: string;
+  color: string;
+  backgroundColor: string;
+  padding: number;
+  borderRadius: number;
+}
+
+export const DEFAULT_KEYSTROKE_SETTINGS: KeystrokeSettings = {
+  enabled: true,
+  x: 50,
+  y: 88,
+  groupWindow: 0.8,
+  holdDuration: 1.2,
+  fontSize: 32,
+  fontFamily: 'Arial',
+  color: '#ffffff',
+  backgroundColor: '#111827',
+  padding: 12,
+  borderRadius: 8,
+};
+
+// Cursor position normalized to the frame, percent 0-100 like zoom x/y
+export interface CursorSample {
+  time: number;
+  x: number;
+  y: number;
+  click?: boolean; // a click happened here, drawn as a ripple
+}
+
+// Rendered cursor drawn over the recording
+export interface CursorSettings {
+  enabled: boolean;
+  size: number;          // cursor height in px at 1080p output, scaled with the output
+  color: string;
+  smoothing: number;     // seconds of movement averaged to steady a jittery pointer
+  ripples: boolean;
+  rippleColor: string;
+  rippleDuration: number;
+}
+
+export const DEFAULT_CURSOR_SETTINGS: CursorSettings = {
+  enabled: false,
+  size: 36,
+  color: '#ffffff',
+  smoothing: 0.1,
+  ripples: true,
+  rippleColor: '#a855f7',
+  rippleDuration: 0.6,
+};
+
+export interface CursorFollowPath {
+  step: number;     // seconds between points, starting at the zoom's startTime
+  points: number[]; // x0, y0, x1, y1, ...
+}
+
 export interface ClickData {
   time: number;
   x: number;
@@ -30,6 +239,32 @@ export interface ClickData {
   type?: string;
 }
 
+// Tuning for turning raw clicks into a few well-paced zooms
+export interface AutoZoomSettings {
+  clusterGap: number;       // seconds between clicks that still belong to one zoom
+  clusterRadius: number;    // max distance (percent of frame width) from the cluster's first click
+  minHold: number;          // shortest zoom, seconds
+  minGap: number;           // zooms closer than this are merged, seconds
+  leadIn: number;           // zoom starts this long before the first click
+  holdAfter: number;        // and ends this long after the last one
+  minScale: number;
+  maxScale: number;         // used for a single click; wider clusters zoom out to keep every click in view
+}
+
+export const DEFAULT_AUTO_ZOOM_SETTINGS: AutoZoomSettings = {
+  clusterGap: 1.5,
+  clusterRadius: 20,
+  minHold: 1.5,
+  minGap: 0.5,
+  leadIn: 0.3,
+  holdAfter: 1.2,
+  minScale: 1.3,
+  maxScale: 2.0,
+};
+
+// How a text overlay enters or leaves. Slides name the frame edge the text comes in from or goes out to
+export type TextAnimation = 'none' | 'fade' | 'slide-left' | 'slide-right' | 'slide-top' | 'slide-bottom' | 'pop' | 'typewriter';
+
 export interface TextOverlay {
   id: string;
   startTime: number;
@@ -43,154 +278,280 @@ export interface TextOverlay {
   backgroundColor?: string;
   padding?: number;
   borderRadius?: number;
+  enterAnimation?: TextAnimation; // 'none' when unset
+  enterDuration?: number;         // seconds
+  exitAnimation?: TextAnimation;
+  exitDuration?: number;
+}
+
+// Timed vector markup drawn on the recording; positions are in source percent so they follow zooms
+export type AnnotationKind = 'arrow' | 'rectangle' | 'circle' | 'step' | 'callout';
+export type AnnotationAnimation = 'none' | 'fade' | 'pop' | 'draw';
+
+export interface Annotation {
+  id: string;
+  startTime: number;
+  endTime: number;
+  kind: AnnotationKind;
+  // The drag that placed it, percentage 0-100. Arrows point at the end; steps are centred on
+  // the start and sized by the drag; callouts point at the start with the bubble at the end
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  strokeColor: string;
+  fillColor?: string; // unfilled when unset
+  strokeWidth: number; // source pixels
+  text?: string; // step number or callout text
+  fontSize?: number; // source pixels
+  animation: AnnotationAnimation; // how it enters
+}
+
+// A picture placed over the video, e.g. a corner logo or a screenshot
+export interface ImageOverlay {
+  id: string;
+  startTime: number;
+  endTime: number;
+  name: string;        // original file name, for the sidebar
+  src: string;         // data URL, so the image travels inside project files and autosaves
+  aspectRatio: number; // natural height / width
+  x: number;     // centre, percentage 0-100
+  y: number;
+  width: number; // percentage 0-100 of the frame width; height follows the aspect ratio
+  opacity: number; // 0-1
+  // Stay put on screen while the video zooms (watermarks); otherwise it sits on the recording
+  fixedToScreen: boolean;
+}
+
+// --- Webcam picture-in-picture ---
+export type WebcamShape = 'circle' | 'rounded';
+export type WebcamCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface WebcamSettings {
+  enabled: boolean;
+  shape: WebcamShape;
+  corner: WebcamCorner;
+  size: number;        // bubble height, percentage of the frame height
+  offset: number;      // seconds added to the recording's time to find the webcam frame
+  avoidZoom: boolean;  // slide to the other side while a zoom target is under the bubble
+  borderColor: string;
+  borderWidth: number; // px at 1080p output, scaled with the output
+}
+
+export const DEFAULT_WEBCAM_SETTINGS: WebcamSettings = {
+  enabled: true,
+  shape: 'circle',
+  corner: 'bottom-right',
+  size: 28,
+  offset: 0,
+  avoidZoom: true,
+  borderColor: '#ffffff',
+  borderWidth: 4,
+};
+
+// A stretch of the recording where the webcam bubble is hidden
+export interface WebcamHideRange {
+  id: string;
+  startTime: number;
+  endTime: number;
+}
+
+// How one clip hands over to the next one in a multi-clip project
+export type ClipTransitionType = 'cut' | 'crossfade';
+
+export interface ClipTransition {
+  type: ClipTransitionType;
+  duration: number; // seconds the two clips overlap; crossfade only
+}
+
+export const DEFAULT_CLIP_TRANSITION: ClipTransition = {
+  type: 'cut',
+  duration: 0.5,
+};
+
+// One recording in the project, with its own zooms, overlays and imported clicks.
+// The open clip's document lives in the edit history; this copy is refreshed when switching away.
+export interface ProjectClip {
+  id: string;
+  file: File;
+  duration: number;
+  document: EditorDocument;
+  transitionToNext: ClipTransition;
+  webcamFile?: File; // second recording shown picture-in-picture
+  webcamSource?: SourceVideoInfo; // describes webcamFile, and what to re-link while it is missing
 }
 
 export interface VideoProject {
   id: string;
   name: string;
-  videoFile: File;
-  duration: number;
-  zoomEffects: ZoomEffect[];
+  clips: ProjectClip[]; // in playback order
+  exportSettings: ExportSettings;
+  stage: StageSettings;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type ExportQuality = '720p' | '1080p' | '1440p' | '2160p';
+export type ExportSpeedPreset = 'ultrafast' | 'superfast' | 'veryfast' | 'faster' | 'fast';
+// Output shape; anything but 'source' crops a window out of the rendered frame
+export type ReframeAspect = 'source' | '9:16' | '1:1' | '4:5';
+// What the crop window keeps in frame
+export type ReframeFollow = 'zoom' | 'clicks' | 'manual';
+
 export interface ExportSettings {
-  quality: '720p' | '1080p' | '1440p' | '2160p';
-  format: 'mp4' | 'mov' | 'avi';
-  includeSakData: boolean;
-}
-
-// --- Helper: Linear interpolation ---
-export function lerp(a: number, b: number, t: number) {
-  // Use LINEAR interpolation for direct, straight-line transitions (no curves)
-  return a + (b - a) * t;
-}
-
-// --- Export-specific zoom interpolation - EXACTLY matches preview smooth transitions ---
-export function getExportInterpolatedZoom(time: number, zooms: ZoomEffect[]): ZoomEffect | null {
-  if (!zooms.length) {
-    return null; // No zoom effects
-  }
-
-  // Use the EXACT SAME logic as the preview for perfect sync
-  const sorted = [...zooms].sort((a, b) => a.startTime - b.startTime);
-  
-  // Before first zoom: no zoom (normal view)
-  if (time < sorted[0].startTime) {
-    return null; // No zoom effect
-  }
-
-  // After last zoom: no zoom (normal view)
-  if (time > sorted[sorted.length - 1].endTime) {
-    return null; // No zoom effect
-  }
-
-  // Find the active zoom for this exact time
-  for (let i = 0; i < sorted.length; i++) {
-    const zoom = sorted[i];
-    
-    // If we're within this zoom's time range, apply smooth transitions
-    if (time >= zoom.startTime && time <= zoom.endTime) {
-      const zoomDuration = zoom.endTime - zoom.startTime;
-      const transitionDuration = 0.4; // Same as CSS transition duration
-      
-      // Smooth transition IN (first 0.4s of zoom)
-      if (time < zoom.startTime + transitionDuration) {
-        const t = (time - zoom.startTime) / transitionDuration;
-        // Use cubic-bezier easing (same as CSS)
-        const easedT = t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
-        return {
-          ...zoom,
-          x: lerp(50, zoom.x, easedT),
-          y: lerp(50, zoom.y, easedT),
-          scale: lerp(1.0, zoom.scale, easedT),
-        };
-      }
-      
-      // Smooth transition OUT (last 0.4s of zoom)
-      if (time > zoom.endTime - transitionDuration) {
-        const t = (zoom.endTime - time) / transitionDuration;
-        // Use cubic-bezier easing (same as CSS)
-        const easedT = t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
-        return {
-          ...zoom,
-          x: lerp(50, zoom.x, easedT),
-          y: lerp(50, zoom.y, easedT),
-          scale: lerp(1.0, zoom.scale, easedT),
-        };
-      }
-      
-      // Middle of zoom (no transition, full zoom)
-      return zoom;
-    }
-  }
-
-  // No zoom active at this time
-  return null;
-}
-
-// --- Robust zoom interpolation (matches preview and export, for all zoom types) ---
-export function getInterpolatedZoom(time: number, zooms: ZoomEffect[]): ZoomEffect {
-  if (!zooms.length) {
-    return {
-      id: 'default',
-      startTime: 0,
-      endTime: Number.MAX_SAFE_INTEGER,
-      x: 50,
-      y: 50,
-      scale: 1.0,
-      transition: 'smooth',
-    };
-  }
-
-  // Sort zooms by start time
-  const sorted = [...zooms].sort((a, b) => a.startTime - b.startTime);
-  
-  // Before first zoom: no zoom (normal view)
-  if (time < sorted[0].startTime) {
-    return {
-      id: 'default',
-      startTime: 0,
-      endTime: sorted[0].startTime,
-      x: 50,
-      y: 50,
-      scale: 1.0,
-      transition: 'smooth',
-    };
-  }
-
-  // After last zoom: no zoom (normal view)
-  if (time > sorted[sorted.length - 1].endTime) {
-    return {
-      id: 'default',
-      startTime: sorted[sorted.length - 1].endTime,
-      endTime: Number.MAX_SAFE_INTEGER,
-      x: 50,
-      y: 50,
-      scale: 1.0,
-      transition: 'smooth',
-    };
-  }
-
-  // Find the active zoom
-  for (let i = 0; i < sorted.length; i++) {
-    const currentZoom = sorted[i];
-    
-    // If we're within this zoom's time range, return it exactly
-    if (time >= currentZoom.startTime && time <= currentZoom.endTime) {
-      return currentZoom;
-    }
-  }
-
-  // If we're not in any zoom range, return normal view (no zoom)
-  return {
-    id: 'default',
-    startTime: 0,
-    endTime: Number.MAX_SAFE_INTEGER,
-    x: 50,
-    y: 50,
-    scale: 1.0,
-    transition: 'smooth',
-  };
+  quality: ExportQuality;
+  fps: number;
+  includeAudio: boolean;
+  speedPreset: ExportSpeedPreset; // ffmpeg fallback only
+  aspectRatio: ReframeAspect;
+  reframeFollow: ReframeFollow;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  quality: '1080p',
+  fps: 30,
+  includeAudio: true,
+  speedPreset: 'veryfast',
+  aspectRatio: 'source',
+  reframeFollow: 'zoom',
+};
+
+// A point on the manual crop path: the crop centres on (x, y) at `time`
+export interface ReframeKeyframe {
+  id: string;
+  time: number; // seconds, source time
+  x: number;    // percentage 0-100 of the source
+  y: number;
+}
+
+// --- Output stage: the recording inset on a wallpaper ---
+export type StageBackground = 'gradient' | 'solid' | 'image';
+export type StageAspect = 'source' | '16:9' | '4:3' | '1:1';
+
+export interface StageSettings {
+  enabled: boolean;
+  background: StageBackground;
+  color: string;         // solid colour, and where the gradient starts
+  gradientTo: string;
+  gradientAngle: number; // degrees, 0 = left to right
+  imageSrc?: string;     // wallpaper data URL, scaled to cover the stage
+  aspectRatio: StageAspect; // output shape; 'source' keeps the recording's
+  padding: number;       // percentage of the output's shorter side around the recording
+  cornerRadius: number;  // px at 1080p output, scaled with the output
+  shadow: number;        // blur px at 1080p output; 0 for no shadow
+}
+
+export const DEFAULT_STAGE_SETTINGS: StageSettings = {
+  enabled: false,
+  background: 'gradient',
+  color: '#7c3aed',
+  gradientTo: '#2563eb',
+  gradientAngle: 135,
+  aspectRatio: 'source',
+  padding: 8,
+  cornerRadius: 16,
+  shadow: 40,
+};
+
+// --- Portable project file (what "Save Project" writes to disk) ---
+export interface SourceVideoInfo {
+  name: string;
+  size: number;
+  type: string;
+  duration: number;
+  hash: string; // sampled SHA-256, see utils/projectFile.ts
+}
+
+export interface ProjectFileClip extends EditorDocument {
+  id: string;
+  source: SourceVideoInfo;
+  transitionToNext: ClipTransition;
+  webcamSource?: SourceVideoInfo;
+}
+
+export interface ProjectFile {
+  format: 'smart-zoom-project';
+  version: number;
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamps so the file stays plain JSON
+  updatedAt: string;
+  clips: ProjectFileClip[]; // in playback order
+  exportSettings: ExportSettings;
+  stage: StageSettings;
+}
+
+// --- Undoable editing state (see hooks/useEditHistory.ts) ---
+export interface EditorDocument {
+  zoomEffects: ZoomEffect[];
+  spotlights: SpotlightEffect[];
+  textOverlays: TextOverlay[];
+  annotations: Annotation[];
+  imageOverlays: ImageOverlay[];
+  reframeKeyframes: ReframeKeyframe[];
+  zoomSettings: ZoomSettings;
+  cursorTrack: CursorSample[];
+  cursorSettings: CursorSettings;
+  keystrokes: KeyEventData[];
+  keystrokeSettings: KeystrokeSettings;
+  webcamSettings: WebcamSettings;
+  webcamHides: WebcamHideRange[];
+  cuts: CutRange[];
+  speedRamps: SpeedRamp[];
+  redactions: RedactionRegion[];
+}
+
+export const EMPTY_EDITOR_DOCUMENT: EditorDocument = {
+  zoomEffects: [],
+  spotlights: [],
+  textOverlays: [],
+  annotations: [],
+  imageOverlays: [],
+  reframeKeyframes: [],
+  zoomSettings: DEFAULT_ZOOM_SETTINGS,
+  cursorTrack: [],
+  cursorSettings: DEFAULT_CURSOR_SETTINGS,
+  keystrokes: [],
+  keystrokeSettings: DEFAULT_KEYSTROKE_SETTINGS,
+  webcamSettings: DEFAULT_WEBCAM_SETTINGS,
+  webcamHides: [],
+  cuts: [],
+  speedRamps: [],
+  redactions: [],
+};
+
+export interface EditCommand {
+  label: string;
+  apply: (doc: EditorDocument) => EditorDocument;
+  revert: (doc: EditorDocument) => EditorDocument;
+  // Consecutive commands with the same key (e.g. typing into one text field) collapse into one undo step
+  mergeKey?: string;
+}
+
+// --- Autosave session (IndexedDB crash recovery) ---
+export interface AutosaveSession {
+  projectId: string;
+  name: string;
+  createdAt: string;
+  savedAt: string;
+  clips: AutosaveClip[]; // every clip in order
+  activeClipId: string;
+  exportSettings: ExportSettings;
+  stage?: StageSettings; // missing in sessions from builds without the stage
+}
+
+export interface AutosaveClip {
+  id: string; // also the key of its video in the video store
+  videoName: string;
+  duration: number;
+  document: EditorDocument; // whole undoable state, so new document fields are saved automatically
+  transitionToNext: ClipTransition;
+  webcamName?: string; // set when the clip has a webcam video, stored under `${id}:webcam`
+  webcamSource?: SourceVideoInfo;
+}
+
+export interface RecoverableSession {
+  session: AutosaveSession;
+  clipFiles: Record<string, File>; // by clip id
+  webcamFiles: Record<string, File>; // by clip id, for clips with a webcam
 }
\ No newline at end of file
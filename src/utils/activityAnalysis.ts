@@ -0,0 +1,151 @@
+import { ZoomEffect } from '../types';
+
+// Frames are compared at this size; enough to locate activity, cheap to diff
+const GRID_W = 64;
+const GRID_H = 36;
+const PIXEL_THRESHOLD = 24;      // luma change (0-255) that counts as activity
+const MIN_ACTIVE_PIXELS = 6;     // below this it's compression noise or a blinking caret
+const MAX_ACTIVE_FRACTION = 0.5; // above this the whole screen changed (scene cut, scroll): zooming won't help
+
+export interface ActivityAnalysisOptions {
+  sampleInterval: number; // seconds between compared frames
+  mergeGap: number;       // activity this close in time becomes one suggestion
+  minScale: number;
+  maxScale: number;
+}
+
+export const DEFAULT_ACTIVITY_OPTIONS: ActivityAnalysisOptions = {
+  sampleInterval: 0.25,
+  mergeGap: 1.0,
+  minScale: 1.3,
+  maxScale: 2.5,
+};
+
+/** The slice of the player the analysis drives; the export lock keeps the preview out of the way. */
+export interface FrameSampler {
+  seekAndWait: (time: number) => Promise<void>;
+  getVideoElement: () => HTMLVideoElement | null;
+}
+
+interface ActivityBox {
+  time: number;
+  minX: number; // percent of frame
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function toLuma(data: Uint8ClampedArray): Uint8Array {
+  const luma = new Uint8Array(GRID_W * GRID_H);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+  }
+  return luma;
+}
+
+function diffBox(prev: Uint8Array, next: Uint8Array, time: number): ActivityBox | null {
+  let count = 0;
+  let minX = GRID_W, minY = GRID_H, maxX = -1, maxY = -1;
+  for (let y = 0; y < GRID_H; y++) {
+    for (let x = 0; x < GRID_W; x++) {
+      const i = y * GRID_W + x;
+      if (Math.abs(prev[i] - next[i]) < PIXEL_THRESHOLD) continue;
+      count++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (count < MIN_ACTIVE_PIXELS || count > GRID_W * GRID_H * MAX_ACTIVE_FRACTION) return null;
+  return {
+    time,
+    minX: (minX / GRID_W) * 100,
+    minY: (minY / GRID_H) * 100,
+    maxX: ((maxX + 1) / GRID_W) * 100,
+    maxY: ((maxY + 1) / GRID_H) * 100,
+  };
+}
+
+function boxesToZoom(boxes: ActivityBox[], interval: number, options: ActivityAnalysisOptions): ZoomEffect | null {
+  const minX = Math.min(...boxes.map(b => b.minX));
+  const minY = Math.min(...boxes.map(b => b.minY));
+  const maxX = Math.max(...boxes.map(b => b.maxX));
+  const maxY = Math.max(...boxes.map(b => b.maxY));
+  // Keep the whole active area (plus a margin) in view
+  const scale = Math.min(options.maxScale, 100 / (Math.max(maxX - minX, maxY - minY) * 1.3));
+  if (scale < options.minScale) return null;
+
+  const first = boxes[0].time;
+  const last = boxes[boxes.length - 1].time;
+  return {
+    id: crypto.randomUUID(),
+    startTime: Math.max(0, first - interval - 0.3),
+    endTime: Math.max(last + 1.0, first + 1.5),
+    x: (minX + maxX) / 2,
+    y: (minY + maxY) / 2,
+    scale: Math.round(scale * 10) / 10,
+    transition: 'smooth',
+    type: 'autozoom',
+  };
+}
+
+/**
+ * Step through the video, diff each sampled frame with the previous one and
+ * propose a zoom for every burst of localized on-screen activity.
+ */
+export async function analyzeActivity(
+  sampler: FrameSampler,
+  duration: number,
+  options: ActivityAnalysisOptions = DEFAULT_ACTIVITY_OPTIONS,
+  onProgress?: (fraction: number) => void,
+  isCancelled?: () => boolean
+): Promise<ZoomEffect[]> {
+  const canvas = document.createElement('canvas');
+  canvas.width = GRID_W;
+  canvas.height = GRID_H;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  const boxes: ActivityBox[] = [];
+  let prev: Uint8Array | null = null;
+  const steps = Math.floor(duration / options.sampleInterval);
+
+  for (let i = 0; i <= steps; i++) {
+    if (isCancelled?.()) return [];
+    const time = i * options.sampleInterval;
+    await sampler.seekAndWait(time);
+    const video = sampler.getVideoElement();
+    if (!video) throw new Error('Video is not ready for analysis.');
+    ctx.drawImage(video, 0, 0, GRID_W, GRID_H);
+    const luma = toLuma(ctx.getImageData(0, 0, GRID_W, GRID_H).data);
+    if (prev) {
+      const box = diffBox(prev, luma, time);
+      if (box) boxes.push(box);
+    }
+    prev = luma;
+    if (i % 8 === 0) onProgress?.(i / Math.max(1, steps));
+  }
+
+  // Bursts of activity separated by quiet time become separate suggestions
+  const suggestions: ZoomEffect[] = [];
+  let burst: ActivityBox[] = [];
+  const flush = () => {
+    const zoom = burst.length ? boxesToZoom(burst, options.sampleInterval, options) : null;
+    if (zoom) suggestions.push(zoom);
+    burst = [];
+  };
+  for (const box of boxes) {
+    if (burst.length && box.time - burst[burst.length - 1].time > options.mergeGap) flush();
+    burst.push(box);
+  }
+  flush();
+
+  // Neighbouring bursts can still overlap once padded; the later one starts where the earlier ends
+  for (let i = 1; i < suggestions.length; i++) {
+    if (suggestions[i].startTime < suggestions[i - 1].endTime) {
+      suggestions[i].startTime = suggestions[i - 1].endTime;
+    }
+  }
+  onProgress?.(1);
+  return suggestions.filter(zoom => zoom.endTime - zoom.startTime > 0.5);
+}
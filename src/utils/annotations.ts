@@ -0,0 +1,207 @@
+import { Annotation } from '../types';
+import { ZoomViewport } from './zoomInterpolation';
+
+export const ANNOTATION_ENTER_DURATION = 0.35; // seconds
+const MIN_STEP_RADIUS = 16; // source pixels, for a step placed with a plain click
+const DEFAULT_FONT_SIZE = 24;
+const CALLOUT_PADDING = 10;
+const CALLOUT_LINE_HEIGHT = 1.2;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const easeOut = (t: number) => 1 - Math.pow(1 - t, 3);
+// Overshoots slightly before settling, for the 'pop' entrance
+const easeOutBack = (t: number) => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2);
+
+/** How far an annotation's entrance has played at `time`, 0-1. */
+export function getAnnotationEnterProgress(annotation: Annotation, time: number): number {
+  if (annotation.animation === 'none') return 1;
+  return Math.max(0, Math.min(1, (time - annotation.startTime) / ANNOTATION_ENTER_DURATION));
+}
+
+/** Stroke the current path, only the first `reveal` of its `length` when it is being drawn on. */
+function strokeRevealed(ctx: CanvasRenderingContext2D, length: number, reveal: number) {
+  if (reveal < 1) ctx.setLineDash([length * reveal, length]);
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, start: Point, end: Point, lineWidth: number, reveal: number) {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return;
+  const ux = dx / length;
+  const uy = dy / length;
+  const tip = { x: start.x + dx * reveal, y: start.y + dy * reveal };
+  const head = Math.min(length * Math.min(reveal, 0.5), Math.max(lineWidth * 3.5, 10));
+
+  // Stop the shaft inside the head so the round cap doesn't poke through the point
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(tip.x - ux * head * 0.5, tip.y - uy * head * 0.5);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(tip.x, tip.y);
+  ctx.lineTo(tip.x - ux * head - uy * head * 0.6, tip.y - uy * head + ux * head * 0.6);
+  ctx.lineTo(tip.x - ux * head + uy * head * 0.6, tip.y - uy * head - ux * head * 0.6);
+  ctx.closePath();
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.fill();
+}
+
+function drawBox(ctx: CanvasRenderingContext2D, annotation: Annotation, start: Point, end: Point, reveal: number) {
+  const x = Math.min(start.x, end.x);
+  const y = Math.min(start.y, end.y);
+  const w = Math.abs(end.x - start.x);
+  const h = Math.abs(end.y - start.y);
+  let perimeter: number;
+  ctx.beginPath();
+  if (annotation.kind === 'circle') {
+    const a = w / 2;
+    const b = h / 2;
+    ctx.ellipse(x + a, y + b, a, b, 0, 0, Math.PI * 2);
+    perimeter = Math.PI * (3 * (a + b) - Math.sqrt((3 * a + b) * (a + 3 * b)));
+  } else {
+    ctx.rect(x, y, w, h);
+    perimeter = 2 * (w + h);
+  }
+  if (annotation.fillColor) {
+    ctx.save();
+    ctx.globalAlpha *= reveal;
+    ctx.fill();
+    ctx.restore();
+  }
+  strokeRevealed(ctx, perimeter, reveal);
+}
+
+function drawStep(ctx: CanvasRenderingContext2D, annotation: Annotation, start: Point, end: Point, scale: number) {
+  const radius = Math.max(MIN_STEP_RADIUS * scale, Math.hypot(end.x - start.x, end.y - start.y));
+  ctx.beginPath();
+  ctx.arc(start.x, start.y, radius, 0, Math.PI * 2);
+  ctx.fillStyle = annotation.fillColor ?? annotation.strokeColor;
+  ctx.fill();
+  ctx.stroke();
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `bold ${radius * 1.1}px Arial, sans-serif`;
+  ctx.fillText(annotation.text || '1', start.x, start.y + radius * 0.05);
+}
+
+function drawCallout(ctx: CanvasRenderingContext2D, annotation: Annotation, start: Point, end: Point, scale: number, lineWidth: number) {
+  const fontSize = (annotation.fontSize ?? DEFAULT_FONT_SIZE) * scale;
+  const padding = CALLOUT_PADDING * scale;
+  ctx.font = `bold ${fontSize}px Arial, sans-serif`;
+  const lines = (annotation.text || '').split('\n');
+  const textWidth = Math.max(fontSize, ...lines.map(line => ctx.measureText(line).width));
+  const w = textWidth + 2 * padding;
+  const h = lines.length * fontSize * CALLOUT_LINE_HEIGHT + 2 * padding;
+  const left = end.x - w / 2;
+  const top = end.y - h / 2;
+
+  // Tail from the bubble's centre to the point being called out
+  const dx = start.x - end.x;
+  const dy = start.y - end.y;
+  const distance = Math.hypot(dx, dy) || 1;
+  const base = Math.min(w, h) * 0.25;
+  const tail = new Path2D();
+  tail.moveTo(start.x, start.y);
+  tail.lineTo(end.x - (dy / distance) * base, end.y + (dx / distance) * base);
+  tail.lineTo(end.x + (dy / distance) * base, end.y - (dx / distance) * base);
+  tail.closePath();
+  const bubble = new Path2D();
+  bubble.roundRect(left, top, w, h, padding);
+
+  // Stroke both at double width, then fill over them: only the outer half of the outline stays
+  ctx.lineWidth = lineWidth * 2;
+  ctx.stroke(tail);
+  ctx.stroke(bubble);
+  ctx.fillStyle = annotation.fillColor ?? '#ffffff';
+  ctx.fill(tail);
+  ctx.fill(bubble);
+
+  ctx.fillStyle = annotation.strokeColor;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => {
+    ctx.fillText(line, end.x, top + padding + (i + 0.5) * fontSize * CALLOUT_LINE_HEIGHT);
+  });
+}
+
+/** The point a 'pop' entrance grows out of. */
+function getAnchor(annotation: Annotation, start: Point, end: Point): Point {
+  if (annotation.kind === 'step' || annotation.kind === 'arrow') return start;
+  if (annotation.kind === 'callout') return end;
+  return { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+}
+
+/**
+ * Draw every annotation visible at `time`, mapped from source percent through the zoom viewport.
+ * Sizes are authored in source pixels; `pxScale` maps them to canvas pixels at 1x.
+ */
+export function drawAnnotationLayer(
+  ctx: CanvasRenderingContext2D,
+  annotations: Annotation[],
+  time: number,
+  viewport: ZoomViewport,
+  W: number,
+  H: number,
+  pxScale: number
+) {
+  const scale = pxScale / viewport.height;
+  const toScreen = (x: number, y: number): Point => ({
+    x: ((x / 100 - viewport.left) / viewport.width) * W,
+    y: ((y / 100 - viewport.top) / viewport.height) * H,
+  });
+
+  for (const annotation of annotations) {
+    if (time < annotation.startTime || time > annotation.endTime) continue;
+    const start = toScreen(annotation.x1, annotation.y1);
+    const end = toScreen(annotation.x2, annotation.y2);
+    const progress = getAnnotationEnterProgress(annotation, time);
+    const lineWidth = annotation.strokeWidth * scale;
+    // Steps and callouts can't be traced as a line, so they pop in instead
+    const traced = annotation.kind === 'arrow' || annotation.kind === 'rectangle' || annotation.kind === 'circle';
+    const animation = annotation.animation === 'draw' && !traced ? 'pop' : annotation.animation;
+
+    ctx.save();
+    ctx.lineWidth = lineWidth;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = annotation.strokeColor;
+    ctx.fillStyle = annotation.fillColor ?? 'transparent';
+    if (animation === 'fade') {
+      ctx.globalAlpha = easeOut(progress);
+    } else if (animation === 'pop') {
+      const anchor = getAnchor(annotation, start, end);
+      const size = easeOutBack(progress);
+      ctx.globalAlpha = Math.min(1, progress * 2);
+      ctx.translate(anchor.x, anchor.y);
+      ctx.scale(size, size);
+      ctx.translate(-anchor.x, -anchor.y);
+    }
+    const reveal = animation === 'draw' ? easeOut(progress) : 1;
+
+    switch (annotation.kind) {
+      case 'arrow':
+        drawArrow(ctx, start, end, lineWidth, reveal);
+        break;
+      case 'rectangle':
+      case 'circle':
+        drawBox(ctx, annotation, start, end, reveal);
+        break;
+      case 'step':
+        drawStep(ctx, annotation, start, end, scale);
+        break;
+      case 'callout':
+        drawCallout(ctx, annotation, start, end, scale, lineWidth);
+        break;
+    }
+    ctx.restore();
+  }
+}
@@ -0,0 +1,107 @@
+import { AutoZoomSettings, ClickData, ClicksData, ZoomEffect } from '../types';
+
+const DEFAULT_CLICK_DURATION = 2.0;
+const DEFAULT_CLICK_SCALE = 2.0;
+
+interface PlacedClick {
+  time: number;
+  x: number; // percent of frame
+  y: number;
+  source: ClickData;
+}
+
+function placeClicks(clicksData: ClicksData): PlacedClick[] {
+  return clicksData.clicks
+    .map(click => ({
+      time: click.time || click.timestamp || 0,
+      x: (click.x / (click.width || clicksData.width)) * 100,
+      y: (click.y / (click.height || clicksData.height)) * 100,
+      source: click,
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/** One zoom per click, the way click files were always imported. */
+export function clicksToZooms(clicksData: ClicksData): ZoomEffect[] {
+  return placeClicks(clicksData).map(click => ({
+    id: crypto.randomUUID(),
+    startTime: click.time,
+    endTime: click.time + (click.source.duration || DEFAULT_CLICK_DURATION),
+    x: click.x,
+    y: click.y,
+    scale: click.source.zoomLevel || DEFAULT_CLICK_SCALE,
+    transition: 'smooth',
+    type: 'autozoom',
+    originalData: click.source,
+    sourceClicks: [click.source],
+  }));
+}
+
+function clusterToZoom(cluster: PlacedClick[], settings: AutoZoomSettings): ZoomEffect {
+  const first = cluster[0];
+  const last = cluster[cluster.length - 1];
+  const xs = cluster.map(click => click.x);
+  const ys = cluster.map(click => click.y);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+
+  // Zoom out far enough that the whole spread (plus a margin) stays in view
+  const spread = Math.max(maxX - minX, maxY - minY);
+  const fitScale = 100 / Math.max(spread * 1.5, 100 / settings.maxScale);
+  const scale = cluster.length === 1 && first.source.zoomLevel
+    ? first.source.zoomLevel
+    : Math.max(settings.minScale, Math.min(settings.maxScale, fitScale));
+
+  const startTime = Math.max(0, first.time - settings.leadIn);
+  const endTime = Math.max(
+    last.time + settings.holdAfter,
+    startTime + settings.minHold,
+    ...cluster.map(click => click.time + (click.source.duration ?? 0))
+  );
+
+  return {
+    id: crypto.randomUUID(),
+    startTime,
+    endTime,
+    x: (minX + maxX) / 2,
+    y: (minY + maxY) / 2,
+    scale: Math.round(scale * 10) / 10,
+    transition: 'smooth',
+    type: 'autozoom',
+    originalData: first.source,
+    sourceClicks: cluster.map(click => click.source),
+  };
+}
+
+/**
+ * Group clicks that happen close together in time and space into single zooms,
+ * then merge zooms that would follow each other too closely to read.
+ */
+export function generateAutoZooms(clicksData: ClicksData, settings: AutoZoomSettings): ZoomEffect[] {
+  const clicks = placeClicks(clicksData);
+  const clusters: PlacedClick[][] = [];
+
+  for (const click of clicks) {
+    const cluster = clusters[clusters.length - 1];
+    const previous = cluster?.[cluster.length - 1];
+    if (cluster && click.time - previous.time <= settings.clusterGap &&
+        Math.hypot(click.x - cluster[0].x, click.y - cluster[0].y) <= settings.clusterRadius) {
+      cluster.push(click);
+    } else {
+      clusters.push([click]);
+    }
+  }
+
+  const zooms: { clicks: PlacedClick[]; zoom: ZoomEffect }[] = [];
+  for (const cluster of clusters) {
+    const zoom = clusterToZoom(cluster, settings);
+    const previous = zooms[zooms.length - 1];
+    if (previous && zoom.startTime - previous.zoom.endTime < settings.minGap) {
+      previous.clicks = [...previous.clicks, ...cluster];
+      previous.zoom = clusterToZoom(previous.clicks, settings);
+    } else {
+      zooms.push({ clicks: cluster, zoom });
+    }
+  }
+  return zooms.map(entry => entry.zoom);
+}
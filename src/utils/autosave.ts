@@ -0,0 +1,103 @@
+import { AutosaveSession, RecoverableSession } from '../types';
+
+const DB_NAME = 'smart-zoom-editor';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const VIDEO_STORE = 'video';
+const CURRENT_KEY = 'current';
+
+// Editing state is written after this much idle time, so slider drags don't hammer IndexedDB
+export const AUTOSAVE_DELAY_MS = 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+        if (!db.objectStoreNames.contains(VIDEO_STORE)) db.createObjectStore(VIDEO_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry instead of caching the failure forever
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Store a clip's source video under its clip id. Called once per file, the blob is large. */
+export async function saveAutosaveVideo(clipId: string, file: File): Promise<void> {
+  await withStore(VIDEO_STORE, 'readwrite', store => store.put(file, clipId));
+}
+
+/** Store a clip's webcam video next to its source video. */
+export async function saveAutosaveWebcam(clipId: string, file: File): Promise<void> {
+  await withStore(VIDEO_STORE, 'readwrite', store => store.put(file, `${clipId}:webcam`));
+}
+
+/** Drop a removed clip's videos so they don't hold on to storage quota. */
+export async function deleteAutosaveVideo(clipId: string): Promise<void> {
+  await withStore(VIDEO_STORE, 'readwrite', store => store.delete(clipId));
+  await deleteAutosaveWebcam(clipId);
+}
+
+export async function deleteAutosaveWebcam(clipId: string): Promise<void> {
+  await withStore(VIDEO_STORE, 'readwrite', store => store.delete(`${clipId}:webcam`));
+}
+
+/**
+ * Drop every stored video when a new session starts; it stores its own.
+ * One transaction, so it is ordered before the new session's first video write.
+ */
+export async function clearAutosaveVideos(): Promise<void> {
+  await withStore(VIDEO_STORE, 'readwrite', store => store.clear());
+}
+
+export async function saveAutosaveSession(session: AutosaveSession): Promise<void> {
+  await withStore(SESSION_STORE, 'readwrite', store => store.put(session, CURRENT_KEY));
+}
+
+/** Returns the unfinished session left behind by a crash or closed tab, if any. */
+export async function loadAutosave(): Promise<RecoverableSession | null> {
+  const session = await withStore<AutosaveSession | undefined>(SESSION_STORE, 'readonly', store => store.get(CURRENT_KEY));
+  if (!session?.clips.length) return null;
+
+  const clipFiles: Record<string, File> = {};
+  for (const clip of session.clips) {
+    const file = await withStore<File | undefined>(VIDEO_STORE, 'readonly', store => store.get(clip.id));
+    if (!file) return null;
+    clipFiles[clip.id] = file;
+  }
+  // A missing webcam only loses the bubble, so it doesn't block recovery
+  const webcamFiles: Record<string, File> = {};
+  for (const clip of session.clips) {
+    if (!clip.webcamName) continue;
+    const file = await withStore<File | undefined>(VIDEO_STORE, 'readonly', store => store.get(`${clip.id}:webcam`));
+    if (file) webcamFiles[clip.id] = file;
+  }
+  return { session, clipFiles, webcamFiles };
+}
+
+export async function clearAutosave(): Promise<void> {
+  await withStore(SESSION_STORE, 'readwrite', store => store.delete(CURRENT_KEY));
+  await withStore(VIDEO_STORE, 'readwrite', store => store.clear());
+}
@@ -0,0 +1,95 @@
+import { ClipTransition, EditorDocument } from '../types';
+import { FrameSampler } from './activityAnalysis';
+import { getOutputDuration } from './timeMap';
+
+/** The slice of a clip the project layout needs. */
+export interface LayoutClip {
+  duration: number;
+  document: Pick<EditorDocument, 'cuts' | 'speedRamps'>;
+  transitionToNext: ClipTransition;
+}
+
+export interface ClipPlacement {
+  start: number;          // output time the clip starts at
+  outputDuration: number; // after its own cuts and speed ramps
+  fadeIn: number;         // seconds overlapping the previous clip
+  fadeOut: number;        // seconds overlapping the next clip
+}
+
+/** Crossfades can't be longer than half of either clip, or three clips would overlap. */
+function getFadeDuration(transition: ClipTransition, before: number, after: number): number {
+  if (transition.type !== 'crossfade') return 0;
+  return Math.max(0, Math.min(transition.duration, before / 2, after / 2));
+}
+
+/** Where every clip sits on the concatenated output timeline, in order. */
+export function getClipPlacements(clips: LayoutClip[]): ClipPlacement[] {
+  const lengths = clips.map(clip => getOutputDuration(clip.duration, clip.document.cuts, clip.document.speedRamps));
+  const placements: ClipPlacement[] = [];
+  let start = 0;
+  clips.forEach((clip, i) => {
+    const fadeIn = placements[i - 1]?.fadeOut ?? 0;
+    const fadeOut = i < clips.length - 1 ? getFadeDuration(clip.transitionToNext, lengths[i], lengths[i + 1]) : 0;
+    start -= fadeIn;
+    placements.push({ start, outputDuration: lengths[i], fadeIn, fadeOut });
+    start += lengths[i];
+  });
+  return placements;
+}
+
+export function getProjectDuration(clips: LayoutClip[]): number {
+  const placements = getClipPlacements(clips);
+  const last = placements[placements.length - 1];
+  return last ? last.start + last.outputDuration : 0;
+}
+
+/** Read a video file's duration without adding it to the page. */
+export function probeVideoDuration(file: File): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(video.duration);
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read "${file.name}".`));
+    };
+    video.src = url;
+  });
+}
+
+export interface ClipSampler extends FrameSampler {
+  dispose: () => void;
+}
+
+/** An offscreen <video> for a clip that isn't loaded in the player, e.g. the other side of a crossfade. */
+export function createClipSampler(file: File): Promise<ClipSampler> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    const dispose = () => {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    };
+    video.onloadeddata = () => resolve({
+      seekAndWait: (time: number) => new Promise<void>((done) => {
+        const handleSeeked = () => { video.removeEventListener('seeked', handleSeeked); done(); };
+        video.addEventListener('seeked', handleSeeked);
+        video.currentTime = time;
+      }),
+      getVideoElement: () => video,
+      dispose,
+    });
+    video.onerror = () => {
+      dispose();
+      reject(new Error(`Could not load "${file.name}" for export.`));
+    };
+    video.src = url;
+  });
+}
@@ -0,0 +1,81 @@
+import { ClicksData, CursorFollowPath, CursorSample, ZoomEffect, ZoomSettings } from '../types';
+import { getZoomPathPoint } from './zoomInterpolation';
+
+// Camera simulation rate; the baked path is sampled at this step
+const FOLLOW_STEP = 1 / 60;
+
+/** Mouse-move samples (and clicks, which are cursor positions too) as a time-sorted track in percent. */
+export function clicksToCursorTrack(clicksData: ClicksData): CursorSample[] {
+  const toSample = (p: { time?: number; timestamp?: number; x: number; y: number; width?: number; height?: number }, click: boolean): CursorSample => ({
+    time: p.time || p.timestamp || 0,
+    x: (p.x / (p.width || clicksData.width)) * 100,
+    y: (p.y / (p.height || clicksData.height)) * 100,
+    ...(click ? { click } : {}),
+  });
+  return [...(clicksData.moves ?? []).map(move => toSample(move, false)), ...clicksData.clicks.map(click => toSample(click, true))]
+    .filter(sample => Number.isFinite(sample.x) && Number.isFinite(sample.y))
+    .sort((a, b) => a.time - b.time);
+}
+
+/** Pointer position at `time`, linearly interpolated between samples. */
+export function getCursorPosition(track: CursorSample[], time: number): { x: number; y: number } | null {
+  if (!track.length) return null;
+  if (time <= track[0].time) return track[0];
+  if (time >= track[track.length - 1].time) return track[track.length - 1];
+
+  let lo = 0;
+  let hi = track.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (track[mid].time <= time) lo = mid; else hi = mid;
+  }
+  const a = track[lo];
+  const b = track[hi];
+  const t = b.time > a.time ? (time - a.time) / (b.time - a.time) : 0;
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+// Distance the pointer is beyond the dead zone, signed; 0 inside it
+const beyond = (delta: number, deadZone: number) =>
+  Math.abs(delta) <= deadZone ? 0 : delta - Math.sign(delta) * deadZone;
+
+/**
+ * Simulate a damped camera chasing the cursor over the zoom's range.
+ * Stepping from the zoom's start keeps the result a pure function of the inputs,
+ * so seeking, preview and export all land on the same framing.
+ */
+export function buildFollowPath(zoom: ZoomEffect, track: CursorSample[], settings: ZoomSettings): CursorFollowPath | undefined {
+  const start = getCursorPosition(track, zoom.startTime);
+  if (!start) return undefined;
+
+  const alpha = settings.followDamping > 0 ? 1 - Math.exp(-FOLLOW_STEP / settings.followDamping) : 1;
+  const steps = Math.max(1, Math.ceil((zoom.endTime - zoom.startTime) / FOLLOW_STEP));
+  const points: number[] = [];
+  let x = start.x;
+  let y = start.y;
+
+  for (let i = 0; i <= steps; i++) {
+    const time = zoom.startTime + i * FOLLOW_STEP;
+    const half = 50 / Math.max(1, getZoomPathPoint(zoom, time).scale);
+    const cursor = getCursorPosition(track, time)!;
+    const deadZone = settings.followDeadZone * half;
+
+    if (i > 0) {
+      x += beyond(cursor.x - x, deadZone) * alpha;
+      y += beyond(cursor.y - y, deadZone) * alpha;
+    }
+    // Keep the camera where the viewport can actually be, so it reacts at once when the pointer comes back
+    x = Math.max(half, Math.min(100 - half, x));
+    y = Math.max(half, Math.min(100 - half, y));
+    points.push(x, y);
+  }
+  return { step: FOLLOW_STEP, points };
+}
+
+/** Attach baked follow paths to cursor-follow zooms; other zooms pass through untouched. */
+export function applyCursorFollow(zooms: ZoomEffect[], track: CursorSample[], settings: ZoomSettings): ZoomEffect[] {
+  if (!track.length || !zooms.some(zoom => zoom.followCursor)) return zooms;
+  return zooms.map(zoom => zoom.followCursor
+    ? { ...zoom, followPath: buildFollowPath({ ...zoom, followPath: undefined }, track, settings) }
+    : zoom);
+}
@@ -0,0 +1,100 @@
+import { CursorSample, CursorSettings } from '../types';
+import { getCursorPosition } from './cursorFollow';
+import { ZoomViewport } from './zoomInterpolation';
+
+// Sizes in CursorSettings are authored against a 1080p frame
+const REFERENCE_HEIGHT = 1080;
+const SMOOTHING_SAMPLES = 8;
+
+// Classic arrow pointer, unit height, hotspot at the tip (0, 0)
+const ARROW: [number, number][] = [
+  [0, 0], [0, 0.78], [0.2, 0.6], [0.33, 0.9], [0.45, 0.85], [0.32, 0.56], [0.57, 0.56],
+];
+
+/**
+ * Cursor position averaged over the smoothing window behind `time`.
+ * Sampling the track instead of carrying state keeps every frame independent.
+ */
+export function getSmoothedCursorPosition(track: CursorSample[], time: number, smoothing: number): { x: number; y: number } | null {
+  if (smoothing <= 0) return getCursorPosition(track, time);
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < SMOOTHING_SAMPLES; i++) {
+    const p = getCursorPosition(track, time - (smoothing * i) / (SMOOTHING_SAMPLES - 1));
+    if (!p) return null;
+    x += p.x;
+    y += p.y;
+  }
+  return { x: x / SMOOTHING_SAMPLES, y: y / SMOOTHING_SAMPLES };
+}
+
+/** Index of the first sample at or after `time` in the time-sorted track. */
+function findFirstSampleFrom(track: CursorSample[], time: number): number {
+  let lo = 0;
+  let hi = track.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (track[mid].time < time) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
+/** Draw click ripples and the pointer, mapped from source percent through the zoom viewport. */
+export function drawCursorLayer(
+  ctx: CanvasRenderingContext2D,
+  track: CursorSample[],
+  settings: CursorSettings,
+  time: number,
+  viewport: ZoomViewport,
+  W: number,
+  H: number
+) {
+  if (!settings.enabled || !track.length) return;
+  const unit = H / REFERENCE_HEIGHT;
+  const toScreen = (x: number, y: number) => ({
+    sx: ((x / 100 - viewport.left) / viewport.width) * W,
+    sy: ((y / 100 - viewport.top) / viewport.height) * H,
+  });
+
+  ctx.save();
+  if (settings.ripples && settings.rippleDuration > 0) {
+    // Only clicks from the last rippleDuration can still be rippling
+    for (let i = findFirstSampleFrom(track, time - settings.rippleDuration); i < track.length; i++) {
+      const sample = track[i];
+      const age = time - sample.time;
+      if (age < 0) break; // track is time-sorted
+      if (!sample.click) continue;
+      const progress = age / settings.rippleDuration;
+      const { sx, sy } = toScreen(sample.x, sample.y);
+      ctx.globalAlpha = 1 - progress;
+      ctx.strokeStyle = settings.rippleColor;
+      ctx.lineWidth = settings.size * 0.1 * unit;
+      ctx.beginPath();
+      ctx.arc(sx, sy, settings.size * unit * (0.2 + 0.8 * progress), 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  const position = getSmoothedCursorPosition(track, time, settings.smoothing);
+  if (position) {
+    const { sx, sy } = toScreen(position.x, position.y);
+    const size = settings.size * unit;
+    ctx.beginPath();
+    ARROW.forEach(([px, py], i) => {
+      if (i === 0) ctx.moveTo(sx + px * size, sy + py * size);
+      else ctx.lineTo(sx + px * size, sy + py * size);
+    });
+    ctx.closePath();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.4)';
+    ctx.shadowBlur = size * 0.15;
+    ctx.fillStyle = settings.color;
+    ctx.fill();
+    ctx.shadowColor = 'transparent';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = Math.max(1, size * 0.05);
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+    ctx.stroke();
+  }
+  ctx.restore();
+}
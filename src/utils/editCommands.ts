@@ -0,0 +1,74 @@
+import { EditCommand, EditorDocument } from '../types';
+
+// Every editable collection on the document is a list of items with an id
+type CollectionKey = {
+  [K in keyof EditorDocument]: EditorDocument[K] extends Array<{ id: string }> ? K : never
+}[keyof EditorDocument];
+type ItemOf<K extends CollectionKey> = EditorDocument[K][number];
+
+const getItems = <K extends CollectionKey>(doc: EditorDocument, key: K) => doc[key] as ItemOf<K>[];
+const withItems = <K extends CollectionKey>(doc: EditorDocument, key: K, items: ItemOf<K>[]): EditorDocument => ({ ...doc, [key]: items });
+
+export function addItemsCommand<K extends CollectionKey>(key: K, items: ItemOf<K>[], label: string): EditCommand {
+  const ids = new Set(items.map(item => item.id));
+  return {
+    label,
+    apply: doc => withItems(doc, key, [...getItems(doc, key), ...items]),
+    revert: doc => withItems(doc, key, getItems(doc, key).filter(item => !ids.has(item.id))),
+  };
+}
+
+export function addItemCommand<K extends CollectionKey>(key: K, item: ItemOf<K>, label: string): EditCommand {
+  return addItemsCommand(key, [item], label);
+}
+
+export function updateItemCommand<K extends CollectionKey>(key: K, before: ItemOf<K>, after: ItemOf<K>, label: string, mergeKey?: string): EditCommand {
+  return {
+    label,
+    mergeKey,
+    apply: doc => withItems(doc, key, getItems(doc, key).map(item => item.id === after.id ? after : item)),
+    revert: doc => withItems(doc, key, getItems(doc, key).map(item => item.id === before.id ? before : item)),
+  };
+}
+
+/** Replace a whole non-collection field of the document, e.g. a settings object. */
+export function setFieldCommand<K extends keyof EditorDocument>(key: K, before: EditorDocument[K], after: EditorDocument[K], label: string, mergeKey?: string): EditCommand {
+  return {
+    label,
+    mergeKey,
+    apply: doc => ({ ...doc, [key]: after }),
+    revert: doc => ({ ...doc, [key]: before }),
+  };
+}
+
+export function removeItemCommand<K extends CollectionKey>(key: K, item: ItemOf<K>, index: number, label: string): EditCommand {
+  return {
+    label,
+    apply: doc => withItems(doc, key, getItems(doc, key).filter(i => i.id !== item.id)),
+    revert: doc => {
+      const items = [...getItems(doc, key)];
+      items.splice(Math.min(index, items.length), 0, item);
+      return withItems(doc, key, items);
+    },
+  };
+}
+
+/** Swap a set of items for another in one step, e.g. two overlapping zooms for their merged result. */
+export function replaceItemsCommand<K extends CollectionKey>(key: K, before: ItemOf<K>[], after: ItemOf<K>[], label: string): EditCommand {
+  const beforeIds = new Set(before.map(item => item.id));
+  const afterIds = new Set(after.map(item => item.id));
+  return {
+    label,
+    apply: doc => withItems(doc, key, [...getItems(doc, key).filter(item => !beforeIds.has(item.id)), ...after]),
+    revert: doc => withItems(doc, key, [...getItems(doc, key).filter(item => !afterIds.has(item.id)), ...before]),
+  };
+}
+
+/** Run several commands as one undo step, e.g. everything a single import changes. */
+export function combineCommands(label: string, commands: EditCommand[]): EditCommand {
+  return {
+    label,
+    apply: doc => commands.reduce((next, command) => command.apply(next), doc),
+    revert: doc => commands.reduceRight((next, command) => command.revert(next), doc),
+  };
+}
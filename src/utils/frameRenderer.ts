@@ -0,0 +1,208 @@
+import { ZoomEffect, SpotlightEffect, ZoomSettings, TextOverlay, Annotation, ImageOverlay, CursorSample, CursorSettings, RedactionRegion, ReframeKeyframe, WebcamSettings, WebcamHideRange } from '../types';
+import { getExportInterpolatedZoom, getZoomViewport } from './zoomInterpolation';
+import { drawCursorLayer } from './cursorOverlay';
+import { applyRedactions } from './redaction';
+import { drawSpotlightLayer } from './spotlight';
+import { drawAnnotationLayer } from './annotations';
+import { drawImageOverlays } from './imageOverlay';
+import { drawWebcamBubble, getWebcamBubble } from './webcam';
+import { getTextAnimationFrame } from './textAnimation';
+
+/**
+ * Everything needed to draw a frame besides the video itself.
+ * Preview and export build this from the same project state so they render identically.
+ */
+export interface FrameScene {
+  zoomEffects: ZoomEffect[];
+  spotlights: SpotlightEffect[];
+  zoomSettings: ZoomSettings;
+  textOverlays: TextOverlay[];
+  annotations: Annotation[];
+  imageOverlays: ImageOverlay[]; // images must be preloaded; unloaded ones are skipped
+  cursorTrack: CursorSample[];
+  cursorSettings: CursorSettings;
+  keystrokeOverlays: TextOverlay[]; // badges derived from the keystroke track
+  redactions: RedactionRegion[];
+  reframeKeyframes: ReframeKeyframe[]; // manual crop path; only used when the output is reframed
+  webcamSettings: WebcamSettings;
+  webcamHides: WebcamHideRange[];
+}
+
+export interface FrameSource {
+  image: CanvasImageSource;
+  width: number; // intrinsic size of the source, e.g. video.videoWidth
+  height: number;
+}
+
+export interface DrawFrameOptions {
+  // Text overlay being composed in the sidebar; drawn with a dashed outline (preview only)
+  draftOverlay?: TextOverlay | null;
+  // The clip's webcam video, already at this frame's time plus the sync offset; drawn as a bubble
+  webcam?: FrameSource | null;
+}
+
+const TEXT_LINE_HEIGHT = 1.2;
+const TEXT_MAX_WIDTH = 0.8; // fraction of the frame width, like the old preview's maxWidth: 80%
+
+/** Break text into lines that fit maxWidth, keeping explicit line breaks. */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    const words = paragraph.split(' ');
+    let line = '';
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Draw a text overlay; `time` plays its enter/exit animation, null draws it settled (the draft). */
+function drawTextOverlay(ctx: CanvasRenderingContext2D, overlay: TextOverlay, W: number, H: number, pxScale: number, time: number | null, draft = false) {
+  // Sizes are authored in source-video pixels; pxScale maps them onto the output canvas
+  const fontSize = (overlay.fontSize || 24) * pxScale;
+  const fontFamily = overlay.fontFamily || 'Arial';
+  const color = overlay.color || '#ffffff';
+  const backgroundColor = overlay.backgroundColor || 'transparent';
+  const padding = (overlay.padding ?? 8) * pxScale;
+  const borderRadius = (overlay.borderRadius ?? 4) * pxScale;
+
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `bold ${fontSize}px ${fontFamily}, sans-serif`;
+
+  const lines = wrapText(ctx, overlay.text || '', W * TEXT_MAX_WIDTH - 2 * padding);
+  const maxWidth = Math.max(...lines.map((line) => ctx.measureText(line).width));
+  const totalTextHeight = lines.length * fontSize * TEXT_LINE_HEIGHT;
+
+  const rectWidth = maxWidth + 2 * padding;
+  const rectHeight = totalTextHeight + 2 * padding;
+  const xPos = (overlay.x / 100) * W;
+  const yPos = (overlay.y / 100) * H;
+  const rectX = xPos - rectWidth / 2;
+  const rectY = yPos - rectHeight / 2;
+
+  let reveal = 1;
+  if (time !== null) {
+    const frame = getTextAnimationFrame(overlay, time, { x: rectX, y: rectY, width: rectWidth, height: rectHeight }, W, H);
+    ctx.globalAlpha = frame.alpha;
+    ctx.translate(xPos + frame.dx, yPos + frame.dy);
+    ctx.scale(frame.scale, frame.scale);
+    ctx.translate(-xPos, -yPos);
+    reveal = frame.reveal;
+  }
+
+  if (backgroundColor && backgroundColor !== 'transparent') {
+    ctx.fillStyle = backgroundColor;
+    ctx.beginPath();
+    if (borderRadius > 0) {
+      ctx.roundRect(rectX, rectY, rectWidth, rectHeight, borderRadius);
+    } else {
+      ctx.rect(rectX, rectY, rectWidth, rectHeight);
+    }
+    ctx.fill();
+  }
+
+  ctx.fillStyle = color;
+  ctx.strokeStyle = 'black';
+  ctx.lineWidth = fontSize * 0.05;
+  // Typing out keeps the wrapped layout and grows each line from its left end
+  let typed = reveal < 1 ? Math.round(reveal * lines.reduce((total, line) => total + line.length, 0)) : Infinity;
+  if (reveal < 1) ctx.textAlign = 'left';
+  lines.forEach((line, index) => {
+    const lineY = yPos - totalTextHeight / 2 + index * fontSize * TEXT_LINE_HEIGHT + (fontSize * TEXT_LINE_HEIGHT) / 2;
+    if (reveal < 1) {
+      const shown = line.slice(0, Math.max(0, typed));
+      typed -= line.length;
+      const lineX = xPos - ctx.measureText(line).width / 2;
+      ctx.strokeText(shown, lineX, lineY);
+      ctx.fillText(shown, lineX, lineY);
+      return;
+    }
+    ctx.strokeText(line, xPos, lineY);
+    ctx.fillText(line, xPos, lineY);
+  });
+
+  if (draft) {
+    ctx.setLineDash([6 * pxScale, 4 * pxScale]);
+    ctx.strokeStyle = '#00ff00';
+    ctx.lineWidth = 2 * pxScale;
+    ctx.strokeRect(rectX, rectY, rectWidth, rectHeight);
+  }
+  ctx.restore();
+}
+
+/**
+ * Draw one output frame: the redacted source cropped to the zoom viewport, then screen-space overlays.
+ * The output size is whatever ctx.canvas is; it does not have to match the source size.
+ */
+export function drawFrameToCanvas(
+  ctx: CanvasRenderingContext2D,
+  source: FrameSource,
+  time: number,
+  scene: FrameScene,
+  options: DrawFrameOptions = {}
+) {
+  const W = ctx.canvas.width;
+  const H = ctx.canvas.height;
+
+  ctx.save();
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, W, H);
+
+  // redact in source space first so blurred regions scale with the zoom
+  const frame = applyRedactions(source, scene.redactions, time);
+
+  // zoom via source rect
+  const zoom = getExportInterpolatedZoom(time, scene.zoomEffects, scene.zoomSettings);
+  const viewport = getZoomViewport(zoom ?? { x: 50, y: 50, scale: 1 });
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    frame.image,
+    viewport.left * frame.width, viewport.top * frame.height,
+    viewport.width * frame.width, viewport.height * frame.height,
+    0, 0, W, H
+  );
+  ctx.restore();
+
+  const pxScale = source.height > 0 ? H / source.height : 1;
+
+  // images placed on the recording zoom with it; screen-fixed ones are drawn after the cursor
+  drawImageOverlays(ctx, scene.imageOverlays.filter(overlay => !overlay.fixedToScreen), time, viewport, W, H);
+
+  // spotlights darken the recording but leave the cursor and text bright
+  drawSpotlightLayer(ctx, scene.spotlights, time, viewport, W, H, pxScale);
+
+  // annotations mark up the recording itself, so they follow the zoom like the cursor
+  drawAnnotationLayer(ctx, scene.annotations, time, viewport, W, H, pxScale);
+
+  // cursor sits on the recording, under the text
+  drawCursorLayer(ctx, scene.cursorTrack, scene.cursorSettings, time, viewport, W, H);
+
+  // logos and watermarks stay put while the video zooms
+  drawImageOverlays(ctx, scene.imageOverlays.filter(overlay => overlay.fixedToScreen), time, viewport, W, H);
+
+  // webcam bubble sits in screen space, under captions
+  if (options.webcam && scene.webcamSettings.enabled) {
+    const bubble = getWebcamBubble(scene.webcamSettings, scene.webcamHides, scene.zoomEffects, scene.zoomSettings, time, W, H);
+    drawWebcamBubble(ctx, options.webcam, scene.webcamSettings, bubble);
+  }
+
+  // overlays
+  for (const overlay of [...scene.textOverlays, ...scene.keystrokeOverlays]) {
+    if (time >= overlay.startTime && time <= overlay.endTime) {
+      drawTextOverlay(ctx, overlay, W, H, pxScale, time);
+    }
+  }
+  if (options.draftOverlay) {
+    drawTextOverlay(ctx, options.draftOverlay, W, H, pxScale, null, true);
+  }
+}
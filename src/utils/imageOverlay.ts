@@ -0,0 +1,104 @@
+import { ImageOverlay } from '../types';
+import { ZoomViewport } from './zoomInterpolation';
+
+// Decoded images by data URL. Frames are drawn synchronously, so images load ahead of time
+const images = new Map<string, Promise<HTMLImageElement>>();
+const loaded = new Map<string, HTMLImageElement>();
+
+/** Decode an overlay's image once; later calls share the same promise. */
+export function loadOverlayImage(src: string): Promise<HTMLImageElement> {
+  let image = images.get(src);
+  if (!image) {
+    image = new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => {
+        loaded.set(src, img);
+        resolve(img);
+      };
+      img.onerror = () => {
+        images.delete(src);
+        reject(new Error('Could not decode overlay image.'));
+      };
+      img.src = src;
+    });
+    images.set(src, image);
+  }
+  return image;
+}
+
+/** Load every image the overlays use, e.g. before export starts drawing frames. */
+export async function preloadOverlayImages(overlays: ImageOverlay[]): Promise<void> {
+  await Promise.all([...new Set(overlays.map(overlay => overlay.src))].map(loadOverlayImage));
+}
+
+/** The decoded image for a data URL, or null until loadOverlayImage has finished with it. */
+export function getLoadedImage(src: string): HTMLImageElement | null {
+  return loaded.get(src) ?? null;
+}
+
+/** Read an image file into an overlay's src and aspect ratio. */
+export async function readOverlayImage(file: File): Promise<{ src: string; aspectRatio: number }> {
+  const src = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Could not read "${file.name}".`));
+    reader.readAsDataURL(file);
+  });
+  const image = await loadOverlayImage(src);
+  // SVGs without a viewBox may report no size; treat them as square
+  const aspectRatio = image.naturalWidth > 0 && image.naturalHeight > 0 ? image.naturalHeight / image.naturalWidth : 1;
+  return { src, aspectRatio };
+}
+
+export type ImageOverlayCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+const CORNER_MARGIN = 3; // percent of the frame width
+
+/** Centre position that tucks the overlay into a corner of a frame with the given width / height. */
+export function getCornerPosition(
+  overlay: Pick<ImageOverlay, 'width' | 'aspectRatio'>,
+  corner: ImageOverlayCorner,
+  frameAspect: number
+): { x: number; y: number } {
+  // Height and margin in percent of the frame height
+  const height = overlay.width * overlay.aspectRatio * frameAspect;
+  const marginY = CORNER_MARGIN * frameAspect;
+  const x = CORNER_MARGIN + overlay.width / 2;
+  const y = marginY + height / 2;
+  return {
+    x: corner.endsWith('left') ? x : 100 - x,
+    y: corner.startsWith('top') ? y : 100 - y,
+  };
+}
+
+/**
+ * Draw the image overlays visible at `time`. Screen-fixed ones ignore the zoom; the rest are
+ * mapped from source percent through the viewport so they move and scale with the recording.
+ * Images that haven't finished loading are skipped.
+ */
+export function drawImageOverlays(
+  ctx: CanvasRenderingContext2D,
+  overlays: ImageOverlay[],
+  time: number,
+  viewport: ZoomViewport,
+  W: number,
+  H: number
+) {
+  for (const overlay of overlays) {
+    if (time < overlay.startTime || time > overlay.endTime) continue;
+    const image = loaded.get(overlay.src);
+    if (!image) continue;
+
+    const view = overlay.fixedToScreen ? { left: 0, top: 0, width: 1, height: 1 } : viewport;
+    const w = (overlay.width / 100 / view.width) * W;
+    const h = w * overlay.aspectRatio;
+    const cx = ((overlay.x / 100 - view.left) / view.width) * W;
+    const cy = ((overlay.y / 100 - view.top) / view.height) * H;
+
+    ctx.save();
+    ctx.globalAlpha = Math.max(0, Math.min(1, overlay.opacity));
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, cx - w / 2, cy - h / 2, w, h);
+    ctx.restore();
+  }
+}
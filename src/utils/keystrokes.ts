@@ -0,0 +1,79 @@
+import { KeyEventData, KeystrokeSettings, TextOverlay } from '../types';
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta', 'AltGraph', 'CapsLock', 'Fn']);
+// Typed text is cut into a new badge past this length so it stays readable
+const MAX_BADGE_LENGTH = 32;
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  Enter: '⏎',
+  Backspace: '⌫',
+  Delete: 'Del',
+  Tab: 'Tab',
+};
+
+const isPrintable = (key: string) => key.length === 1;
+
+/** Human label for one key press, e.g. "Ctrl + Shift + P"; null for bare modifier presses. */
+export function formatKeyCombo(event: KeyEventData): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+  const commandLike = event.ctrlKey || event.altKey || event.metaKey;
+  // Shift on a character is already part of the character itself
+  if (!commandLike && isPrintable(event.key) && event.key !== ' ') return event.key;
+
+  const parts: string[] = [];
+  if (event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  if (event.metaKey) parts.push('Cmd');
+  parts.push(KEY_NAMES[event.key] ?? (isPrintable(event.key) ? event.key.toUpperCase() : event.key));
+  return parts.join(' + ');
+}
+
+/**
+ * Turn the keystroke track into timed badges. Characters typed in quick succession
+ * read as one word; combos pressed in quick succession sit side by side.
+ */
+export function getKeystrokeOverlays(events: KeyEventData[], settings: KeystrokeSettings): TextOverlay[] {
+  if (!settings.enabled) return [];
+  const badges: { start: number; last: number; text: string; typing: boolean }[] = [];
+
+  for (const event of [...events].sort((a, b) => a.time - b.time)) {
+    const badge = badges[badges.length - 1];
+    const continues = !!badge && event.time - badge.last <= settings.groupWindow;
+    // A space while typing is part of the text, not a "Space" key badge
+    const plainSpace = event.key === ' ' && !event.ctrlKey && !event.altKey && !event.metaKey;
+    const label = plainSpace && continues && badge.typing ? ' ' : formatKeyCombo(event);
+    if (!label) continue;
+    const typing = isPrintable(label);
+
+    if (continues && badge.text.length + label.length < MAX_BADGE_LENGTH) {
+      badge.text += typing && badge.typing ? label : `  ${label}`;
+      badge.typing = typing;
+      badge.last = event.time;
+    } else {
+      badges.push({ start: event.time, last: event.time, text: label, typing });
+    }
+  }
+
+  return badges.map((badge, i) => ({
+    id: `keystroke-${i}`,
+    startTime: badge.start,
+    // Never overlap the next badge in the same spot
+    endTime: Math.min(badge.last + settings.holdDuration, badges[i + 1]?.start ?? Infinity),
+    x: settings.x,
+    y: settings.y,
+    text: badge.text,
+    fontSize: settings.fontSize,
+    fontFamily: settings.fontFamily,
+    color: settings.color,
+    backgroundColor: settings.backgroundColor,
+    padding: settings.padding,
+    borderRadius: settings.borderRadius,
+  }));
+}
@@ -0,0 +1,491 @@
+import {
+  EditorDocument,
+  VideoProject,
+  ProjectFile,
+  ProjectFileClip,
+  DEFAULT_CLIP_TRANSITION,
+  SourceVideoInfo,
+  ZoomEffect,
+  ZoomKeyframe,
+  SpotlightEffect,
+  TextOverlay,
+  Annotation,
+  ImageOverlay,
+  CursorSample,
+  DEFAULT_EXPORT_SETTINGS,
+  DEFAULT_STAGE_SETTINGS,
+  DEFAULT_ZOOM_SETTINGS,
+  DEFAULT_CURSOR_SETTINGS,
+  DEFAULT_KEYSTROKE_SETTINGS,
+  DEFAULT_WEBCAM_SETTINGS,
+  ClipTransition,
+  ZoomSettings,
+  CursorSettings,
+  KeystrokeSettings,
+  WebcamSettings,
+  ExportSettings,
+  StageSettings,
+  KeyEventData,
+  CutRange,
+  SpeedRamp,
+  RedactionRegion,
+  ReframeKeyframe,
+} from '../types';
+
+export const PROJECT_FILE_FORMAT = 'smart-zoom-project';
+export const PROJECT_FILE_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.szproj.json';
+
+// Hashing a multi-GB recording in full would stall the tab, so we hash the size
+// plus the first and last 4 MB. That is plenty to tell two recordings apart.
+const HASH_SAMPLE_BYTES = 4 * 1024 * 1024;
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+export async function hashVideoFile(file: File): Promise<string> {
+  const head = await file.slice(0, HASH_SAMPLE_BYTES).arrayBuffer();
+  const tail = file.size > HASH_SAMPLE_BYTES
+    ? await file.slice(Math.max(HASH_SAMPLE_BYTES, file.size - HASH_SAMPLE_BYTES)).arrayBuffer()
+    : new ArrayBuffer(0);
+  const sizeBytes = new TextEncoder().encode(String(file.size));
+
+  const buf = new Uint8Array(sizeBytes.byteLength + head.byteLength + tail.byteLength);
+  buf.set(sizeBytes, 0);
+  buf.set(new Uint8Array(head), sizeBytes.byteLength);
+  buf.set(new Uint8Array(tail), sizeBytes.byteLength + head.byteLength);
+
+  const digest = await crypto.subtle.digest('SHA-256', buf);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function describeSourceVideo(file: File, duration: number): Promise<SourceVideoInfo> {
+  return {
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    duration,
+    hash: await hashVideoFile(file),
+  };
+}
+
+export async function createProjectFile(project: VideoProject): Promise<ProjectFile> {
+  const clips: ProjectFileClip[] = [];
+  for (const clip of project.clips) {
+    clips.push({
+      id: clip.id,
+      source: await describeSourceVideo(clip.file, clip.duration),
+      transitionToNext: clip.transitionToNext,
+      ...(clip.webcamSource ? { webcamSource: clip.webcamSource } : {}),
+      ...clip.document,
+    });
+  }
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt.toISOString(),
+    updatedAt: project.updatedAt.toISOString(),
+    clips,
+    exportSettings: project.exportSettings,
+    stage: project.stage,
+  };
+}
+
+export function downloadProjectFile(projectFile: ProjectFile) {
+  const json = JSON.stringify(projectFile, null, 2);
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const safeName = projectFile.name.replace(/[^\w.-]+/g, '_') || 'project';
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${safeName}${PROJECT_FILE_EXTENSION}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const ZOOM_EASINGS = ['linear', 'ease-in', 'ease-out', 'ease-in-out', 'cubic-bezier', 'spring'];
+const isOptional = (v: unknown, check: (v: unknown) => boolean) => v === undefined || check(v);
+const isNonNegative = (v: unknown) => isNumber(v) && v >= 0;
+const isPositive = (v: unknown) => isNumber(v) && v > 0;
+const isDuration = isNonNegative;
+const isString = (v: unknown) => typeof v === 'string';
+const isBoolean = (v: unknown) => typeof v === 'boolean';
+const isOneOf = (values: readonly string[]) => (v: unknown) => values.includes(v as string);
+
+function isZoomKeyframe(v: unknown): v is ZoomKeyframe {
+  return isObject(v) && typeof v.id === 'string' && isNumber(v.time)
+    && isNumber(v.x) && isNumber(v.y) && isNumber(v.scale) && v.scale > 0
+    && ZOOM_EASINGS.includes(v.easing as string);
+}
+
+function isZoomEffect(v: unknown): v is ZoomEffect {
+  return isObject(v) && typeof v.id === 'string'
+    && isNumber(v.startTime) && isNumber(v.endTime)
+    && isNumber(v.x) && isNumber(v.y) && isNumber(v.scale) && v.scale > 0
+    && (v.transition === 'smooth' || v.transition === 'instant')
+    && isOptional(v.keyframes, k => Array.isArray(k) && k.every(isZoomKeyframe))
+    && isOptional(v.transitionIn, isDuration) && isOptional(v.transitionOut, isDuration)
+    && isOptional(v.easing, e => ZOOM_EASINGS.includes(e as string))
+    && isOptional(v.easingBezier, b => Array.isArray(b) && b.length === 4 && b.every(isNumber))
+    && isOptional(v.followCursor, f => typeof f === 'boolean')
+    && isOptional(v.panToNext, p => p === 'auto' || p === 'always' || p === 'never');
+}
+
+function isCursorSample(v: unknown): v is CursorSample {
+  return isObject(v) && isNumber(v.time) && isNumber(v.x) && isNumber(v.y);
+}
+
+function isKeyEvent(v: unknown): v is KeyEventData {
+  return isObject(v) && isNumber(v.time) && typeof v.key === 'string';
+}
+
+function isCutRange(v: unknown): v is CutRange {
+  return isObject(v) && typeof v.id === 'string' && isNumber(v.startTime) && isNumber(v.endTime);
+}
+
+function isSourceVideo(v: unknown): v is SourceVideoInfo {
+  return isObject(v) && typeof v.name === 'string' && isNumber(v.size) && typeof v.hash === 'string';
+}
+
+function isSpeedRamp(v: unknown): v is SpeedRamp {
+  return isObject(v) && typeof v.id === 'string' && isNumber(v.startTime) && isNumber(v.endTime)
+    && isNumber(v.speed) && v.speed > 0;
+}
+
+const ANNOTATION_KINDS = ['arrow', 'rectangle', 'circle', 'step', 'callout'];
+const ANNOTATION_ANIMATIONS = ['none', 'fade', 'pop', 'draw'];
+
+function isAnnotation(v: unknown): v is Annotation {
+  return isObject(v) && typeof v.id === 'string' && isNumber(v.startTime) && isNumber(v.endTime)
+    && ANNOTATION_KINDS.includes(v.kind as string) && ANNOTATION_ANIMATIONS.includes(v.animation as string)
+    && isNumber(v.x1) && isNumber(v.y1) && isNumber(v.x2) && isNumber(v.y2)
+    && typeof v.strokeColor === 'string' && isNumber(v.strokeWidth);
+}
+
+function isImageOverlay(v: unknown): v is ImageOverlay {
+  return isObject(v) && typeof v.id === 'string' && isNumber(v.startTime) && isNumber(v.endTime)
+    && typeof v.name === 'string' && typeof v.src === 'string' && isNumber(v.aspectRatio)
+    && isNumber(v.x) && isNumber(v.y) && isNumber(v.width) && isNumber(v.opacity)
+    && typeof v.fixedToScreen === 'boolean';
+}
+
+function isSpotlight(v: unknown): v is SpotlightEffect {
+  return isObject(v) && typeof v.id === 'string' && isNumber(v.startTime) && isNumber(v.endTime)
+    && isNumber(v.x) && isNumber(v.y) && isNumber(v.width) && isNumber(v.height)
+    && (v.shape === 'rectangle' || v.shape === 'circle') && (v.style === 'dim' || v.style === 'desaturate')
+    && isNumber(v.intensity) && isNumber(v.feather);
+}
+
+function isRedactionBox(v: Record<string, unknown>): boolean {
+  return isNumber(v.x) && isNumber(v.y) && isNumber(v.width) && isNumber(v.height);
+}
+
+function isRedactionRegion(v: unknown): v is RedactionRegion {
+  return isObject(v) && typeof v.id === 'string' && isNumber(v.startTime) && isNumber(v.endTime)
+    && isRedactionBox(v) && (v.shape === 'rectangle' || v.shape === 'ellipse')
+    && (v.style === 'blur' || v.style === 'pixelate') && isNumber(v.strength)
+    && (v.keyframes === undefined || (Array.isArray(v.keyframes)
+      && v.keyframes.every(k => isObject(k) && typeof k.id === 'string' && isNumber(k.time) && isRedactionBox(k))));
+}
+
+function isReframeKeyframe(v: unknown): v is ReframeKeyframe {
+  return isObject(v) && typeof v.id === 'string' && isNumber(v.time) && isNumber(v.x) && isNumber(v.y);
+}
+
+const TEXT_ANIMATIONS = ['none', 'fade', 'slide-left', 'slide-right', 'slide-top', 'slide-bottom', 'pop', 'typewriter'];
+
+function isTextOverlay(v: unknown): v is TextOverlay {
+  return isObject(v) && typeof v.id === 'string'
+    && isNumber(v.startTime) && isNumber(v.endTime)
+    && isNumber(v.x) && isNumber(v.y) && typeof v.text === 'string'
+    && isNumber(v.fontSize) && typeof v.color === 'string' && typeof v.fontFamily === 'string'
+    && isOptional(v.backgroundColor, c => typeof c === 'string')
+    && isOptional(v.padding, isNumber) && isOptional(v.borderRadius, isNumber)
+    && isOptional(v.enterAnimation, a => TEXT_ANIMATIONS.includes(a as string))
+    && isOptional(v.exitAnimation, a => TEXT_ANIMATIONS.includes(a as string))
+    && isOptional(v.enterDuration, isDuration) && isOptional(v.exitDuration, isDuration);
+}
+
+type FieldChecks<T> = { [K in keyof T]-?: (v: unknown) => boolean };
+
+/** A saved settings object, keeping each field that passes its check and the default for the rest. */
+function parseSettings<T extends object>(value: unknown, defaults: T, checks: FieldChecks<T>): T {
+  const saved = isObject(value) ? value : {};
+  const settings = { ...defaults };
+  for (const key of Object.keys(checks) as (keyof T & string)[]) {
+    if (checks[key](saved[key])) settings[key] = saved[key] as T[typeof key];
+  }
+  return settings;
+}
+
+const CLIP_TRANSITION_CHECKS: FieldChecks<ClipTransition> = {
+  type: isOneOf(['cut', 'crossfade']),
+  duration: isDuration,
+};
+
+const ZOOM_SETTINGS_CHECKS: FieldChecks<ZoomSettings> = {
+  directPan: isBoolean,
+  directPanMaxGap: isDuration,
+  importOverlapStrategy: isOneOf(['keep', 'trim', 'merge', 'pan']),
+  followDeadZone: v => isNumber(v) && v >= 0 && v < 1,
+  followDamping: isDuration,
+};
+
+const CURSOR_SETTINGS_CHECKS: FieldChecks<CursorSettings> = {
+  enabled: isBoolean,
+  size: isPositive,
+  color: isString,
+  smoothing: isDuration,
+  ripples: isBoolean,
+  rippleColor: isString,
+  rippleDuration: isDuration,
+};
+
+const KEYSTROKE_SETTINGS_CHECKS: FieldChecks<KeystrokeSettings> = {
+  enabled: isBoolean,
+  x: isNumber,
+  y: isNumber,
+  groupWindow: isDuration,
+  holdDuration: isDuration,
+  fontSize: isPositive,
+  fontFamily: isString,
+  color: isString,
+  backgroundColor: isString,
+  padding: isNonNegative,
+  borderRadius: isNonNegative,
+};
+
+const WEBCAM_SETTINGS_CHECKS: FieldChecks<WebcamSettings> = {
+  enabled: isBoolean,
+  shape: isOneOf(['circle', 'rounded']),
+  corner: isOneOf(['top-left', 'top-right', 'bottom-left', 'bottom-right']),
+  size: isPositive,
+  offset: isNumber,
+  avoidZoom: isBoolean,
+  borderColor: isString,
+  borderWidth: isNonNegative,
+};
+
+const EXPORT_SETTINGS_CHECKS: FieldChecks<ExportSettings> = {
+  quality: isOneOf(['720p', '1080p', '1440p', '2160p']),
+  fps: isPositive,
+  includeAudio: isBoolean,
+  speedPreset: isOneOf(['ultrafast', 'superfast', 'veryfast', 'faster', 'fast']),
+  aspectRatio: isOneOf(['source', '9:16', '1:1', '4:5']),
+  reframeFollow: isOneOf(['zoom', 'clicks', 'manual']),
+};
+
+const STAGE_SETTINGS_CHECKS: FieldChecks<StageSettings> = {
+  enabled: isBoolean,
+  background: isOneOf(['gradient', 'solid', 'image']),
+  color: isString,
+  gradientTo: isString,
+  gradientAngle: isNumber,
+  imageSrc: isString,
+  aspectRatio: isOneOf(['source', '16:9', '4:3', '1:1']),
+  padding: isNonNegative,
+  cornerRadius: isNonNegative,
+  shadow: isNonNegative,
+};
+
+function parseClip(data: unknown, index: number): ProjectFileClip {
+  const where = `Clip ${index + 1}`;
+  if (!isObject(data)) throw new ProjectFileError(`${where} is not valid.`);
+  const source = data.source;
+  if (!isObject(source) || typeof source.name !== 'string' || !isNumber(source.size) || typeof source.hash !== 'string') {
+    throw new ProjectFileError(`${where} is missing source video information.`);
+  }
+  if (!Array.isArray(data.zoomEffects) || !data.zoomEffects.every(isZoomEffect)) {
+    throw new ProjectFileError(`${where} contains invalid zoom effects.`);
+  }
+  const spotlights = data.spotlights ?? [];
+  if (!Array.isArray(spotlights) || !spotlights.every(isSpotlight)) {
+    throw new ProjectFileError(`${where} contains invalid spotlights.`);
+  }
+  const textOverlays = data.textOverlays ?? [];
+  if (!Array.isArray(textOverlays) || !textOverlays.every(isTextOverlay)) {
+    throw new ProjectFileError(`${where} contains invalid text overlays.`);
+  }
+  const annotations = data.annotations ?? [];
+  if (!Array.isArray(annotations) || !annotations.every(isAnnotation)) {
+    throw new ProjectFileError(`${where} contains invalid annotations.`);
+  }
+  const imageOverlays = data.imageOverlays ?? [];
+  if (!Array.isArray(imageOverlays) || !imageOverlays.every(isImageOverlay)) {
+    throw new ProjectFileError(`${where} contains invalid image overlays.`);
+  }
+  const reframeKeyframes = data.reframeKeyframes ?? [];
+  if (!Array.isArray(reframeKeyframes) || !reframeKeyframes.every(isReframeKeyframe)) {
+    throw new ProjectFileError(`${where} contains an invalid reframe path.`);
+  }
+
+  const cursorTrack = data.cursorTrack ?? [];
+  if (!Array.isArray(cursorTrack) || !cursorTrack.every(isCursorSample)) {
+    throw new ProjectFileError(`${where} contains an invalid cursor track.`);
+  }
+
+  const keystrokes = data.keystrokes ?? [];
+  if (!Array.isArray(keystrokes) || !keystrokes.every(isKeyEvent)) {
+    throw new ProjectFileError(`${where} contains invalid keystrokes.`);
+  }
+
+  const cuts = data.cuts ?? [];
+  if (!Array.isArray(cuts) || !cuts.every(isCutRange)) {
+    throw new ProjectFileError(`${where} contains invalid cut ranges.`);
+  }
+
+  const speedRamps = data.speedRamps ?? [];
+  if (!Array.isArray(speedRamps) || !speedRamps.every(isSpeedRamp)) {
+    throw new ProjectFileError(`${where} contains invalid speed ramps.`);
+  }
+
+  const redactions = data.redactions ?? [];
+  if (!Array.isArray(redactions) || !redactions.every(isRedactionRegion)) {
+    throw new ProjectFileError(`${where} contains invalid redaction regions.`);
+  }
+
+  const webcamHides = data.webcamHides ?? [];
+  if (!Array.isArray(webcamHides) || !webcamHides.every(isCutRange)) {
+    throw new ProjectFileError(`${where} contains invalid webcam hide ranges.`);
+  }
+  if (data.webcamSource !== undefined && !isSourceVideo(data.webcamSource)) {
+    throw new ProjectFileError(`${where} has invalid webcam video information.`);
+  }
+
+  return {
+    id: typeof data.id === 'string' ? data.id : crypto.randomUUID(),
+    source: {
+      name: source.name,
+      size: source.size,
+      type: typeof source.type === 'string' ? source.type : '',
+      duration: isNumber(source.duration) ? source.duration : 0,
+      hash: source.hash,
+    },
+    transitionToNext: parseSettings(data.transitionToNext, DEFAULT_CLIP_TRANSITION, CLIP_TRANSITION_CHECKS),
+    zoomEffects: data.zoomEffects,
+    spotlights,
+    textOverlays,
+    annotations,
+    imageOverlays,
+    reframeKeyframes,
+    zoomSettings: parseSettings(data.zoomSettings, DEFAULT_ZOOM_SETTINGS, ZOOM_SETTINGS_CHECKS),
+    cursorTrack,
+    cursorSettings: parseSettings(data.cursorSettings, DEFAULT_CURSOR_SETTINGS, CURSOR_SETTINGS_CHECKS),
+    keystrokes,
+    keystrokeSettings: parseSettings(data.keystrokeSettings, DEFAULT_KEYSTROKE_SETTINGS, KEYSTROKE_SETTINGS_CHECKS),
+    webcamSettings: parseSettings(data.webcamSettings, DEFAULT_WEBCAM_SETTINGS, WEBCAM_SETTINGS_CHECKS),
+    webcamHides,
+    ...(data.webcamSource ? {
+      webcamSource: {
+        name: data.webcamSource.name,
+        size: data.webcamSource.size,
+        type: typeof data.webcamSource.type === 'string' ? data.webcamSource.type : '',
+        duration: isNumber(data.webcamSource.duration) ? data.webcamSource.duration : 0,
+        hash: data.webcamSource.hash,
+      },
+    } : {}),
+    cuts,
+    speedRamps,
+    redactions,
+  };
+}
+
+/**
+ * Upgrade older project files in place, one version at a time.
+ * Each step takes version N and returns version N + 1.
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2: projects hold a list of clips; a v1 project is a single clip
+  1: ({ id, name, createdAt, updatedAt, exportSettings, format, version, ...clip }) => ({
+    format, version, id, name, createdAt, updatedAt, exportSettings,
+    clips: [{ id: crypto.randomUUID(), ...clip }],
+  }),
+};
+
+export function parseProjectFile(json: string): ProjectFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new ProjectFileError('Project file is not valid JSON.');
+  }
+  if (!isObject(raw) || raw.format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError('This is not a Smart Zoom project file.');
+  }
+
+  let data = raw;
+  let version = isNumber(data.version) ? data.version : 0;
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(`Project file version ${version} is newer than this editor supports (${PROJECT_FILE_VERSION}).`);
+  }
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new ProjectFileError(`Cannot upgrade project file from version ${version}.`);
+    data = migrate(data);
+    version += 1;
+  }
+
+  if (!Array.isArray(data.clips) || data.clips.length === 0) {
+    throw new ProjectFileError('Project file has no clips.');
+  }
+  const clips = data.clips.map((clip: unknown, index: number) => parseClip(clip, index));
+
+  const now = new Date().toISOString();
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    id: typeof data.id === 'string' ? data.id : crypto.randomUUID(),
+    name: typeof data.name === 'string' ? data.name : clips[0].source.name,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : now,
+    updatedAt: typeof data.updatedAt === 'string' ? data.updatedAt : now,
+    clips,
+    exportSettings: parseSettings(data.exportSettings, DEFAULT_EXPORT_SETTINGS, EXPORT_SETTINGS_CHECKS),
+    stage: parseSettings(data.stage, DEFAULT_STAGE_SETTINGS, STAGE_SETTINGS_CHECKS),
+  };
+}
+
+/** The editable part of a saved clip, ready for the edit history. */
+export function getClipDocument(clip: ProjectFileClip): EditorDocument {
+  return {
+    zoomEffects: clip.zoomEffects,
+    spotlights: clip.spotlights,
+    textOverlays: clip.textOverlays,
+    annotations: clip.annotations,
+    imageOverlays: clip.imageOverlays,
+    reframeKeyframes: clip.reframeKeyframes,
+    zoomSettings: clip.zoomSettings,
+    cursorTrack: clip.cursorTrack,
+    cursorSettings: clip.cursorSettings,
+    keystrokes: clip.keystrokes,
+    keystrokeSettings: clip.keystrokeSettings,
+    webcamSettings: clip.webcamSettings,
+    webcamHides: clip.webcamHides,
+    cuts: clip.cuts,
+    speedRamps: clip.speedRamps,
+    redactions: clip.redactions,
+  };
+}
+
+export async function readProjectFile(file: File): Promise<ProjectFile> {
+  return parseProjectFile(await file.text());
+}
+
+export type SourceMatch = 'match' | 'renamed' | 'mismatch';
+
+/**
+ * Check whether `file` is the recording the project was made from.
+ * 'renamed' means the content hash matches but the file name differs.
+ */
+export async function matchSourceVideo(file: File, source: SourceVideoInfo): Promise<SourceMatch> {
+  const hash = await hashVideoFile(file);
+  if (hash !== source.hash) return 'mismatch';
+  return file.name === source.name ? 'match' : 'renamed';
+}
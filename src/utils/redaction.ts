@@ -0,0 +1,130 @@
+import { RedactionKeyframe, RedactionRegion } from '../types';
+import type { FrameSource } from './frameRenderer';
+
+/** A region's box in source percentages. */
+export interface RedactionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Scratch canvases reused across frames; redaction runs once per drawn frame
+let frameCanvas: HTMLCanvasElement | null = null;
+let blockCanvas: HTMLCanvasElement | null = null;
+
+function toRect(point: RedactionRect): RedactionRect {
+  return { x: point.x, y: point.y, width: point.width, height: point.height };
+}
+
+function getSortedKeyframes(region: RedactionRegion): RedactionKeyframe[] {
+  return [...(region.keyframes ?? [])].sort((a, b) => a.time - b.time);
+}
+
+/** Where the region is at an absolute time, moving linearly between keyframes. */
+export function getRedactionRect(region: RedactionRegion, time: number): RedactionRect {
+  const t = time - region.startTime;
+  let previous: RedactionRect & { time: number } = { ...toRect(region), time: 0 };
+  for (const next of getSortedKeyframes(region)) {
+    if (t <= next.time) {
+      const span = next.time - previous.time;
+      const p = span > 0 ? Math.max(0, (t - previous.time) / span) : 1;
+      return {
+        x: previous.x + (next.x - previous.x) * p,
+        y: previous.y + (next.y - previous.y) * p,
+        width: previous.width + (next.width - previous.width) * p,
+        height: previous.height + (next.height - previous.height) * p,
+      };
+    }
+    previous = next;
+  }
+  return toRect(previous);
+}
+
+/** Cut a region down to [start, end], keeping its path where it was. */
+export function retimeRedaction(region: RedactionRegion, start: number, end: number): RedactionRegion {
+  const offset = start - region.startTime;
+  const keyframes = getSortedKeyframes(region)
+    .filter(keyframe => keyframe.time > offset && region.startTime + keyframe.time <= end)
+    .map(keyframe => ({ ...keyframe, time: keyframe.time - offset }));
+  return {
+    ...region,
+    ...getRedactionRect(region, start),
+    startTime: start,
+    endTime: end,
+    keyframes: keyframes.length ? keyframes : undefined,
+  };
+}
+
+/** Add a keyframe at an absolute time, seeded with the region's current box so nothing jumps. */
+export function insertRedactionKeyframe(region: RedactionRegion, time: number): { region: RedactionRegion; keyframe: RedactionKeyframe } {
+  const keyframe: RedactionKeyframe = {
+    id: crypto.randomUUID(),
+    time: Math.max(0, Math.min(region.endTime - region.startTime, time - region.startTime)),
+    ...getRedactionRect(region, time),
+  };
+  const keyframes = [...(region.keyframes ?? []), keyframe].sort((a, b) => a.time - b.time);
+  return { region: { ...region, keyframes }, keyframe };
+}
+
+function drawRedaction(ctx: CanvasRenderingContext2D, frame: HTMLCanvasElement, region: RedactionRegion, rect: RedactionRect) {
+  const left = Math.max(0, Math.floor((rect.x / 100) * frame.width));
+  const top = Math.max(0, Math.floor((rect.y / 100) * frame.height));
+  const right = Math.min(frame.width, Math.ceil(((rect.x + rect.width) / 100) * frame.width));
+  const bottom = Math.min(frame.height, Math.ceil(((rect.y + rect.height) / 100) * frame.height));
+  const w = right - left;
+  const h = bottom - top;
+  if (w <= 0 || h <= 0) return;
+  const strength = Math.max(1, region.strength);
+
+  ctx.save();
+  ctx.beginPath();
+  if (region.shape === 'ellipse') {
+    ctx.ellipse(left + w / 2, top + h / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+  } else {
+    ctx.rect(left, top, w, h);
+  }
+  ctx.clip();
+
+  // Pixelate by shrinking the box and scaling it back up unsmoothed. Blur starts from
+  // the same blocks, so its soft edges never let the original pixels show through.
+  blockCanvas ??= document.createElement('canvas');
+  blockCanvas.width = Math.max(1, Math.ceil(w / strength));
+  blockCanvas.height = Math.max(1, Math.ceil(h / strength));
+  const blockCtx = blockCanvas.getContext('2d');
+  if (blockCtx) {
+    blockCtx.drawImage(frame, left, top, w, h, 0, 0, blockCanvas.width, blockCanvas.height);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(blockCanvas, 0, 0, blockCanvas.width, blockCanvas.height, left, top, w, h);
+  }
+  // Browsers without canvas filters keep the pixelated look
+  if (region.style === 'blur' && 'filter' in ctx) {
+    ctx.imageSmoothingEnabled = true;
+    ctx.filter = `blur(${strength}px)`;
+    ctx.drawImage(frame, left, top, w, h, left, top, w, h);
+  }
+  ctx.restore();
+}
+
+/**
+ * The source frame with every region active at `time` blurred or pixelated.
+ * Runs before the zoom crop, so regions are authored and applied in source pixels.
+ * Returns `source` untouched when nothing is active.
+ */
+export function applyRedactions(source: FrameSource, regions: RedactionRegion[], time: number): FrameSource {
+  const active = regions.filter(region => time >= region.startTime && time <= region.endTime);
+  if (active.length === 0 || !source.width || !source.height) return source;
+
+  frameCanvas ??= document.createElement('canvas');
+  if (frameCanvas.width !== source.width || frameCanvas.height !== source.height) {
+    frameCanvas.width = source.width;
+    frameCanvas.height = source.height;
+  }
+  const ctx = frameCanvas.getContext('2d');
+  if (!ctx) return source;
+  ctx.drawImage(source.image, 0, 0, source.width, source.height);
+  for (const region of active) {
+    drawRedaction(ctx, frameCanvas, region, getRedactionRect(region, time));
+  }
+  return { image: frameCanvas, width: source.width, height: source.height };
+}
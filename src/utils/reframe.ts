@@ -0,0 +1,112 @@
+import { ReframeAspect, ReframeFollow, ReframeKeyframe, ZoomEffect, ZoomSettings } from '../types';
+import { FrameScene } from './frameRenderer';
+import { getExportInterpolatedZoom, getTransitionDurations, getZoomPathPoint, getZoomViewport } from './zoomInterpolation';
+import { getCursorPosition } from './cursorFollow';
+import { StageRect } from './stage';
+
+const ASPECTS: Record<Exclude<ReframeAspect, 'source'>, number> = {
+  '9:16': 9 / 16,
+  '1:1': 1,
+  '4:5': 4 / 5,
+};
+
+// The crop centres on the average target over this window around each frame, so it glides instead of jumping
+const FOLLOW_WINDOW = 0.8; // seconds
+const FOLLOW_SAMPLES = 9;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+/** Width / height of a reframed output, or null when the output keeps the rendered frame's shape. */
+export function getReframeAspect(aspect: ReframeAspect): number | null {
+  return aspect === 'source' ? null : ASPECTS[aspect];
+}
+
+/**
+ * Centre of the zoom at `time`, or of the nearest one in time so the crop waits where the next zoom lands.
+ * Read through the render's interpolation, so keyframes, cursor follow and pans move the crop with the zoom;
+ * the time is held inside the zoom's transitions, which would otherwise pull the target back to the middle.
+ */
+function getZoomTarget(zooms: ZoomEffect[], settings: ZoomSettings, time: number): Point | null {
+  let nearest: ZoomEffect | null = null;
+  let distance = Infinity;
+  for (const zoom of zooms) {
+    const d = time < zoom.startTime ? zoom.startTime - time : time > zoom.endTime ? time - zoom.endTime : 0;
+    if (d < distance) {
+      nearest = zoom;
+      distance = d;
+    }
+  }
+  if (!nearest) return null;
+  const { transitionIn, transitionOut } = getTransitionDurations(nearest);
+  const from = nearest.startTime + transitionIn;
+  const held = Math.max(from, Math.min(Math.max(from, nearest.endTime - transitionOut), time));
+  return getExportInterpolatedZoom(held, zooms, settings) ?? getZoomPathPoint(nearest, held);
+}
+
+/** The manual crop path at `time`: eased between keyframes, held before the first and after the last. */
+export function getManualReframeTarget(keyframes: ReframeKeyframe[], time: number): Point | null {
+  if (!keyframes.length) return null;
+  const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+  if (time <= sorted[0].time) return sorted[0];
+  const next = sorted.findIndex(k => k.time > time);
+  if (next === -1) return sorted[sorted.length - 1];
+  const a = sorted[next - 1];
+  const b = sorted[next];
+  const t = smoothstep((time - a.time) / (b.time - a.time));
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+/**
+ * Where the crop window should centre at `time`, as fractions 0-1 of the rendered frame (after the zoom).
+ * Targets are in source percent and go through the zoom viewport, so a zoomed-in target stays in the crop.
+ */
+export function getReframeFocus(scene: FrameScene, time: number, follow: ReframeFollow): { u: number; v: number } {
+  const getTarget = (t: number): Point | null => {
+    if (follow === 'manual') return getManualReframeTarget(scene.reframeKeyframes, t);
+    if (follow === 'clicks') return getCursorPosition(scene.cursorTrack, t);
+    return getZoomTarget(scene.zoomEffects, scene.zoomSettings, t);
+  };
+  const toFrame = (target: Point, t: number) => {
+    const zoom = getExportInterpolatedZoom(t, scene.zoomEffects, scene.zoomSettings);
+    const viewport = getZoomViewport(zoom ?? { x: 50, y: 50, scale: 1 });
+    return {
+      u: (target.x / 100 - viewport.left) / viewport.width,
+      v: (target.y / 100 - viewport.top) / viewport.height,
+    };
+  };
+
+  // The manual path is already smooth; the others are averaged over the window
+  const samples = follow === 'manual' ? 1 : FOLLOW_SAMPLES;
+  let u = 0;
+  let v = 0;
+  for (let i = 0; i < samples; i++) {
+    const t = samples === 1 ? time : time + FOLLOW_WINDOW * (i / (samples - 1) - 0.5);
+    const target = getTarget(t);
+    const point = target ? toFrame(target, t) : { u: 0.5, v: 0.5 };
+    u += point.u;
+    v += point.v;
+  }
+  return { u: u / samples, v: v / samples };
+}
+
+/**
+ * The crop window in a W x H frame: as large as the frame allows at `aspect`, centred on `focus`
+ * (fractions of `content`, where the recording sits on the stage) and kept inside the frame.
+ */
+export function getReframeCrop(focus: { u: number; v: number }, content: StageRect, W: number, H: number, aspect: number): StageRect {
+  const width = Math.min(W, H * aspect);
+  const height = width / aspect;
+  const cx = content.x + focus.u * content.width;
+  const cy = content.y + focus.v * content.height;
+  return {
+    x: Math.max(0, Math.min(W - width, cx - width / 2)),
+    y: Math.max(0, Math.min(H - height, cy - height / 2)),
+    width,
+    height,
+  };
+}
@@ -0,0 +1,78 @@
+import { CutRange } from '../types';
+
+// Loudness is measured over windows this long; short enough to find the gap between two words
+const WINDOW_SECONDS = 0.02;
+
+export interface SilenceDetectionOptions {
+  threshold: number;   // dBFS; quieter windows count as silence
+  minDuration: number; // seconds of silence before a cut is proposed
+  padding: number;     // silence left on each side of a cut so speech doesn't start abruptly
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceDetectionOptions = {
+  threshold: -40,
+  minDuration: 0.8,
+  padding: 0.15,
+};
+
+/** Decode the file's audio track; rejects when the video has none. */
+export async function decodeAudio(file: File): Promise<AudioBuffer> {
+  const context = new AudioContext();
+  try {
+    return await context.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    void context.close();
+  }
+}
+
+/** Loudness in dBFS of each window, all channels mixed down. */
+function getWindowLevels(buffer: AudioBuffer): Float32Array {
+  const windowSize = Math.max(1, Math.round(buffer.sampleRate * WINDOW_SECONDS));
+  const levels = new Float32Array(Math.ceil(buffer.length / windowSize));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+  for (let w = 0; w < levels.length; w++) {
+    const start = w * windowSize;
+    const end = Math.min(buffer.length, start + windowSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      let sample = 0;
+      for (const channel of channels) sample += channel[i];
+      sample /= channels.length;
+      sum += sample * sample;
+    }
+    const rms = Math.sqrt(sum / Math.max(1, end - start));
+    levels[w] = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+  }
+  return levels;
+}
+
+/** Propose a cut for every silent stretch at least `minDuration` long. */
+export function detectSilence(buffer: AudioBuffer, options: SilenceDetectionOptions = DEFAULT_SILENCE_OPTIONS): CutRange[] {
+  const levels = getWindowLevels(buffer);
+  const windowDuration = buffer.duration / levels.length;
+  const cuts: CutRange[] = [];
+
+  const flush = (startWindow: number, endWindow: number) => {
+    const silenceStart = startWindow * windowDuration;
+    const silenceEnd = Math.min(buffer.duration, endWindow * windowDuration);
+    if (silenceEnd - silenceStart < options.minDuration) return;
+    // Silence at the very start or end of the recording goes entirely
+    const startTime = startWindow === 0 ? 0 : silenceStart + options.padding;
+    const endTime = endWindow >= levels.length ? buffer.duration : silenceEnd - options.padding;
+    if (endTime - startTime <= 0) return;
+    cuts.push({ id: crypto.randomUUID(), startTime, endTime });
+  };
+
+  let runStart: number | null = null;
+  for (let w = 0; w < levels.length; w++) {
+    if (levels[w] < options.threshold) {
+      if (runStart === null) runStart = w;
+    } else if (runStart !== null) {
+      flush(runStart, w);
+      runStart = null;
+    }
+  }
+  if (runStart !== null) flush(runStart, levels.length);
+  return cuts;
+}
@@ -0,0 +1,85 @@
+import { SpotlightEffect, DEFAULT_SPOTLIGHT_TRANSITION } from '../types';
+import { ZoomViewport } from './zoomInterpolation';
+
+// Scratch canvas for the darkened or greyed surround, reused across frames
+let layerCanvas: HTMLCanvasElement | null = null;
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+/** How far a spotlight has faded in at `time`: 0 outside its range, 1 once fully shown. */
+export function getSpotlightProgress(spotlight: SpotlightEffect, time: number): number {
+  if (time < spotlight.startTime || time > spotlight.endTime) return 0;
+  const fadeIn = spotlight.transitionIn ?? DEFAULT_SPOTLIGHT_TRANSITION;
+  const fadeOut = spotlight.transitionOut ?? DEFAULT_SPOTLIGHT_TRANSITION;
+  const p = Math.min(
+    1,
+    fadeIn > 0 ? (time - spotlight.startTime) / fadeIn : 1,
+    fadeOut > 0 ? (spotlight.endTime - time) / fadeOut : 1
+  );
+  return smoothstep(Math.max(0, p));
+}
+
+/**
+ * Dim or desaturate everything around each active spotlight, on top of the already drawn frame.
+ * The shape is mapped from source percent through the zoom viewport, like the cursor.
+ * `pxScale` maps source pixels to canvas pixels at 1x.
+ */
+export function drawSpotlightLayer(
+  ctx: CanvasRenderingContext2D,
+  spotlights: SpotlightEffect[],
+  time: number,
+  viewport: ZoomViewport,
+  W: number,
+  H: number,
+  pxScale: number
+) {
+  for (const spotlight of spotlights) {
+    const progress = getSpotlightProgress(spotlight, time);
+    if (progress <= 0 || spotlight.intensity <= 0) continue;
+
+    layerCanvas ??= document.createElement('canvas');
+    if (layerCanvas.width !== W || layerCanvas.height !== H) {
+      layerCanvas.width = W;
+      layerCanvas.height = H;
+    }
+    const layer = layerCanvas.getContext('2d');
+    if (!layer) return;
+
+    layer.save();
+    layer.globalCompositeOperation = 'copy';
+    if (spotlight.style === 'desaturate') {
+      // A grey fill in 'saturation' mode keeps hue and brightness but drops the colour
+      layer.drawImage(ctx.canvas, 0, 0, W, H);
+      layer.globalCompositeOperation = 'saturation';
+      layer.fillStyle = '#808080';
+    } else {
+      layer.fillStyle = '#000';
+    }
+    layer.fillRect(0, 0, W, H);
+
+    // Punch the hole with a blurred shadow so the edge is feathered; the shape itself is drawn offscreen
+    const cx = ((spotlight.x / 100 - viewport.left) / viewport.width) * W;
+    const cy = ((spotlight.y / 100 - viewport.top) / viewport.height) * H;
+    const w = (spotlight.width / 100 / viewport.width) * W;
+    const h = (spotlight.height / 100 / viewport.height) * H;
+    const feather = (spotlight.feather * pxScale) / viewport.height;
+    const offset = W + w + feather * 4;
+    layer.globalCompositeOperation = 'destination-out';
+    layer.shadowColor = '#000';
+    layer.shadowBlur = feather;
+    layer.shadowOffsetX = offset;
+    layer.beginPath();
+    if (spotlight.shape === 'circle') {
+      layer.arc(cx - offset, cy, w / 2, 0, Math.PI * 2);
+    } else {
+      layer.rect(cx - w / 2 - offset, cy - h / 2, w, h);
+    }
+    layer.fill();
+    layer.restore();
+
+    ctx.save();
+    ctx.globalAlpha = Math.min(1, spotlight.intensity) * progress;
+    ctx.drawImage(layerCanvas, 0, 0, W, H);
+    ctx.restore();
+  }
+}
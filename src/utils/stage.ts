@@ -0,0 +1,93 @@
+import { StageSettings, StageAspect } from '../types';
+import { getLoadedImage } from './imageOverlay';
+
+const REFERENCE_HEIGHT = 1080; // corner radius and shadow are authored at 1080p
+const SHADOW_COLOR = 'rgba(0, 0, 0, 0.55)';
+
+const ASPECTS: Record<Exclude<StageAspect, 'source'>, number> = {
+  '16:9': 16 / 9,
+  '4:3': 4 / 3,
+  '1:1': 1,
+};
+
+export interface StageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Width / height of the output for a recording of `sourceAspect`. */
+export function getStageAspect(stage: StageSettings, sourceAspect: number): number {
+  if (!stage.enabled || stage.aspectRatio === 'source') return sourceAspect;
+  return ASPECTS[stage.aspectRatio];
+}
+
+/**
+ * Where the recording sits on a W x H output: as large as the padding allows, centred, at its own shape.
+ * Without a stage it fills the output.
+ */
+export function getStageContentRect(stage: StageSettings, W: number, H: number, sourceAspect: number): StageRect {
+  if (!stage.enabled) return { x: 0, y: 0, width: W, height: H };
+  const padding = (stage.padding / 100) * Math.min(W, H);
+  const available = { width: Math.max(2, W - 2 * padding), height: Math.max(2, H - 2 * padding) };
+  const width = Math.round(Math.min(available.width, available.height * sourceAspect));
+  const height = Math.round(width / sourceAspect);
+  return { x: Math.round((W - width) / 2), y: Math.round((H - height) / 2), width, height };
+}
+
+function fillBackground(ctx: CanvasRenderingContext2D, stage: StageSettings, W: number, H: number) {
+  const wallpaper = stage.background === 'image' && stage.imageSrc ? getLoadedImage(stage.imageSrc) : null;
+  if (wallpaper) {
+    // Cover: fill the stage and crop whatever overhangs
+    const scale = Math.max(W / wallpaper.naturalWidth, H / wallpaper.naturalHeight);
+    const w = wallpaper.naturalWidth * scale;
+    const h = wallpaper.naturalHeight * scale;
+    ctx.drawImage(wallpaper, (W - w) / 2, (H - h) / 2, w, h);
+    return;
+  }
+  if (stage.background === 'gradient') {
+    // Run the gradient corner to corner along the angle so both colours reach the edges
+    const angle = (stage.gradientAngle * Math.PI) / 180;
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    const half = (Math.abs(dx) * W + Math.abs(dy) * H) / 2;
+    const gradient = ctx.createLinearGradient(W / 2 - dx * half, H / 2 - dy * half, W / 2 + dx * half, H / 2 + dy * half);
+    gradient.addColorStop(0, stage.color);
+    gradient.addColorStop(1, stage.gradientTo);
+    ctx.fillStyle = gradient;
+  } else {
+    // Also the fallback while an image wallpaper is still loading
+    ctx.fillStyle = stage.color;
+  }
+  ctx.fillRect(0, 0, W, H);
+}
+
+/**
+ * Paint the stage over the whole of ctx: wallpaper, then the already rendered recording in `rect`
+ * with rounded corners and a drop shadow. Wallpaper images must be preloaded with loadOverlayImage.
+ */
+export function drawStage(ctx: CanvasRenderingContext2D, stage: StageSettings, content: CanvasImageSource, rect: StageRect) {
+  const W = ctx.canvas.width;
+  const H = ctx.canvas.height;
+  const scale = H / REFERENCE_HEIGHT;
+  const radius = Math.min(stage.cornerRadius * scale, rect.width / 2, rect.height / 2);
+  const frame = new Path2D();
+  frame.roundRect(rect.x, rect.y, rect.width, rect.height, Math.max(0, radius));
+
+  ctx.save();
+  fillBackground(ctx, stage, W, H);
+  if (stage.shadow > 0) {
+    ctx.save();
+    ctx.shadowColor = SHADOW_COLOR;
+    ctx.shadowBlur = stage.shadow * scale;
+    ctx.shadowOffsetY = stage.shadow * scale * 0.25;
+    ctx.fillStyle = '#000';
+    ctx.fill(frame);
+    ctx.restore();
+  }
+  ctx.clip(frame);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(content, rect.x, rect.y, rect.width, rect.height);
+  ctx.restore();
+}
@@ -0,0 +1,80 @@
+import { TextOverlay, TextAnimation } from '../types';
+
+export const DEFAULT_TEXT_ANIMATION_DURATION = 0.4; // seconds
+
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** How to draw a text overlay on one frame while it animates. */
+export interface TextAnimationFrame {
+  alpha: number;
+  dx: number; // px the box is moved by
+  dy: number;
+  scale: number; // around the box centre
+  reveal: number; // fraction of the characters typed out
+}
+
+const SETTLED: TextAnimationFrame = { alpha: 1, dx: 0, dy: 0, scale: 1, reveal: 1 };
+
+const clamp01 = (t: number) => Math.max(0, Math.min(1, t));
+const easeOut = (t: number) => 1 - Math.pow(1 - t, 3);
+// Overshoots slightly before settling, for the 'pop' animation
+const easeOutBack = (t: number) => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2);
+
+/**
+ * The animation playing at `time` and how far the text is in, 0 (gone) to 1 (fully shown).
+ * Exits run the same curves backwards. Both are computed from time alone, so the preview and
+ * a frame-by-frame export draw the same thing at the same time.
+ */
+export function getTextAnimationProgress(overlay: TextOverlay, time: number): { animation: TextAnimation; progress: number } {
+  const enter = overlay.enterAnimation ?? 'none';
+  const exit = overlay.exitAnimation ?? 'none';
+  let enterDuration = enter === 'none' ? 0 : Math.max(0, overlay.enterDuration ?? DEFAULT_TEXT_ANIMATION_DURATION);
+  let exitDuration = exit === 'none' ? 0 : Math.max(0, overlay.exitDuration ?? DEFAULT_TEXT_ANIMATION_DURATION);
+  // On a short overlay the two share its length instead of overlapping
+  const length = Math.max(0, overlay.endTime - overlay.startTime);
+  if (enterDuration + exitDuration > length) {
+    const fit = length / (enterDuration + exitDuration);
+    enterDuration *= fit;
+    exitDuration *= fit;
+  }
+
+  const sinceStart = time - overlay.startTime;
+  if (enterDuration > 0 && sinceStart < enterDuration) {
+    return { animation: enter, progress: clamp01(sinceStart / enterDuration) };
+  }
+  const untilEnd = overlay.endTime - time;
+  if (exitDuration > 0 && untilEnd < exitDuration) {
+    return { animation: exit, progress: clamp01(untilEnd / exitDuration) };
+  }
+  return { animation: 'none', progress: 1 };
+}
+
+/** The transform for `overlay` at `time`, given where its box sits on a W x H frame. */
+export function getTextAnimationFrame(overlay: TextOverlay, time: number, box: TextBox, W: number, H: number): TextAnimationFrame {
+  const { animation, progress } = getTextAnimationProgress(overlay, time);
+  const away = 1 - easeOut(progress);
+  switch (animation) {
+    case 'fade':
+      return { ...SETTLED, alpha: easeOut(progress) };
+    // Slides start with the box just past the frame edge
+    case 'slide-left':
+      return { ...SETTLED, dx: -(box.x + box.width) * away };
+    case 'slide-right':
+      return { ...SETTLED, dx: (W - box.x) * away };
+    case 'slide-top':
+      return { ...SETTLED, dy: -(box.y + box.height) * away };
+    case 'slide-bottom':
+      return { ...SETTLED, dy: (H - box.y) * away };
+    case 'pop':
+      return { ...SETTLED, alpha: Math.min(1, progress * 2), scale: Math.max(0, easeOutBack(progress)) };
+    case 'typewriter':
+      return { ...SETTLED, reveal: progress };
+    default:
+      return SETTLED;
+  }
+}
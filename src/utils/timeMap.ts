@@ -0,0 +1,165 @@
+import { CutRange, SpeedRamp } from '../types';
+
+/**
+ * Effects, the cursor track and every other timed item stay in source-video time.
+ * Cuts and speed ramps only change the output timeline, so these helpers translate between the two
+ * at the edges: the timeline ruler, preview playback and export.
+ */
+
+export interface TimeSegment {
+  start: number; // source time
+  end: number;
+}
+
+export interface OutputSegment extends TimeSegment {
+  speed: number;
+  muted: boolean;
+}
+
+/** Cuts clamped to the video, sorted and with overlapping ranges merged. */
+export function normalizeCuts(cuts: CutRange[], duration = Infinity): TimeSegment[] {
+  const sorted = cuts
+    .map(cut => ({ start: Math.max(0, cut.startTime), end: Math.min(duration, cut.endTime) }))
+    .filter(cut => cut.end > cut.start)
+    .sort((a, b) => a.start - b.start);
+  const merged: TimeSegment[] = [];
+  for (const cut of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && cut.start <= last.end) last.end = Math.max(last.end, cut.end);
+    else merged.push({ ...cut });
+  }
+  return merged;
+}
+
+/** Source ranges that survive the cuts, in order. */
+export function getKeptSegments(duration: number, cuts: CutRange[]): TimeSegment[] {
+  const segments: TimeSegment[] = [];
+  let start = 0;
+  for (const cut of normalizeCuts(cuts, duration)) {
+    if (cut.start > start) segments.push({ start, end: cut.start });
+    start = cut.end;
+  }
+  if (duration > start) segments.push({ start, end: duration });
+  return segments;
+}
+
+/** Speed ramps sorted, with any overlap given to the ramp that starts first. */
+function normalizeRamps(ramps: SpeedRamp[]): SpeedRamp[] {
+  const sorted = [...ramps].sort((a, b) => a.startTime - b.startTime);
+  const result: SpeedRamp[] = [];
+  for (const ramp of sorted) {
+    const startTime = Math.max(ramp.startTime, result[result.length - 1]?.endTime ?? -Infinity);
+    if (ramp.endTime > startTime) result.push({ ...ramp, startTime });
+  }
+  return result;
+}
+
+/** Kept source ranges split at speed-ramp edges, each with the speed it plays at. */
+export function getOutputSegments(duration: number, cuts: CutRange[], ramps: SpeedRamp[] = []): OutputSegment[] {
+  const sortedRamps = normalizeRamps(ramps);
+  const segments: OutputSegment[] = [];
+  for (const kept of getKeptSegments(duration, cuts)) {
+    let cursor = kept.start;
+    for (const ramp of sortedRamps) {
+      if (ramp.endTime <= cursor || ramp.startTime >= kept.end) continue;
+      if (ramp.startTime > cursor) segments.push({ start: cursor, end: ramp.startTime, speed: 1, muted: false });
+      cursor = Math.min(kept.end, ramp.endTime);
+      segments.push({ start: Math.max(kept.start, ramp.startTime), end: cursor, speed: ramp.speed, muted: !!ramp.muteAudio });
+    }
+    if (kept.end > cursor) segments.push({ start: cursor, end: kept.end, speed: 1, muted: false });
+  }
+  return segments;
+}
+
+export function getOutputDuration(duration: number, cuts: CutRange[], ramps: SpeedRamp[] = []): number {
+  return getOutputSegments(duration, cuts, ramps).reduce((total, segment) => total + (segment.end - segment.start) / segment.speed, 0);
+}
+
+/** Output time of a source time; anything inside a cut lands on the cut point. */
+export function sourceToOutput(time: number, cuts: CutRange[], ramps: SpeedRamp[] = []): number {
+  let output = 0;
+  for (const segment of getOutputSegments(Infinity, cuts, ramps)) {
+    if (time <= segment.start) break;
+    output += (Math.min(time, segment.end) - segment.start) / segment.speed;
+  }
+  return output;
+}
+
+/** Source time shown at an output time; a cut point maps to the first frame after the cut. */
+export function outputToSource(time: number, cuts: CutRange[], ramps: SpeedRamp[] = []): number {
+  let output = 0;
+  for (const segment of getOutputSegments(Infinity, cuts, ramps)) {
+    const length = (segment.end - segment.start) / segment.speed;
+    if (time < output + length) return segment.start + Math.max(0, time - output) * segment.speed;
+    output += length;
+  }
+  return time;
+}
+
+/** The speed ramp playing at `time`, if any. */
+export function findRampAt(time: number, ramps: SpeedRamp[]): SpeedRamp | null {
+  return normalizeRamps(ramps).find(ramp => time >= ramp.startTime && time < ramp.endTime) ?? null;
+}
+
+/** The cut containing `time`, if playback is inside one. */
+export function findCutAt(time: number, cuts: CutRange[]): TimeSegment | null {
+  return normalizeCuts(cuts).find(cut => time >= cut.start && time < cut.end) ?? null;
+}
+
+/**
+ * Fit a timed range around a cut: dropped when entirely inside it, clipped when it straddles
+ * one edge, and split in two when it spans the whole cut.
+ */
+export function clipToCut(range: { startTime: number; endTime: number }, cut: TimeSegment): { startTime: number; endTime: number }[] {
+  const { startTime, endTime } = range;
+  if (endTime <= cut.start || startTime >= cut.end) return [{ startTime, endTime }];
+  if (startTime >= cut.start && endTime <= cut.end) return [];
+  if (startTime < cut.start && endTime <= cut.end) return [{ startTime, endTime: cut.start }];
+  if (startTime >= cut.start && endTime > cut.end) return [{ startTime: cut.end, endTime }];
+  return [{ startTime, endTime: cut.start }, { startTime: cut.end, endTime }];
+}
+
+/** Ends of a piece that continue across a cut, because it was split out of a longer item. */
+export interface CutPieceJoins {
+  joinsPrevious: boolean;
+  joinsNext: boolean;
+}
+
+/**
+ * Trim timed items to what survives the cuts. Items keep their full ranges in the document, so a
+ * restored cut brings them back whole; this is applied when the scene is built for drawing.
+ * Untouched items are returned as they are; `retime` builds the others, and split pieces after
+ * the first get derived ids.
+ */
+export function cutTimedItems<T extends { id: string; startTime: number; endTime: number }>(
+  items: T[],
+  cuts: CutRange[],
+  retime: (item: T, startTime: number, endTime: number, joins: CutPieceJoins) => T
+): T[] {
+  const segments = normalizeCuts(cuts);
+  if (!segments.length) return items;
+  return items.flatMap(item => {
+    let pieces = [{ startTime: item.startTime, endTime: item.endTime, joinsPrevious: false, joinsNext: false }];
+    for (const segment of segments) {
+      pieces = pieces.flatMap(piece => {
+        const clipped = clipToCut(piece, segment);
+        if (clipped.length === 2) {
+          return [
+            { ...clipped[0], joinsPrevious: piece.joinsPrevious, joinsNext: true },
+            { ...clipped[1], joinsPrevious: true, joinsNext: piece.joinsNext },
+          ];
+        }
+        return clipped.map(range => ({
+          ...range,
+          joinsPrevious: piece.joinsPrevious && range.startTime === piece.startTime,
+          joinsNext: piece.joinsNext && range.endTime === piece.endTime,
+        }));
+      });
+    }
+    if (pieces.length === 1 && pieces[0].startTime === item.startTime && pieces[0].endTime === item.endTime) return [item];
+    return pieces.map(({ startTime, endTime, ...joins }, index) => ({
+      ...retime(item, startTime, endTime, joins),
+      id: index === 0 ? item.id : `${item.id}:${index}`,
+    }));
+  });
+}
@@ -0,0 +1,125 @@
+import { WebcamSettings, WebcamHideRange, WebcamCorner, ZoomEffect, ZoomSettings } from '../types';
+import { FrameSource } from './frameRenderer';
+import { getExportInterpolatedZoom, getZoomViewport } from './zoomInterpolation';
+
+const REFERENCE_HEIGHT = 1080; // border width is authored at 1080p
+const MARGIN = 0.03; // gap to the frame edge, fraction of the frame height
+const ROUNDED_ASPECT = 4 / 3; // rounded bubbles are landscape; circles crop a square
+const HIDE_FADE = 0.25; // seconds the bubble takes to fade out of and back into a hidden range
+// The move-away glides by averaging the bubble's side over this window instead of jumping
+const AVOID_WINDOW = 0.6; // seconds
+const AVOID_SAMPLES = 7;
+
+export interface WebcamBubble {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  opacity: number; // 0 when hidden
+}
+
+/** How visible the bubble is at `time`: 0 inside a hidden range, easing back to 1 just outside it. */
+export function getWebcamVisibility(hides: WebcamHideRange[], time: number): number {
+  let visibility = 1;
+  for (const range of hides) {
+    if (time >= range.startTime && time <= range.endTime) return 0;
+    const distance = time < range.startTime ? range.startTime - time : time - range.endTime;
+    visibility = Math.min(visibility, distance / HIDE_FADE);
+  }
+  return Math.min(1, visibility);
+}
+
+const mirror = (corner: WebcamCorner): WebcamCorner =>
+  corner.endsWith('left') ? corner.replace('left', 'right') as WebcamCorner : corner.replace('right', 'left') as WebcamCorner;
+
+function getCornerRect(corner: WebcamCorner, width: number, height: number, W: number, H: number) {
+  const margin = MARGIN * H;
+  return {
+    x: corner.endsWith('left') ? margin : W - margin - width,
+    y: corner.startsWith('top') ? margin : H - margin - height,
+  };
+}
+
+/** The corner the bubble wants at `time`: its own, or the mirrored one while the zoom target is under it. */
+function getCornerAt(
+  settings: WebcamSettings,
+  zooms: ZoomEffect[],
+  zoomSettings: ZoomSettings,
+  time: number,
+  width: number,
+  height: number,
+  W: number,
+  H: number
+): WebcamCorner {
+  if (!settings.avoidZoom) return settings.corner;
+  const zoom = getExportInterpolatedZoom(time, zooms, zoomSettings);
+  if (!zoom || zoom.scale <= 1.01) return settings.corner;
+  const viewport = getZoomViewport(zoom);
+  const tx = ((zoom.x / 100 - viewport.left) / viewport.width) * W;
+  const ty = ((zoom.y / 100 - viewport.top) / viewport.height) * H;
+  const { x, y } = getCornerRect(settings.corner, width, height, W, H);
+  const margin = MARGIN * H;
+  const covered = tx >= x - margin && tx <= x + width + margin && ty >= y - margin && ty <= y + height + margin;
+  return covered ? mirror(settings.corner) : settings.corner;
+}
+
+/** Where the bubble sits on a W x H frame at `time`. */
+export function getWebcamBubble(
+  settings: WebcamSettings,
+  hides: WebcamHideRange[],
+  zooms: ZoomEffect[],
+  zoomSettings: ZoomSettings,
+  time: number,
+  W: number,
+  H: number
+): WebcamBubble {
+  const height = (settings.size / 100) * H;
+  const width = settings.shape === 'circle' ? height : height * ROUNDED_ASPECT;
+  const { y } = getCornerRect(settings.corner, width, height, W, H);
+  let x = 0;
+  for (let i = 0; i < AVOID_SAMPLES; i++) {
+    const t = time + AVOID_WINDOW * (i / (AVOID_SAMPLES - 1) - 0.5);
+    x += getCornerRect(getCornerAt(settings, zooms, zoomSettings, t, width, height, W, H), width, height, W, H).x;
+  }
+  return { x: x / AVOID_SAMPLES, y, width, height, opacity: getWebcamVisibility(hides, time) };
+}
+
+/** Draw the webcam frame into its bubble, cropped to fill the shape, with a border and soft shadow. */
+export function drawWebcamBubble(ctx: CanvasRenderingContext2D, webcam: FrameSource, settings: WebcamSettings, bubble: WebcamBubble) {
+  if (bubble.opacity <= 0 || webcam.width === 0 || webcam.height === 0) return;
+  const scale = ctx.canvas.height / REFERENCE_HEIGHT;
+  const shape = new Path2D();
+  if (settings.shape === 'circle') {
+    shape.arc(bubble.x + bubble.width / 2, bubble.y + bubble.height / 2, bubble.height / 2, 0, Math.PI * 2);
+  } else {
+    shape.roundRect(bubble.x, bubble.y, bubble.width, bubble.height, bubble.height * 0.12);
+  }
+
+  // Cover: crop the webcam frame to the bubble's shape
+  const fit = Math.max(bubble.width / webcam.width, bubble.height / webcam.height);
+  const sw = bubble.width / fit;
+  const sh = bubble.height / fit;
+
+  ctx.save();
+  ctx.globalAlpha = bubble.opacity;
+  ctx.save();
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.45)';
+  ctx.shadowBlur = 24 * scale;
+  ctx.shadowOffsetY = 6 * scale;
+  ctx.fillStyle = '#000';
+  ctx.fill(shape);
+  ctx.restore();
+
+  ctx.save();
+  ctx.clip(shape);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(webcam.image, (webcam.width - sw) / 2, (webcam.height - sh) / 2, sw, sh, bubble.x, bubble.y, bubble.width, bubble.height);
+  ctx.restore();
+
+  if (settings.borderWidth > 0) {
+    ctx.lineWidth = settings.borderWidth * scale;
+    ctx.strokeStyle = settings.borderColor;
+    ctx.stroke(shape);
+  }
+  ctx.restore();
+}
@@ -0,0 +1,282 @@
+import {
+  ZoomEffect,
+  ZoomEasing,
+  ZoomKeyframe,
+  CubicBezier,
+  CursorFollowPath,
+  ZoomSettings,
+  DEFAULT_ZOOM_SETTINGS,
+  DEFAULT_ZOOM_BEZIER,
+  DEFAULT_ZOOM_TRANSITION_DURATION,
+} from '../types';
+
+export interface ZoomFraming {
+  x: number; // percentage 0-100
+  y: number; // percentage 0-100
+  scale: number;
+}
+
+/** Visible part of the frame at a given framing, as fractions 0-1 of the source size. */
+export interface ZoomViewport {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// --- Helper: Linear interpolation ---
+export function lerp(a: number, b: number, t: number) {
+  // Use LINEAR interpolation for direct, straight-line transitions (no curves)
+  return a + (b - a) * t;
+}
+
+/** Solve a CSS-style cubic-bezier for y at progress x (Newton-Raphson, bisection fallback). */
+export function cubicBezier([x1, y1, x2, y2]: CubicBezier, x: number): number {
+  const bx = (t: number) => 3 * (1 - t) * (1 - t) * t * x1 + 3 * (1 - t) * t * t * x2 + t * t * t;
+  const by = (t: number) => 3 * (1 - t) * (1 - t) * t * y1 + 3 * (1 - t) * t * t * y2 + t * t * t;
+  const dx = (t: number) => 3 * (1 - t) * (1 - t) * x1 + 6 * (1 - t) * t * (x2 - x1) + 3 * t * t * (1 - x2);
+
+  let t = x;
+  for (let i = 0; i < 8; i++) {
+    const err = bx(t) - x;
+    if (Math.abs(err) < 1e-6) return by(t);
+    const d = dx(t);
+    if (Math.abs(d) < 1e-6) break;
+    t -= err / d;
+  }
+  let lo = 0, hi = 1;
+  t = x;
+  for (let i = 0; i < 30; i++) {
+    if (bx(t) < x) lo = t; else hi = t;
+    t = (lo + hi) / 2;
+  }
+  return by(t);
+}
+
+export function applyEasing(easing: ZoomEasing, t: number, bezier: CubicBezier = DEFAULT_ZOOM_BEZIER): number {
+  const c = Math.max(0, Math.min(1, t));
+  switch (easing) {
+    case 'linear': return c;
+    case 'ease-in': return c * c;
+    case 'ease-out': return 1 - (1 - c) * (1 - c);
+    case 'cubic-bezier': return cubicBezier(bezier, c);
+    // Damped spring: overshoots ~9% and settles exactly on 1 at t = 1 (cos(2.5π) = 0)
+    case 'spring': return c >= 1 ? 1 : 1 - Math.exp(-6 * c) * Math.cos(2.5 * Math.PI * c);
+    case 'ease-in-out':
+    default:
+      return c < 0.5 ? 2 * c * c : 1 - Math.pow(-2 * c + 2, 2) / 2;
+  }
+}
+
+/** Eased progress of a zoom's in/out transition. */
+export function applyZoomEasing(zoom: ZoomEffect, t: number): number {
+  return applyEasing(zoom.easing ?? 'ease-in-out', t, zoom.easingBezier);
+}
+
+/**
+ * In/out transition lengths for a zoom. 'instant' zooms cut with no transition,
+ * and transitions are scaled down together when they wouldn't fit the zoom.
+ */
+export function getTransitionDurations(zoom: ZoomEffect): { transitionIn: number; transitionOut: number } {
+  if (zoom.transition === 'instant') return { transitionIn: 0, transitionOut: 0 };
+  const transitionIn = Math.max(0, zoom.transitionIn ?? DEFAULT_ZOOM_TRANSITION_DURATION);
+  const transitionOut = Math.max(0, zoom.transitionOut ?? DEFAULT_ZOOM_TRANSITION_DURATION);
+  const available = Math.max(0, zoom.endTime - zoom.startTime);
+  const total = transitionIn + transitionOut;
+  if (total <= available || total === 0) return { transitionIn, transitionOut };
+  const k = available / total;
+  return { transitionIn: transitionIn * k, transitionOut: transitionOut * k };
+}
+
+/** Keyframes sorted by time, clamped into the zoom's duration. */
+export function getSortedKeyframes(zoom: ZoomEffect): ZoomKeyframe[] {
+  const zoomDuration = zoom.endTime - zoom.startTime;
+  return [...(zoom.keyframes ?? [])]
+    .map(k => ({ ...k, time: Math.max(0, Math.min(zoomDuration, k.time)) }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Framing along the zoom's keyframe path at an absolute time, ignoring the
+ * transition in/out of the zoom. Without keyframes this is just x/y/scale;
+ * cursor-follow zooms take x/y from their baked follow path instead.
+ */
+export function getZoomPathPoint(zoom: ZoomEffect, time: number): ZoomFraming {
+  const point = getKeyframedPoint(zoom, time);
+  return zoom.followPath ? { ...point, ...getFollowPoint(zoom.followPath, time - zoom.startTime) } : point;
+}
+
+// Position along a baked cursor-follow path, `rel` seconds into the zoom
+function getFollowPoint({ step, points }: CursorFollowPath, rel: number): { x: number; y: number } {
+  const last = points.length / 2 - 1;
+  const f = Math.max(0, Math.min(last, rel / step));
+  const i = Math.floor(f);
+  const j = Math.min(i + 1, last);
+  const t = f - i;
+  return {
+    x: lerp(points[i * 2], points[j * 2], t),
+    y: lerp(points[i * 2 + 1], points[j * 2 + 1], t),
+  };
+}
+
+function getKeyframedPoint(zoom: ZoomEffect, time: number): ZoomFraming {
+  let prev: ZoomFraming & { time: number } = { time: 0, x: zoom.x, y: zoom.y, scale: zoom.scale };
+  const rel = time - zoom.startTime;
+
+  for (const keyframe of getSortedKeyframes(zoom)) {
+    if (rel < keyframe.time) {
+      const span = keyframe.time - prev.time;
+      const t = span > 0 ? applyEasing(keyframe.easing, (rel - prev.time) / span) : 1;
+      return {
+        x: lerp(prev.x, keyframe.x, t),
+        y: lerp(prev.y, keyframe.y, t),
+        scale: lerp(prev.scale, keyframe.scale, t),
+      };
+    }
+    prev = keyframe;
+  }
+  return { x: prev.x, y: prev.y, scale: prev.scale };
+}
+
+/**
+ * Source-rect for a framing, clamped so we never show outside the frame.
+ * Shared by the preview transform and the export canvas so both crop identically.
+ */
+export function getZoomViewport(framing: ZoomFraming): ZoomViewport {
+  const scale = Math.max(1, framing.scale);
+  const width = 1 / scale;
+  const height = 1 / scale;
+  const left = Math.max(0, Math.min(1 - width, framing.x / 100 - width / 2));
+  const top = Math.max(0, Math.min(1 - height, framing.y / 100 - height / 2));
+  return { left, top, width, height };
+}
+
+/**
+ * Whether `zoom` pans straight into `next` instead of easing out to 1x and back in.
+ * The zoom's own panToNext override wins over the project-wide setting.
+ */
+export function isDirectPan(zoom: ZoomEffect, next: ZoomEffect, settings: ZoomSettings = DEFAULT_ZOOM_SETTINGS): boolean {
+  const gap = next.startTime - zoom.endTime;
+  if (gap < 0) return false; // overlapping zooms are left to the overlap resolver
+  if (zoom.panToNext === 'always') return true;
+  if (zoom.panToNext === 'never') return false;
+  return settings.directPan && gap <= settings.directPanMaxGap;
+}
+
+/**
+ * Framing during a direct pan from `from` to `to`, or null when `time` is outside the pan.
+ * The pan replaces from's transition out, the gap, and to's transition in.
+ */
+function getDirectPanZoom(time: number, from: ZoomEffect, to: ZoomEffect): ZoomEffect | null {
+  const { transitionOut } = getTransitionDurations(from);
+  const { transitionIn } = getTransitionDurations(to);
+  const panStart = Math.min(from.endTime - transitionOut, to.startTime);
+  const panEnd = Math.max(to.startTime + transitionIn, panStart);
+  if (time < panStart || time > panEnd) return null;
+
+  const a = getZoomPathPoint(from, panStart);
+  const b = getZoomPathPoint(to, panEnd);
+  const easedT = panEnd > panStart ? applyZoomEasing(to, (time - panStart) / (panEnd - panStart)) : 1;
+  return {
+    ...(time <= from.endTime ? from : to),
+    x: lerp(a.x, b.x, easedT),
+    y: lerp(a.y, b.y, easedT),
+    scale: lerp(a.scale, b.scale, easedT),
+  };
+}
+
+// --- Export-specific zoom interpolation - EXACTLY matches preview smooth transitions ---
+export function getExportInterpolatedZoom(time: number, zooms: ZoomEffect[], settings: ZoomSettings = DEFAULT_ZOOM_SETTINGS): ZoomEffect | null {
+  if (!zooms.length) {
+    return null; // No zoom effects
+  }
+
+  // Preview, export and the preview's zoom marker all read this one path
+  const sorted = [...zooms].sort((a, b) => a.startTime - b.startTime);
+
+  // Direct pans between close zooms take priority over each zoom's own in/out transitions
+  for (let i = 0; i < sorted.length - 1; i++) {
+    if (!isDirectPan(sorted[i], sorted[i + 1], settings)) continue;
+    const pan = getDirectPanZoom(time, sorted[i], sorted[i + 1]);
+    if (pan) return pan;
+  }
+
+  // Before first zoom: no zoom (normal view)
+  if (time < sorted[0].startTime) {
+    return null; // No zoom effect
+  }
+
+  // After last zoom: no zoom (normal view)
+  if (time > sorted[sorted.length - 1].endTime) {
+    return null; // No zoom effect
+  }
+
+  // Find the active zoom for this exact time
+  for (let i = 0; i < sorted.length; i++) {
+    const zoom = sorted[i];
+
+    // If we're within this zoom's time range, apply smooth transitions
+    if (time >= zoom.startTime && time <= zoom.endTime) {
+      const point = getZoomPathPoint(zoom, time);
+      const { transitionIn, transitionOut } = getTransitionDurations(zoom);
+
+      // Transition IN from the full frame, using the zoom's own length and curve
+      if (transitionIn > 0 && time < zoom.startTime + transitionIn) {
+        const t = (time - zoom.startTime) / transitionIn;
+        const easedT = applyZoomEasing(zoom, t);
+        return {
+          ...zoom,
+          x: lerp(50, point.x, easedT),
+          y: lerp(50, point.y, easedT),
+          scale: lerp(1.0, point.scale, easedT),
+        };
+      }
+
+      // Transition OUT back to the full frame (same curve, run forwards so springs settle at 1x)
+      if (transitionOut > 0 && time > zoom.endTime - transitionOut) {
+        const t = (time - (zoom.endTime - transitionOut)) / transitionOut;
+        const easedT = applyZoomEasing(zoom, t);
+        return {
+          ...zoom,
+          x: lerp(point.x, 50, easedT),
+          y: lerp(point.y, 50, easedT),
+          scale: lerp(point.scale, 1.0, easedT),
+        };
+      }
+
+      // Middle of zoom (no transition, follow the keyframe path)
+      return { ...zoom, ...point };
+    }
+  }
+
+  // No zoom active at this time
+  return null;
+}
+
+/** Cut a zoom down to [start, end], keeping its path where it was. */
+export function retimeZoom(zoom: ZoomEffect, start: number, end: number): ZoomEffect {
+  const offset = start - zoom.startTime;
+  const keyframes = getSortedKeyframes(zoom)
+    .filter(keyframe => keyframe.time > offset && zoom.startTime + keyframe.time <= end)
+    .map(keyframe => ({ ...keyframe, time: keyframe.time - offset }));
+  return {
+    ...zoom,
+    ...getZoomPathPoint(zoom, start),
+    startTime: start,
+    endTime: end,
+    keyframes: keyframes.length ? keyframes : undefined,
+  };
+}
+
+/** Add a keyframe at an absolute time, seeded with the path's current framing so nothing jumps. */
+export function insertKeyframe(zoom: ZoomEffect, time: number): { zoom: ZoomEffect; keyframe: ZoomKeyframe } {
+  const zoomDuration = zoom.endTime - zoom.startTime;
+  const keyframe: ZoomKeyframe = {
+    id: crypto.randomUUID(),
+    time: Math.max(0, Math.min(zoomDuration, time - zoom.startTime)),
+    ...getZoomPathPoint(zoom, time),
+    easing: 'ease-in-out',
+  };
+  const keyframes = [...(zoom.keyframes ?? []), keyframe].sort((a, b) => a.time - b.time);
+  return { zoom: { ...zoom, keyframes }, keyframe };
+}
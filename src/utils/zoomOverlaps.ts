@@ -0,0 +1,123 @@
+import { ZoomEffect, ZoomKeyframe, ZoomOverlapStrategy } from '../types';
+import { getSortedKeyframes, getZoomPathPoint, retimeZoom } from './zoomInterpolation';
+
+// Shorter leftovers are dropped instead of kept as a zoom nobody can grab on the timeline
+const MIN_ZOOM_DURATION = 0.1;
+
+export interface ZoomOverlap {
+  first: ZoomEffect;
+  second: ZoomEffect;
+  start: number;
+  end: number;
+}
+
+/** Every pair of zooms whose ranges intersect, earliest first. */
+export function findZoomOverlaps(zooms: ZoomEffect[]): ZoomOverlap[] {
+  const sorted = [...zooms].sort((a, b) => a.startTime - b.startTime);
+  const overlaps: ZoomOverlap[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length && sorted[j].startTime < sorted[i].endTime; j++) {
+      overlaps.push({
+        first: sorted[i],
+        second: sorted[j],
+        start: sorted[j].startTime,
+        end: Math.min(sorted[i].endTime, sorted[j].endTime),
+      });
+    }
+  }
+  return overlaps;
+}
+
+function trim(first: ZoomEffect, second: ZoomEffect): ZoomEffect[] {
+  // The later zoom wins the shared range
+  if (second.startTime - first.startTime >= MIN_ZOOM_DURATION) {
+    return [retimeZoom(first, first.startTime, second.startTime), second];
+  }
+  // Both start together: the later one gives way instead
+  if (second.endTime - first.endTime >= MIN_ZOOM_DURATION) {
+    return [first, retimeZoom(second, first.endTime, second.endTime)];
+  }
+  return [first];
+}
+
+function merge(first: ZoomEffect, second: ZoomEffect): ZoomEffect[] {
+  const last = second.endTime > first.endTime ? second : first;
+  return [{
+    ...first,
+    startTime: first.startTime,
+    endTime: last.endTime,
+    x: (first.x + second.x) / 2,
+    y: (first.y + second.y) / 2,
+    scale: Math.max(first.scale, second.scale),
+    transitionOut: last.transitionOut,
+    keyframes: undefined,
+    panToNext: last.panToNext,
+  }];
+}
+
+function pan(first: ZoomEffect, second: ZoomEffect): ZoomEffect[] {
+  const offset = second.startTime - first.startTime;
+  if (offset < MIN_ZOOM_DURATION) return merge(first, second);
+
+  const keyframes: ZoomKeyframe[] = getSortedKeyframes(first).filter(keyframe => keyframe.time < offset);
+  keyframes.push({
+    id: crypto.randomUUID(),
+    time: offset,
+    x: second.x,
+    y: second.y,
+    scale: second.scale,
+    easing: second.easing ?? 'ease-in-out',
+  });
+  for (const keyframe of getSortedKeyframes(second)) {
+    keyframes.push({ ...keyframe, time: offset + keyframe.time });
+  }
+
+  // The second zoom sits inside the first: pan back and carry on along the first path
+  if (second.endTime < first.endTime) {
+    const back = second.endTime - first.startTime;
+    keyframes.push({
+      id: crypto.randomUUID(),
+      time: back,
+      ...getZoomPathPoint(first, second.endTime),
+      easing: 'ease-in-out',
+    });
+    keyframes.push(...getSortedKeyframes(first).filter(keyframe => keyframe.time > back));
+  }
+
+  const last = second.endTime > first.endTime ? second : first;
+  return [{
+    ...first,
+    endTime: last.endTime,
+    transitionOut: last.transitionOut,
+    keyframes,
+    panToNext: last.panToNext,
+  }];
+}
+
+/** Replace two overlapping zooms (first starting no later than second) with non-overlapping ones. */
+export function resolveZoomOverlap(first: ZoomEffect, second: ZoomEffect, strategy: ZoomOverlapStrategy): ZoomEffect[] {
+  switch (strategy) {
+    case 'trim': return trim(first, second);
+    case 'merge': return merge(first, second);
+    case 'pan': return pan(first, second);
+  }
+}
+
+/** Resolve every overlap in one sweep; the result is sorted and overlap-free. */
+export function resolveZoomOverlaps(zooms: ZoomEffect[], strategy: ZoomOverlapStrategy): ZoomEffect[] {
+  const sorted = [...zooms].sort((a, b) => a.startTime - b.startTime);
+  const result: ZoomEffect[] = [];
+  let current = sorted[0];
+  for (const next of sorted.slice(1)) {
+    if (next.startTime >= current.endTime) {
+      result.push(current);
+      current = next;
+      continue;
+    }
+    const resolved = resolveZoomOverlap(current, next, strategy);
+    result.push(...resolved.slice(0, -1));
+    current = resolved[resolved.length - 1];
+  }
+  if (current) result.push(current);
+  return result;
+}